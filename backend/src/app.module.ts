@@ -2,11 +2,33 @@ import { Module } from '@nestjs/common';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { ScheduleModule } from '@nestjs/schedule';
 import { CodeFile } from './models/code-file.model';
+import { CodeRevision } from './models/code-revision.model';
+import { SessionEvent } from './models/session-event.model';
+import { ShareLink } from './models/share-link.model';
+import { RoomBan } from './models/room-ban.model';
+import { InterviewNotes } from './models/interview-notes.model';
+import { RoomTemplate } from './models/room-template.model';
+import { TestCase } from './models/test-case.model';
+import { RoomMessage } from './models/room-message.model';
+import { CommentThread } from './models/comment-thread.model';
+import { Comment } from './models/comment.model';
 import { CodeController } from './controllers/code.controller';
 import { HealthController } from './controllers/health.controller';
+import { TemplateController } from './controllers/template.controller';
 import { CodeService } from './services/code.service';
 import { CodeGateway } from './gateways/code.gateway';
 import { CleanupService } from './services/cleanup.service';
+import { ReplayService } from './services/replay.service';
+import { ArchiveService } from './services/archive.service';
+import { ShareLinkService } from './services/share-link.service';
+import { RoomPasswordService } from './services/room-password.service';
+import { ModerationService } from './services/moderation.service';
+import { InterviewService } from './services/interview.service';
+import { TemplateService } from './services/template.service';
+import { CodeRunnerService } from './services/code-runner.service';
+import { TestCaseService } from './services/test-case.service';
+import { ChatService } from './services/chat.service';
+import { CommentService } from './services/comment.service';
 
 @Module({
   imports: [
@@ -17,13 +39,19 @@ import { CleanupService } from './services/cleanup.service';
         console.log('DB_HOST:', process.env.DB_HOST || 'NOT SET');
         console.log('All env vars:', process.env);
 
+        // Новые колонки в существующие таблицы добавляет ALTER при запуске. Миграций нет, а ALTER
+        // при смене типа колонки может потерять данные, поэтому в production он включается только явно
+        const alterSchema = process.env.NODE_ENV !== 'production' || process.env.DB_SYNC_ALTER === 'true';
+        const schemaSync = alterSchema ? { sync: { alter: true } } : {};
+
         const config = process.env.DATABASE_URL && process.env.DATABASE_URL.length > 0
           ? {
               dialect: 'postgres' as const,
               uri: process.env.DATABASE_URL,
-              models: [CodeFile],
+              models: [CodeFile, CodeRevision, SessionEvent, ShareLink, RoomBan, InterviewNotes, RoomTemplate, TestCase, RoomMessage, CommentThread, Comment],
               autoLoadModels: true,
               synchronize: true,
+              ...schemaSync,
               dialectOptions: {
                 ssl: {
                   require: true,
@@ -38,9 +66,10 @@ import { CleanupService } from './services/cleanup.service';
               username: process.env.DB_USERNAME || 'postgres',
               password: process.env.DB_PASSWORD || 'password',
               database: process.env.DB_NAME || 'livecoding',
-              models: [CodeFile],
+              models: [CodeFile, CodeRevision, SessionEvent, ShareLink, RoomBan, InterviewNotes, RoomTemplate, TestCase, RoomMessage, CommentThread, Comment],
               autoLoadModels: true,
               synchronize: true,
+              ...schemaSync,
             };
 
         console.log('🗄️ Database config:', {
@@ -52,10 +81,10 @@ import { CleanupService } from './services/cleanup.service';
         return config;
       },
     }),
-    SequelizeModule.forFeature([CodeFile]),
+    SequelizeModule.forFeature([CodeFile, CodeRevision, SessionEvent, ShareLink, RoomBan, InterviewNotes, RoomTemplate, TestCase, RoomMessage, CommentThread, Comment]),
     ScheduleModule.forRoot(),
   ],
-  controllers: [CodeController, HealthController],
-  providers: [CodeService, CodeGateway, CleanupService],
+  controllers: [CodeController, TemplateController, HealthController],
+  providers: [CodeService, ReplayService, ArchiveService, ShareLinkService, RoomPasswordService, ModerationService, InterviewService, TemplateService, CodeRunnerService, TestCaseService, ChatService, CommentService, CodeGateway, CleanupService],
 })
 export class AppModule {}
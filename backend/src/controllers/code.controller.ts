@@ -1,9 +1,54 @@
-import { Controller, Get, Post, Put, Param, Body, HttpException, HttpStatus } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Headers,
+  Body,
+  Query,
+  HttpException,
+  HttpStatus,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { CodeService } from '../services/code.service';
+import { ReplayService } from '../services/replay.service';
+import { ArchiveService, MAX_IMPORT_SIZE } from '../services/archive.service';
+import { ShareLinkService } from '../services/share-link.service';
+import { RoomPasswordService } from '../services/room-password.service';
+import { TemplateService, MAX_TEMPLATE_DESCRIPTION_LENGTH, MAX_TEMPLATE_NAME_LENGTH } from '../services/template.service';
+import { CodeGateway } from '../gateways/code.gateway';
+import { CodeFile, INTERVIEW_ROLES, InterviewRole, ROOM_MODES, ROOM_ROLES, RoomMode, RoomRole } from '../models/code-file.model';
+import { SYNC_ENGINES, SyncEngine } from '../models/code-file.model';
+import { RoomCredentials, RoomCredentialsParam } from '../decorators/room-credentials.decorator';
+import { MAX_ROOM_PASSWORD_LENGTH, MIN_ROOM_PASSWORD_LENGTH } from '../utils/room-password';
+
+const DEFAULT_HISTORY_PAGE_SIZE = 100;
+const MAX_HISTORY_PAGE_SIZE = 500;
+const MAX_ROOM_LIFETIME_HOURS = 7 * 24;
+
+// Загруженный через multipart/form-data файл (поля, которые заполняет multer)
+interface UploadedSource {
+  originalname: string;
+  buffer: Buffer;
+  size: number;
+}
 
 @Controller('api/code')
 export class CodeController {
-  constructor(private codeService: CodeService) {}
+  constructor(
+    private codeService: CodeService,
+    private replayService: ReplayService,
+    private archiveService: ArchiveService,
+    private shareLinkService: ShareLinkService,
+    private roomPasswordService: RoomPasswordService,
+    private templateService: TemplateService,
+    private codeGateway: CodeGateway,
+  ) {}
 
   @Get('health')
   health() {
@@ -11,22 +56,95 @@ export class CodeController {
   }
 
   @Post()
-  async createCodeFile() {
+  async createCodeFile(
+    @Body() body: { syncEngine?: SyncEngine; password?: string; mode?: RoomMode; templateId?: string } = {},
+  ) {
+    const syncEngine = body?.syncEngine || 'ot';
+    if (!SYNC_ENGINES.includes(syncEngine)) {
+      throw new HttpException('Unknown sync engine', HttpStatus.BAD_REQUEST);
+    }
+    if (body?.mode && !ROOM_MODES.includes(body.mode)) {
+      throw new HttpException('Unknown room mode', HttpStatus.BAD_REQUEST);
+    }
+    if (body?.templateId !== undefined && typeof body.templateId !== 'string') {
+      throw new HttpException('Invalid template', HttpStatus.BAD_REQUEST);
+    }
+    validatePassword(body?.password);
+
     try {
-      const codeFile = await this.codeService.createCodeFile();
+      const template = body?.templateId ? await this.templateService.getTemplate(body.templateId) : null;
+      if (body?.templateId && !template) {
+        throw new HttpException('Template not found', HttpStatus.NOT_FOUND);
+      }
+
+      const codeFile = template
+        ? await this.templateService.createRoomFromTemplate(template, syncEngine)
+        : await this.codeService.createCodeFile(syncEngine);
+      if (body?.password) {
+        await this.roomPasswordService.setPassword(codeFile, body.password);
+      }
+      if (body?.mode) {
+        await this.codeService.setRoomMode(codeFile, body.mode);
+      }
       return {
         id: codeFile.id,
         code: codeFile.code,
         language: codeFile.language,
+        revision: codeFile.revision,
+        syncEngine: codeFile.syncEngine,
+        mode: codeFile.mode,
         createdAt: codeFile.createdAt,
+        hasPassword: !!codeFile.passwordHash,
+        // Токен владельца отдается только создателю комнаты и больше нигде не возвращается
+        ownerToken: await this.codeService.issueOwnerToken(codeFile),
       };
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       throw new HttpException('Failed to create code file', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
 
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_SIZE } }))
+  async importCodeFile(
+    @UploadedFile() file: UploadedSource | undefined,
+    @Body() body: { syncEngine?: SyncEngine; password?: string } = {},
+  ) {
+    if (!file) {
+      throw new HttpException('No file uploaded', HttpStatus.BAD_REQUEST);
+    }
+    if (body?.syncEngine && !SYNC_ENGINES.includes(body.syncEngine)) {
+      throw new HttpException('Unknown sync engine', HttpStatus.BAD_REQUEST);
+    }
+    validatePassword(body?.password);
+
+    try {
+      const codeFile = await this.archiveService.importRoom(file.originalname, file.buffer, body?.syncEngine);
+      if (body?.password) {
+        await this.roomPasswordService.setPassword(codeFile, body.password);
+      }
+      return {
+        id: codeFile.id,
+        code: codeFile.code,
+        language: codeFile.language,
+        revision: codeFile.revision,
+        syncEngine: codeFile.syncEngine,
+        createdAt: codeFile.createdAt,
+        hasPassword: !!codeFile.passwordHash,
+        ownerToken: await this.codeService.issueOwnerToken(codeFile),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to import code file', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
   @Get(':id')
-  async getCodeFile(@Param('id') id: string) {
+  async getCodeFile(@Param('id') id: string, @RoomCredentialsParam() credentials: RoomCredentials) {
     try {
       const codeFile = await this.codeService.getCodeFile(id);
       if (!codeFile) {
@@ -37,11 +155,18 @@ export class CodeController {
         throw new HttpException('Code file has expired', HttpStatus.GONE);
       }
 
+      await this.checkRoomPassword(codeFile, credentials);
+
       return {
         id: codeFile.id,
+        roomId: codeFile.roomId || codeFile.id,
+        path: codeFile.path,
         code: codeFile.code,
         language: codeFile.language,
+        revision: codeFile.revision,
+        syncEngine: codeFile.syncEngine,
         createdAt: codeFile.createdAt,
+        expiresAt: codeFile.expiresAt,
       };
     } catch (error) {
       if (error instanceof HttpException) {
@@ -51,28 +176,473 @@ export class CodeController {
     }
   }
 
-  @Put(':id')
-  async updateCodeFile(
+  @Delete(':id')
+  async deleteRoom(@Param('id') id: string, @Headers('authorization') authorization?: string) {
+    try {
+      const room = await this.getOwnedRoom(id, authorization);
+      const files = await this.codeService.getRoomFiles(room.id);
+
+      this.codeGateway.closeRoom(room.id, files.map(file => file.id));
+      await this.codeService.deleteRoom(room.id);
+      return { id: room.id, deleted: true };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to delete room', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Put(':id/expiry')
+  async updateExpiry(
+    @Param('id') id: string,
+    @Body() body: { expiresInHours?: number } = {},
+    @Headers('authorization') authorization?: string,
+  ) {
+    const hours = body?.expiresInHours;
+    if (typeof hours !== 'number' || !Number.isFinite(hours) || hours <= 0 || hours > MAX_ROOM_LIFETIME_HOURS) {
+      throw new HttpException(`Expiry must be between 0 and ${MAX_ROOM_LIFETIME_HOURS} hours`, HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const room = await this.getOwnedRoom(id, authorization);
+      const expiresAt = new Date(Date.now() + hours * 60 * 60 * 1000);
+
+      await this.codeService.setRoomExpiry(room.id, expiresAt);
+      this.codeGateway.notifyRoomExpiryChanged(room.id, expiresAt);
+      return { id: room.id, expiresAt };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to update expiry', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Put(':id/access')
+  async updateAccess(
+    @Param('id') id: string,
+    @Body() body: { defaultRole?: RoomRole } = {},
+    @Headers('authorization') authorization?: string,
+  ) {
+    const defaultRole = body?.defaultRole;
+    if (!defaultRole || !ROOM_ROLES.includes(defaultRole)) {
+      throw new HttpException('Unknown role', HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const room = await this.getOwnedRoom(id, authorization);
+      await this.codeService.setDefaultRole(room, defaultRole);
+      this.codeGateway.applyRoomAccess(room.id, defaultRole);
+      return { id: room.id, defaultRole };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to update access', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Get(':id/share-links')
+  async getShareLinks(@Param('id') id: string, @Headers('authorization') authorization?: string) {
+    try {
+      const room = await this.getOwnedRoom(id, authorization);
+      const links = await this.shareLinkService.getShareLinks(room.id);
+      return {
+        id: room.id,
+        defaultRole: room.defaultRole,
+        links: links.map(link => ({
+          id: link.id,
+          role: link.role,
+          interviewRole: link.interviewRole,
+          createdAt: link.createdAt,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to get share links', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Post(':id/share-links')
+  async createShareLink(
+    @Param('id') id: string,
+    @Body() body: { role?: RoomRole; interviewRole?: InterviewRole } = {},
+    @Headers('authorization') authorization?: string,
+  ) {
+    const role = body?.role;
+    if (!role || !ROOM_ROLES.includes(role)) {
+      throw new HttpException('Unknown role', HttpStatus.BAD_REQUEST);
+    }
+    const interviewRole = body?.interviewRole || null;
+    if (interviewRole && !INTERVIEW_ROLES.includes(interviewRole)) {
+      throw new HttpException('Unknown interview role', HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const room = await this.getOwnedRoom(id, authorization);
+      if (interviewRole && room.mode !== 'interview') {
+        throw new HttpException('Room is not in interview mode', HttpStatus.BAD_REQUEST);
+      }
+
+      // Интервьюер всегда может редактировать, как и владелец
+      const linkRole = interviewRole === 'interviewer' ? 'editor' : role;
+      const { link, token } = await this.shareLinkService.createShareLink(room.id, linkRole, interviewRole);
+      // Токен приглашения виден только сейчас, в базе хранится хеш
+      return { id: link.id, role: link.role, interviewRole: link.interviewRole, createdAt: link.createdAt, token };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to create share link', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Delete(':id/share-links/:linkId')
+  async deleteShareLink(
+    @Param('id') id: string,
+    @Param('linkId') linkId: string,
+    @Headers('authorization') authorization?: string,
+  ) {
+    try {
+      const room = await this.getOwnedRoom(id, authorization);
+      const deleted = await this.shareLinkService.deleteShareLink(room.id, linkId);
+      if (!deleted) {
+        throw new HttpException('Share link not found', HttpStatus.NOT_FOUND);
+      }
+
+      // Вошедшие по ссылке участники получают роль комнаты по умолчанию
+      this.codeGateway.applyRoomAccess(room.id, room.defaultRole, linkId);
+      return { id: linkId, deleted: true };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to delete share link', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Get(':id/files')
+  async getFiles(@Param('id') id: string, @RoomCredentialsParam() credentials: RoomCredentials) {
+    try {
+      const codeFile = await this.codeService.getCodeFile(id);
+      if (!codeFile) {
+        throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (new Date() > codeFile.expiresAt) {
+        throw new HttpException('Code file has expired', HttpStatus.GONE);
+      }
+
+      await this.checkRoomPassword(codeFile, credentials);
+
+      const roomId = codeFile.roomId || codeFile.id;
+      const files = await this.codeService.getRoomFiles(roomId);
+      return {
+        roomId,
+        files: files.map(file => ({
+          id: file.id,
+          path: file.path,
+          entryType: file.entryType,
+          language: file.language,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to get files', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Post(':id/fork')
+  async forkCodeFile(
+    @Param('id') id: string,
+    @Body() body: { includeHistory?: boolean } = {},
+    @RoomCredentialsParam() credentials: RoomCredentials,
+  ) {
+    try {
+      const codeFile = await this.codeService.getCodeFile(id);
+      if (!codeFile) {
+        throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (new Date() > codeFile.expiresAt) {
+        throw new HttpException('Code file has expired', HttpStatus.GONE);
+      }
+
+      await this.checkRoomPassword(codeFile, credentials);
+
+      const room = codeFile.roomId ? await this.codeService.getCodeFile(codeFile.roomId) : codeFile;
+      const fork = room && await this.codeService.forkRoom(room.id, {
+        includeHistory: body?.includeHistory === true,
+        includeHiddenTests: this.codeService.isRoomOwner(room, credentials.ownerToken),
+      });
+      if (!fork) {
+        throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+      }
+
+      return {
+        id: fork.id,
+        code: fork.code,
+        language: fork.language,
+        revision: fork.revision,
+        syncEngine: fork.syncEngine,
+        createdAt: fork.createdAt,
+        // Владельцем копии становится тот, кто ее создал
+        ownerToken: await this.codeService.issueOwnerToken(fork),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to fork code file', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * Сохранение комнаты в общую библиотеку шаблонов. Доступно только владельцу комнаты:
+   * удалить шаблон потом может тоже только он
+   */
+  @Post(':id/template')
+  async saveAsTemplate(
+    @Param('id') id: string,
+    @Body() body: { name?: string; description?: string; testsFileId?: string } = {},
+    @Headers('authorization') authorization?: string,
+  ) {
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_TEMPLATE_NAME_LENGTH) {
+      throw new HttpException(`Template name must be between 1 and ${MAX_TEMPLATE_NAME_LENGTH} characters`, HttpStatus.BAD_REQUEST);
+    }
+    const description = typeof body?.description === 'string' && body.description.trim() ? body.description.trim() : null;
+    if (description && description.length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+      throw new HttpException('Template description is too long', HttpStatus.BAD_REQUEST);
+    }
+    if (body?.testsFileId !== undefined && typeof body.testsFileId !== 'string') {
+      throw new HttpException('Invalid tests file', HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const room = await this.getOwnedRoom(id, authorization);
+      if (await this.templateService.isLibraryFull()) {
+        throw new HttpException('Template library is full', HttpStatus.CONFLICT);
+      }
+
+      const testsFile = body?.testsFileId ? await this.codeService.getCodeFile(body.testsFileId) : null;
+      if (body?.testsFileId && (!testsFile || testsFile.roomId !== room.id || testsFile.entryType !== 'file')) {
+        throw new HttpException('Tests file must be a file in this room', HttpStatus.BAD_REQUEST);
+      }
+
+      return await this.templateService.saveRoomAsTemplate(room, { name, description }, testsFile);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to save template', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Get(':id/export')
+  async exportRoom(@Param('id') id: string, @RoomCredentialsParam() credentials: RoomCredentials) {
+    try {
+      const codeFile = await this.codeService.getCodeFile(id);
+      if (!codeFile) {
+        throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (new Date() > codeFile.expiresAt) {
+        throw new HttpException('Code file has expired', HttpStatus.GONE);
+      }
+
+      await this.checkRoomPassword(codeFile, credentials);
+
+      const archive = await this.archiveService.exportRoom(codeFile.roomId || codeFile.id);
+      if (!archive) {
+        throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+      }
+
+      return new StreamableFile(archive.data, {
+        type: 'application/zip',
+        disposition: `attachment; filename="${archive.fileName}"`,
+        length: archive.data.length,
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to export code file', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Get(':id/history')
+  async getHistory(
     @Param('id') id: string,
-    @Body() body: { code: string; language?: string },
+    @Query('limit') limitParam: string | undefined,
+    @Query('before') beforeParam: string | undefined,
+    @RoomCredentialsParam() credentials: RoomCredentials,
   ) {
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_HISTORY_PAGE_SIZE;
+    const before = beforeParam ? parseInt(beforeParam, 10) : undefined;
+    if (!Number.isInteger(limit) || limit < 1 || (before !== undefined && !Number.isInteger(before))) {
+      throw new HttpException('Invalid pagination parameters', HttpStatus.BAD_REQUEST);
+    }
+
     try {
-      const codeFile = await this.codeService.updateCodeFile(id, body.code, body.language);
+      const codeFile = await this.codeService.getCodeFile(id);
       if (!codeFile) {
         throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
       }
 
+      if (new Date() > codeFile.expiresAt) {
+        throw new HttpException('Code file has expired', HttpStatus.GONE);
+      }
+
+      await this.checkRoomPassword(codeFile, credentials);
+      const revisions = await this.codeService.getHistory(id, Math.min(limit, MAX_HISTORY_PAGE_SIZE), before);
       return {
         id: codeFile.id,
-        code: codeFile.code,
-        language: codeFile.language,
-        createdAt: codeFile.createdAt,
+        currentRevision: codeFile.revision,
+        revisions: revisions.map(revision => ({
+          revision: revision.revision,
+          kind: revision.kind,
+          language: revision.language,
+          authorNickname: revision.authorNickname,
+          createdAt: revision.createdAt,
+        })),
       };
     } catch (error) {
       if (error instanceof HttpException) {
         throw error;
       }
-      throw new HttpException('Failed to update code file', HttpStatus.INTERNAL_SERVER_ERROR);
+      throw new HttpException('Failed to get history', HttpStatus.INTERNAL_SERVER_ERROR);
     }
   }
+
+  @Get(':id/history/:revision')
+  async getRevision(
+    @Param('id') id: string,
+    @Param('revision') revisionParam: string,
+    @RoomCredentialsParam() credentials: RoomCredentials,
+  ) {
+    const revision = parseInt(revisionParam, 10);
+    if (!Number.isInteger(revision) || revision < 0) {
+      throw new HttpException('Invalid revision', HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const codeFile = await this.codeService.getCodeFile(id);
+      if (!codeFile) {
+        throw new HttpException('Revision not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (new Date() > codeFile.expiresAt) {
+        throw new HttpException('Code file has expired', HttpStatus.GONE);
+      }
+
+      await this.checkRoomPassword(codeFile, credentials);
+      const content = await this.codeService.getRevisionContent(id, revision);
+      if (!content) {
+        throw new HttpException('Revision not found', HttpStatus.NOT_FOUND);
+      }
+
+      return { id, ...content };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to get revision', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  @Get(':id/replay')
+  async getReplay(@Param('id') id: string, @RoomCredentialsParam() credentials: RoomCredentials) {
+    try {
+      const codeFile = await this.codeService.getCodeFile(id);
+      if (!codeFile) {
+        throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+      }
+
+      if (new Date() > codeFile.expiresAt) {
+        throw new HttpException('Code file has expired', HttpStatus.GONE);
+      }
+
+      await this.checkRoomPassword(codeFile, credentials);
+      const timeline = await this.replayService.getTimeline(id);
+      if (!timeline) {
+        throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+      }
+
+      return timeline;
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to get replay', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  /**
+   * Комната, над которой выполняется административное действие. Токен владельца передается
+   * в заголовке Authorization: Bearer <token>
+   */
+  private async getOwnedRoom(id: string, authorization?: string): Promise<CodeFile> {
+    const codeFile = await this.codeService.getCodeFile(id);
+    if (!codeFile || codeFile.roomId) {
+      throw new HttpException('Room not found', HttpStatus.NOT_FOUND);
+    }
+
+    if (new Date() > codeFile.expiresAt) {
+      throw new HttpException('Room has expired', HttpStatus.GONE);
+    }
+
+    const token = authorization?.replace(/^Bearer\s+/i, '');
+    if (!this.codeService.isRoomOwner(codeFile, token)) {
+      throw new HttpException('Only the room owner can do this', HttpStatus.FORBIDDEN);
+    }
+
+    return codeFile;
+  }
+
+  /**
+   * Доступ к содержимому комнаты с паролем. Пароль передается в заголовке X-Room-Password,
+   * владельцу комнаты он не нужен
+   */
+  private async checkRoomPassword(codeFile: CodeFile, credentials: RoomCredentials): Promise<void> {
+    const room = codeFile.roomId ? await this.codeService.getCodeFile(codeFile.roomId) : codeFile;
+    if (!room) {
+      throw new HttpException('Code file not found', HttpStatus.NOT_FOUND);
+    }
+
+    if (!room.passwordHash || this.codeService.isRoomOwner(room, credentials.ownerToken)) {
+      return;
+    }
+
+    const result = await this.roomPasswordService.checkPassword(room, credentials.password, credentials.ip);
+    if (result === 'required') {
+      throw new HttpException('Password required', HttpStatus.UNAUTHORIZED);
+    }
+    if (result === 'invalid') {
+      throw new HttpException('Invalid password', HttpStatus.FORBIDDEN);
+    }
+    if (result === 'blocked') {
+      throw new HttpException('Too many password attempts, try again later', HttpStatus.TOO_MANY_REQUESTS);
+    }
+  }
+}
+
+function validatePassword(password: unknown) {
+  if (password === undefined || password === null || password === '') return;
+
+  if (
+    typeof password !== 'string'
+    || password.length < MIN_ROOM_PASSWORD_LENGTH
+    || password.length > MAX_ROOM_PASSWORD_LENGTH
+  ) {
+    throw new HttpException(
+      `Password must be between ${MIN_ROOM_PASSWORD_LENGTH} and ${MAX_ROOM_PASSWORD_LENGTH} characters`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
 }
\ No newline at end of file
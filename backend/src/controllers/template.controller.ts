@@ -0,0 +1,45 @@
+import { Controller, Delete, Get, Headers, HttpException, HttpStatus, Param } from '@nestjs/common';
+import { TemplateService } from '../services/template.service';
+
+@Controller('api/templates')
+export class TemplateController {
+  constructor(private templateService: TemplateService) {}
+
+  /**
+   * Встроенные шаблоны и шаблоны команды. С токеном владельца комнаты
+   * (Authorization: Bearer <token>) его шаблоны помечаются как доступные для удаления
+   */
+  @Get()
+  async getTemplates(@Headers('authorization') authorization?: string) {
+    try {
+      const ownerToken = authorization?.replace(/^Bearer\s+/i, '');
+      return { templates: await this.templateService.listTemplates(ownerToken) };
+    } catch (error) {
+      throw new HttpException('Failed to get templates', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+
+  // Шаблон команды удаляет только владелец комнаты, из которой он сохранен
+  @Delete(':id')
+  async deleteTemplate(@Param('id') id: string, @Headers('authorization') authorization?: string) {
+    try {
+      const template = await this.templateService.getTeamTemplate(id);
+      if (!template) {
+        throw new HttpException('Template not found', HttpStatus.NOT_FOUND);
+      }
+
+      const ownerToken = authorization?.replace(/^Bearer\s+/i, '');
+      if (!this.templateService.isTemplateOwner(template, ownerToken)) {
+        throw new HttpException('Only the template owner can do this', HttpStatus.FORBIDDEN);
+      }
+
+      await this.templateService.deleteTemplate(template);
+      return { id, deleted: true };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Failed to delete template', HttpStatus.INTERNAL_SERVER_ERROR);
+    }
+  }
+}
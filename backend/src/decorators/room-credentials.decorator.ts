@@ -0,0 +1,33 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { getClientIp } from '../utils/client-ip';
+
+export interface RoomCredentials {
+  password?: string;
+  ownerToken?: string;
+  ip: string;
+}
+
+/**
+ * Данные для доступа к комнате из запроса: пароль (X-Room-Password, в URI-кодировке,
+ * чтобы заголовок мог содержать не только латиницу),
+ * токен владельца (Authorization: Bearer <token>) и IP клиента
+ */
+export const RoomCredentialsParam = createParamDecorator((_data: unknown, ctx: ExecutionContext): RoomCredentials => {
+  const request = ctx.switchToHttp().getRequest();
+  const password = request.headers['x-room-password'];
+  const authorization = request.headers['authorization'];
+
+  return {
+    password: typeof password === 'string' ? decodePassword(password) : undefined,
+    ownerToken: typeof authorization === 'string' ? authorization.replace(/^Bearer\s+/i, '') : undefined,
+    ip: getClientIp(request.headers['x-forwarded-for'], request.socket?.remoteAddress),
+  };
+});
+
+function decodePassword(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -8,13 +8,102 @@ import {
   OnGatewayDisconnect,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
 import { CodeService } from '../services/code.service';
+import { ReplayService } from '../services/replay.service';
+import { ShareLinkService } from '../services/share-link.service';
+import { PasswordCheckResult, RoomPasswordService } from '../services/room-password.service';
+import { ModerationService, ParticipantFingerprint } from '../services/moderation.service';
+import { CodeRunnerService, RunnerBusyError } from '../services/code-runner.service';
+import { RunHandle } from '../runners/language-runner';
+import { ChatService, MAX_MESSAGE_LENGTH } from '../services/chat.service';
+import { CommentService, MAX_THREADS_PER_FILE, parseCommentText } from '../services/comment.service';
+import {
+  MAX_TEST_CASES,
+  TestCaseService,
+  TestRunSummary,
+  parseTestCaseInput,
+} from '../services/test-case.service';
+import {
+  CANDIDATE_EVENT_TYPES,
+  CandidateEventType,
+  InterviewService,
+  MAX_NOTES_LENGTH,
+  Scorecard,
+  parseScorecard,
+} from '../services/interview.service';
+import {
+  TextOperation,
+  isValidOperationList,
+  isWellFormedOperationList,
+  applyOperations,
+  transformOperations,
+  diffToOperations,
+  hashText,
+} from '../utils/text-operation';
+import {
+  CrdtDocument,
+  CrdtOperation,
+  isValidCrdtOperationList,
+  MAX_CRDT_DOCUMENT_SIZE,
+  SERVER_CLIENT_ID,
+} from '../utils/crdt-document';
+import { CodeFile, FILE_ENTRY_TYPES, FileEntryType, InterviewRole, RoomRole } from '../models/code-file.model';
+import { TestCase } from '../models/test-case.model';
+import { hasPathConflict, isInsideFolder, missingParentFolders, normalizePath, MAX_ROOM_ENTRIES } from '../utils/file-path';
+import { getClientIp } from '../utils/client-ip';
+import { issueParticipantToken, verifyParticipantToken } from '../utils/participant-token';
+
+const MAX_CODE_LENGTH = 1000000; // Максимум 1MB
+const MAX_PROBLEM_STATEMENT_LENGTH = 20000;
+const MAX_OPERATION_LOG_LENGTH = 500;
+// Не чаще одного сообщения чата или комментария за этот интервал от одного подключения
+const MESSAGE_INTERVAL_MS = 300;
+// Не чаще одного указания на код (пинга) за этот интервал, лишние пинги отбрасываются
+const PING_INTERVAL_MS = 1000;
+// Состояние CRDT документа пишется в базу не чаще этого интервала, текст файла - после каждой правки
+const CRDT_STATE_SAVE_DELAY_MS = 2000;
+// Сколько хранить журнал операций опустевшей комнаты, чтобы переподключившиеся клиенты
+// могли получить только пропущенные операции вместо полного документа
+const OPERATION_LOG_RETENTION_MS = 5 * 60 * 1000;
+
+// Тексты совпадают с ответами REST API, клиент по ним показывает форму ввода пароля
+const PASSWORD_ERRORS: Record<Exclude<PasswordCheckResult, 'granted'>, string> = {
+  required: 'Password required',
+  invalid: 'Invalid password',
+  blocked: 'Too many password attempts, try again later',
+};
+
+// Отдельный socket.io канал интервьюеров: заметки и события кандидата уходят только в него
+const interviewersChannel = (roomId: string) => `${roomId}:interviewers`;
+
+interface LoggedOperations {
+  revision: number;
+  operations: TextOperation[];
+  operationId?: string;
+}
+
+// Данные клиента для восстановления после переподключения
+interface ResyncState {
+  revision: number;
+  hash: string;
+}
 
 interface ConnectedUser {
   id: string;
   roomId: string;
+  fileId?: string; // Открытый пользователем файл комнаты
   nickname?: string;
-  cursorPosition?: number;
+  cursorPosition?: number; // Активный конец выделения (каретка)
+  selectionAnchor?: number; // Второй конец выделения, если выделен текст
+  viewportTopLine?: number; // Первая видимая строка в редакторе, по ней за пользователем следуют другие
+  isOwner?: boolean;
+  role: RoomRole;
+  shareLinkId?: string | null; // Приглашение, по которому пользователь вошел в комнату
+  participantId: string; // Выданный сервером идентификатор участника, по нему работают бан и закрытие комнаты
+  ip: string;
+  interviewRole?: InterviewRole; // Только в комнатах-собеседованиях
+  crdtEpoch?: number; // Номер последнего отправленного пользователю CRDT документа
 }
 
 @WebSocketGateway({
@@ -36,8 +125,37 @@ export class CodeGateway implements OnGatewayConnection, OnGatewayDisconnect {
   private connectedUsers = new Map<string, ConnectedUser>();
   private roomUsers = new Map<string, Set<string>>();
   private rateLimiter = new Map<string, number>();
+  // Очередь изменений по комнатам: правки одной комнаты применяются строго последовательно
+  private roomQueues = new Map<string, Promise<void>>();
+  // Журнал последних примененных операций для трансформации параллельных правок
+  private operationLogs = new Map<string, LoggedOperations[]>();
+  // Загруженные CRDT документы комнат, работающих в режиме CRDT
+  private crdtDocuments = new Map<string, CrdtDocument>();
+  // Отложенное сохранение состояния CRDT документов по файлам
+  private crdtStateSaveTimers = new Map<string, NodeJS.Timeout>();
+  private roomCleanupTimers = new Map<string, NodeJS.Timeout>();
+  // Участники, которые были в комнате в момент закрытия - им можно переподключиться
+  private lockedRoomMembers = new Map<string, Set<string>>();
+  // Запущенная в комнате программа: одновременно в комнате выполняется только одна
+  private activeRuns = new Map<string, { runId: string; stop: () => void }>();
+  // Время последнего сообщения в чат или комментария участника
+  private lastMessageAt = new Map<string, number>();
+  private lastPingAt = new Map<string, number>();
+  // Ведущий показа в комнате: за ним следуют все остальные участники
+  private presenters = new Map<string, string>();
 
-  constructor(private codeService: CodeService) {}
+  constructor(
+    private codeService: CodeService,
+    private replayService: ReplayService,
+    private shareLinkService: ShareLinkService,
+    private roomPasswordService: RoomPasswordService,
+    private moderationService: ModerationService,
+    private interviewService: InterviewService,
+    private codeRunnerService: CodeRunnerService,
+    private testCaseService: TestCaseService,
+    private chatService: ChatService,
+    private commentService: CommentService,
+  ) {}
 
   handleConnection(client: Socket) {
     // Логирование событий для отладки в режиме разработки
@@ -54,14 +172,77 @@ export class CodeGateway implements OnGatewayConnection, OnGatewayDisconnect {
       this.leaveRoom(client, user.roomId);
       this.connectedUsers.delete(client.id);
     }
+    this.lastMessageAt.delete(client.id);
+    this.lastPingAt.delete(client.id);
+  }
+
+  /**
+   * Комната удалена владельцем: участники получают уведомление и отключаются от нее
+   */
+  closeRoom(roomId: string, fileIds: string[]) {
+    this.server.to(roomId).emit('room_deleted', { roomId });
+    this.server.in(roomId).socketsLeave([roomId, interviewersChannel(roomId)]);
+    this.roomUsers.get(roomId)?.forEach(userId => this.connectedUsers.delete(userId));
+    this.roomUsers.delete(roomId);
+    this.lockedRoomMembers.delete(roomId);
+    this.interviewService.forgetRoom(roomId);
+    this.activeRuns.get(roomId)?.stop();
+    this.cancelRoomCleanup(roomId);
+    this.forgetFiles(fileIds);
+    this.replayService.discardEvents(fileIds);
+  }
+
+  /**
+   * Пересчет ролей подключенных участников после изменения доступа владельцем:
+   * новой роли по умолчанию или отзыва приглашения
+   */
+  applyRoomAccess(roomId: string, defaultRole: RoomRole, revokedLinkId?: string) {
+    const roomUsersSet = this.roomUsers.get(roomId);
+    if (!roomUsersSet) return;
+
+    const users = Array.from(roomUsersSet)
+      .map(userId => this.connectedUsers.get(userId))
+      .filter((user): user is ConnectedUser => Boolean(user));
+
+    users.forEach(user => {
+      if (user.isOwner) return;
+      if (user.shareLinkId && user.shareLinkId !== revokedLinkId) return;
+
+      user.shareLinkId = null;
+      if (user.role !== defaultRole) {
+        user.role = defaultRole;
+        this.server.to(user.id).emit('role_changed', { role: defaultRole });
+      }
+      // Интервьюер по отозванной ссылке становится кандидатом и теряет доступ к заметкам
+      if (user.interviewRole === 'interviewer') {
+        user.interviewRole = 'candidate';
+        this.server.in(user.id).socketsLeave(interviewersChannel(roomId));
+        this.server.to(user.id).emit('interview_role_changed', { interviewRole: 'candidate' });
+      }
+    });
+
+    this.emitUsers(roomId, 'users_updated');
+  }
+
+  notifyRoomExpiryChanged(roomId: string, expiresAt: Date) {
+    this.server.to(roomId).emit('room_expiry_changed', { roomId, expiresAt });
   }
 
   @SubscribeMessage('join_room')
   async handleJoinRoom(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { roomId: string; nickname?: string },
+    @MessageBody() data: {
+      roomId: string;
+      nickname?: string;
+      fileId?: string;
+      resync?: ResyncState;
+      ownerToken?: string;
+      inviteToken?: string;
+      password?: string;
+      participantToken?: string;
+    },
   ) {
-    const { roomId, nickname } = data;
+    const { roomId, nickname, resync } = data;
     const codeFile = await this.codeService.getCodeFile(roomId);
     if (!codeFile) {
       client.emit('error', { message: 'Room not found' });
@@ -73,17 +254,54 @@ export class CodeGateway implements OnGatewayConnection, OnGatewayDisconnect {
       return;
     }
 
+    const isOwner = this.codeService.isRoomOwner(codeFile, data.ownerToken);
+    const ip = getClientIp(client.handshake.headers['x-forwarded-for'], client.handshake.address);
+    // Токен от прошлого входа в эту комнату, иначе участник получает новый идентификатор
+    const knownParticipantId = verifyParticipantToken(roomId, data.participantToken);
+    const participantId = knownParticipantId || uuidv4();
+    if (!isOwner && codeFile.passwordHash) {
+      const result = await this.roomPasswordService.checkPassword(codeFile, data.password, ip);
+      if (result !== 'granted') {
+        client.emit('error', { message: PASSWORD_ERRORS[result] });
+        return;
+      }
+    }
+
+    if (!isOwner && await this.moderationService.isBanned(roomId, { nickname, participantId, ip })) {
+      client.emit('error', { message: 'You are banned from this room' });
+      return;
+    }
+
+    if (!isOwner && codeFile.isLocked && !(knownParticipantId && this.lockedRoomMembers.get(roomId)?.has(knownParticipantId))) {
+      client.emit('error', { message: 'Room is locked' });
+      return;
+    }
+
     const existingUser = this.connectedUsers.get(client.id);
     if (existingUser) {
       this.leaveRoom(client, existingUser.roomId);
     }
 
-    client.join(roomId);
+    this.cancelRoomCleanup(roomId);
 
+    // Владелец всегда может редактировать, остальные получают роль по приглашению
+    const access = isOwner
+      ? { role: 'editor' as RoomRole, interviewRole: 'interviewer' as InterviewRole, shareLinkId: null }
+      : await this.shareLinkService.resolveAccess(codeFile, data.inviteToken);
+    // На собеседовании интервьюеры - владелец и вошедшие по ссылке интервьюера, остальные - кандидаты
+    const interviewRole: InterviewRole | undefined = codeFile.mode === 'interview'
+      ? access.interviewRole || 'candidate'
+      : undefined;
     const user: ConnectedUser = {
       id: client.id,
       roomId,
       nickname: nickname || `User${Math.floor(Math.random() * 1000)}`,
+      isOwner,
+      role: access.role,
+      shareLinkId: access.shareLinkId,
+      participantId,
+      ip,
+      interviewRole,
     };
 
     this.connectedUsers.set(client.id, user);
@@ -93,27 +311,56 @@ export class CodeGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
     this.roomUsers.get(roomId)!.add(client.id);
 
-    client.emit('joined_room', {
-      roomId,
-      code: codeFile.code,
-      language: codeFile.language,
+    // Снимок документа и подписка на комнату выполняются в очереди комнаты,
+    // чтобы между ними не проскочила чужая правка
+    await this.enqueueRoomTask(roomId, async () => {
+      // После переподключения возвращаем клиента в тот же файл, если он еще существует
+      const requestedFile = data.fileId ? await this.codeService.getRoomFile(roomId, data.fileId) : null;
+      const currentFile = requestedFile && requestedFile.entryType === 'file'
+        ? requestedFile
+        : await this.codeService.getCodeFile(roomId);
+      const files = await this.codeService.getRoomFiles(roomId);
+
+      user.fileId = currentFile.id;
+      client.join(roomId);
+      if (user.interviewRole === 'interviewer') {
+        client.join(interviewersChannel(roomId));
+      }
+      client.emit('joined_room', {
+        ...this.buildJoinPayload(user, currentFile, currentFile.id === requestedFile?.id ? resync : undefined),
+        roomId,
+        files: files.map(file => this.serializeEntry(file)),
+        isOwner: user.isOwner,
+        role: user.role,
+        participantToken: issueParticipantToken(roomId, participantId),
+        expiresAt: codeFile.expiresAt,
+        isLocked: codeFile.isLocked,
+        mode: codeFile.mode,
+        interviewRole: user.interviewRole,
+        problemStatement: codeFile.problemStatement || '',
+        presenterId: this.presenters.get(roomId) || null,
+      });
+      await this.sendCommentThreads(client, roomId, currentFile.id);
     });
 
-    const roomUsersList = Array.from(this.roomUsers.get(roomId)!)
-      .map(userId => this.connectedUsers.get(userId))
-      .filter(Boolean);
+    // Пока ждали очередь, клиент мог отключиться
+    if (!this.roomUsers.get(roomId)?.has(client.id)) {
+      return;
+    }
 
     // Отправляем обновленный список пользователей всем в комнате
-    const currentUsers = roomUsersList.map(u => ({ id: u!.id, nickname: u!.nickname }));
-    this.server.to(roomId).emit('user_joined', {
-      user: { id: user.id, nickname: user.nickname },
-      users: currentUsers,
-    });
+    this.emitUsers(roomId, 'user_joined', { user: { id: user.id, nickname: user.nickname } });
 
-    client.emit('user_joined', {
-      user: { id: user.id, nickname: user.nickname },
-      users: currentUsers,
-    });
+    try {
+      await this.emitTestCases(roomId, client);
+      client.emit('chat_history', { roomId, messages: await this.chatService.getHistory(roomId) });
+    } catch (error) {
+      console.error('Error loading room data:', error);
+    }
+
+    if (user.interviewRole === 'interviewer') {
+      await this.sendInterviewNotes(client, roomId);
+    }
   }
 
   @SubscribeMessage('leave_room')
@@ -124,155 +371,1767 @@ export class CodeGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
-  @SubscribeMessage('code_update')
-  async handleCodeUpdate(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { roomId: string; code: string; language?: string },
-  ) {
-    // Rate limiting: максимум 10 обновлений в секунду
-    // const now = Date.now();
-    // const lastUpdate = this.rateLimiter.get(client.id) || 0;
+  @SubscribeMessage('kick_user')
+  handleKickUser(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; userId: string }) {
+    const target = this.getModerationTarget(client, data);
+    if (target) {
+      this.removeFromRoom(target, 'kicked');
+    }
+  }
 
-    // if (now - lastUpdate < 100) {
-    //   client.emit('error', { message: 'Rate limit exceeded' });
-    //   return;
-    // }
+  /**
+   * Бан по никнейму, идентификатору и IP участника до конца жизни комнаты.
+   * Из комнаты удаляются и другие вкладки того же участника.
+   */
+  @SubscribeMessage('ban_user')
+  async handleBanUser(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; userId: string }) {
+    const target = this.getModerationTarget(client, data);
+    if (!target) return;
 
-    // this.rateLimiter.set(client.id, now);
+    const fingerprint: ParticipantFingerprint = { nickname: target.nickname, participantId: target.participantId, ip: target.ip };
+    try {
+      await this.moderationService.banParticipant(target.roomId, fingerprint);
+    } catch (error) {
+      console.error('Error banning user:', error);
+      client.emit('error', { message: 'Failed to ban user' });
+      return;
+    }
 
-    const { roomId, code, language } = data;
+    Array.from(this.roomUsers.get(target.roomId) || [])
+      .map(userId => this.connectedUsers.get(userId))
+      .filter((user): user is ConnectedUser => Boolean(user))
+      .filter(user => !user.isOwner && (
+        user.id === target.id
+        || user.participantId === target.participantId
+        || user.nickname?.toLowerCase() === target.nickname?.toLowerCase()
+      ))
+      .forEach(user => this.removeFromRoom(user, 'banned'));
+  }
+
+  /**
+   * Режим показа: владелец становится ведущим, и редакторы всех участников следуют за ним,
+   * пока он не завершит показ или не выйдет из комнаты
+   */
+  @SubscribeMessage('set_presenter')
+  handleSetPresenter(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; enabled: boolean }) {
     const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (!this.canModerate(client, user)) return;
 
-    if (!user || user.roomId !== roomId) {
+    if (data.enabled !== true) {
+      this.presenters.delete(data.roomId);
+      this.server.to(data.roomId).emit('presenter_changed', { roomId: data.roomId, presenterId: null });
+      return;
+    }
+
+    this.presenters.set(data.roomId, client.id);
+    // Файл и прокрутку интервьюера кандидаты раньше не видели, поэтому они приходят вместе с началом показа
+    this.server.to(data.roomId).emit('presenter_changed', {
+      roomId: data.roomId,
+      presenterId: client.id,
+      fileId: user.fileId,
+      topLine: user.viewportTopLine ?? 0,
+    });
+  }
+
+  @SubscribeMessage('set_room_lock')
+  async handleSetRoomLock(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; locked: boolean }) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
       client.emit('error', { message: 'Not in room' });
       return;
     }
+    if (!this.canModerate(client, user)) return;
 
-    // Валидация данных
-    if (typeof code !== 'string' || code.length > 1000000) { // Максимум 1MB
-      client.emit('error', { message: 'Invalid code data' });
+    try {
+      const room = await this.codeService.getCodeFile(data.roomId);
+      if (!room) {
+        client.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      const isLocked = data.locked === true;
+      await this.moderationService.setRoomLocked(room, isLocked);
+      if (isLocked) {
+        // Уже вошедшие участники смогут вернуться после разрыва связи
+        const members = Array.from(this.roomUsers.get(data.roomId) || [])
+          .map(userId => this.connectedUsers.get(userId)?.participantId)
+          .filter((participantId): participantId is string => Boolean(participantId));
+        this.lockedRoomMembers.set(data.roomId, new Set(members));
+      } else {
+        this.lockedRoomMembers.delete(data.roomId);
+      }
+
+      this.server.to(data.roomId).emit('room_lock_changed', { roomId: data.roomId, isLocked });
+    } catch (error) {
+      console.error('Error changing room lock:', error);
+      client.emit('error', { message: 'Failed to change room lock' });
+    }
+  }
+
+  @SubscribeMessage('problem_update')
+  async handleProblemUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; problemStatement: string },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (!this.canModerate(client, user)) return;
+
+    if (typeof data.problemStatement !== 'string' || data.problemStatement.length > MAX_PROBLEM_STATEMENT_LENGTH) {
+      client.emit('error', { message: 'Invalid problem statement' });
       return;
     }
 
     try {
-      // Получаем текущий код для трансформации курсоров
-      const oldCodeFile = await this.codeService.getCodeFile(roomId);
-      const oldCode = oldCodeFile?.code || '';
-
-      await this.codeService.updateCodeFile(roomId, code, language);
-
-      // Получаем позиции курсоров всех пользователей в комнате
-      const roomUsersSet = this.roomUsers.get(roomId);
-      const allCursors = roomUsersSet ? Array.from(roomUsersSet)
-        .map(userId => {
-          const u = this.connectedUsers.get(userId);
-          return u && u.cursorPosition !== undefined ? {
-            userId: u.id,
-            position: u.cursorPosition,
-            nickname: u.nickname
-          } : null;
-        })
-        .filter(Boolean) : [];
-
-      // Отправляем обновление всем пользователям в комнате кроме отправителя
-      client.to(roomId).emit('code_updated', {
-        code,
-        language,
-        userId: client.id,
-        userNickname: user.nickname,
-        oldCode,
-        allCursors
+      const room = await this.codeService.getCodeFile(data.roomId);
+      if (!room) {
+        client.emit('error', { message: 'Room not found' });
+        return;
+      }
+
+      await this.codeService.setProblemStatement(room, data.problemStatement || null);
+      this.server.to(data.roomId).emit('problem_updated', {
+        roomId: data.roomId,
+        problemStatement: data.problemStatement,
       });
     } catch (error) {
-      console.error('Failed to update code:', error);
-      client.emit('error', { message: 'Failed to update code' });
+      console.error('Error updating problem statement:', error);
+      client.emit('error', { message: 'Failed to update problem statement' });
     }
   }
 
-  @SubscribeMessage('language_change')
-  async handleLanguageChange(
+  @SubscribeMessage('run_code')
+  async handleRunCode(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { roomId: string; language: string },
+    @MessageBody() data: { roomId: string; fileId: string; stdin?: string },
   ) {
-    const { roomId, language } = data;
     const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (!this.canEdit(client, user)) return;
+    if (data.stdin !== undefined && typeof data.stdin !== 'string') {
+      client.emit('error', { message: 'Invalid input' });
+      return;
+    }
 
-    if (!user || user.roomId !== roomId) {
+    const roomId = data.roomId;
+    const reserved = await this.reserveRun(client, roomId, data.fileId);
+    if (!reserved) return;
+    const { runId, files, entry } = reserved;
+
+    let run: RunHandle;
+    try {
+      run = await this.codeRunnerService.run(
+        { files, entryPath: entry.path, stdin: data.stdin || '' },
+        (stream, text) => this.server.to(roomId).emit('run_output', { roomId, runId, stream, text }),
+      );
+    } catch (error) {
+      this.activeRuns.delete(roomId);
+      if (!(error instanceof RunnerBusyError)) {
+        console.error('Error starting run:', error);
+      }
+      client.emit('error', { message: error instanceof RunnerBusyError ? error.message : 'Failed to run code' });
+      return;
+    }
+
+    this.activeRuns.set(roomId, { runId, stop: run.stop });
+    this.server.to(roomId).emit('run_started', {
+      roomId,
+      runId,
+      fileId: entry.id,
+      path: entry.path,
+      language: entry.language,
+      startedBy: user.nickname,
+    });
+
+    const result = await run.result;
+    if (this.activeRuns.get(roomId)?.runId === runId) {
+      this.activeRuns.delete(roomId);
+    }
+    this.server.to(roomId).emit('run_finished', { roomId, runId, ...result });
+  }
+
+  /**
+   * Прогон тестов комнаты на открытом файле. Результаты видят все участники,
+   * вывод программы на скрытых тестах - только владелец
+   */
+  @SubscribeMessage('run_tests')
+  async handleRunTests(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; fileId: string }) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
       client.emit('error', { message: 'Not in room' });
       return;
     }
+    if (!this.canEdit(client, user)) return;
 
+    const roomId = data.roomId;
+    let testCases: TestCase[];
     try {
-      const codeFile = await this.codeService.getCodeFile(roomId);
-      if (codeFile) {
-        await this.codeService.updateCodeFile(roomId, codeFile.code, language);
+      testCases = await this.testCaseService.getTestCases(roomId);
+    } catch (error) {
+      console.error('Error loading test cases:', error);
+      client.emit('error', { message: 'Failed to run tests' });
+      return;
+    }
+    if (testCases.length === 0) {
+      client.emit('error', { message: 'No test cases to run' });
+      return;
+    }
 
-        this.server.to(roomId).emit('language_changed', {
-          language,
-          userId: client.id,
-          userNickname: user.nickname,
-        });
+    const reserved = await this.reserveRun(client, roomId, data.fileId);
+    if (!reserved) return;
+    const { runId, files, entry } = reserved;
+
+    const ownerIds = this.getRoomOwnerIds(roomId);
+    const run = this.testCaseService.runTestCases(files, entry.path, testCases, (result, testCase) => {
+      this.server.to(roomId).except(ownerIds)
+        .emit('test_result', { roomId, runId, ...this.testCaseService.toPublicResult(result, testCase) });
+      if (ownerIds.length > 0) {
+        this.server.to(ownerIds).emit('test_result', { roomId, runId, ...result });
       }
+    });
+    this.activeRuns.set(roomId, { runId, stop: run.stop });
+    this.server.to(roomId).emit('tests_started', {
+      roomId,
+      runId,
+      fileId: entry.id,
+      path: entry.path,
+      startedBy: user.nickname,
+      testIds: testCases.map(testCase => testCase.id),
+    });
+
+    let summary: TestRunSummary;
+    try {
+      summary = await run.result;
     } catch (error) {
-      client.emit('error', { message: 'Failed to change language' });
+      if (!(error instanceof RunnerBusyError)) {
+        console.error('Error running tests:', error);
+      }
+      client.emit('error', { message: error instanceof RunnerBusyError ? error.message : 'Failed to run tests' });
+      summary = { status: 'error', passed: 0, total: testCases.length };
     }
+    if (this.activeRuns.get(roomId)?.runId === runId) {
+      this.activeRuns.delete(roomId);
+    }
+    this.server.to(roomId).emit('tests_finished', { roomId, runId, ...summary });
   }
 
+  @SubscribeMessage('test_case_create')
+  async handleTestCaseCreate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; input: string; expectedOutput: string; isHidden?: boolean },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (!this.canModerate(client, user)) return;
 
-  @SubscribeMessage('cursor_update')
-  handleCursorUpdate(
+    const testCase = parseTestCaseInput(data);
+    if (!testCase) {
+      client.emit('error', { message: 'Invalid test case' });
+      return;
+    }
+
+    try {
+      const created = await this.testCaseService.createTestCase(data.roomId, testCase);
+      if (!created) {
+        client.emit('error', { message: `A room can have at most ${MAX_TEST_CASES} test cases` });
+        return;
+      }
+      await this.emitTestCases(data.roomId);
+    } catch (error) {
+      console.error('Error creating test case:', error);
+      client.emit('error', { message: 'Failed to create test case' });
+    }
+  }
+
+  @SubscribeMessage('test_case_update')
+  async handleTestCaseUpdate(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { roomId: string; position: number },
+    @MessageBody() data: { roomId: string; testId: string; input: string; expectedOutput: string; isHidden?: boolean },
   ) {
-    const { roomId, position } = data;
     const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (!this.canModerate(client, user)) return;
 
-    if (!user || user.roomId !== roomId) {
+    const testCase = parseTestCaseInput(data);
+    if (!testCase || typeof data.testId !== 'string') {
+      client.emit('error', { message: 'Invalid test case' });
+      return;
+    }
+
+    try {
+      const updated = await this.testCaseService.updateTestCase(data.roomId, data.testId, testCase);
+      if (!updated) {
+        client.emit('error', { message: 'Test case not found' });
+        return;
+      }
+      await this.emitTestCases(data.roomId);
+    } catch (error) {
+      console.error('Error updating test case:', error);
+      client.emit('error', { message: 'Failed to update test case' });
+    }
+  }
+
+  @SubscribeMessage('test_case_delete')
+  async handleTestCaseDelete(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; testId: string }) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
       client.emit('error', { message: 'Not in room' });
       return;
     }
+    if (!this.canModerate(client, user)) return;
 
-    // Валидация позиции курсора
-    if (typeof position !== 'number' || position < 0 || position > 1000000) {
-      client.emit('error', { message: 'Invalid cursor position' });
+    try {
+      const deleted = typeof data.testId === 'string' && await this.testCaseService.deleteTestCase(data.roomId, data.testId);
+      if (!deleted) {
+        client.emit('error', { message: 'Test case not found' });
+        return;
+      }
+      await this.emitTestCases(data.roomId);
+    } catch (error) {
+      console.error('Error deleting test case:', error);
+      client.emit('error', { message: 'Failed to delete test case' });
+    }
+  }
+
+  @SubscribeMessage('stop_run')
+  handleStopRun(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string }) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
       return;
     }
+    if (!this.canEdit(client, user)) return;
 
-    // Обновляем позицию курсора пользователя на сервере
-    user.cursorPosition = position;
+    this.activeRuns.get(data.roomId)?.stop();
+  }
 
-    // Отправляем обновление позиции курсора всем остальным пользователям в комнате
-    client.to(roomId).emit('cursor_updated', {
-      userId: client.id,
-      position,
-      userNickname: user.nickname,
-    });
+  /**
+   * Сообщение в чат комнаты. Писать могут все участники, включая наблюдателей
+   */
+  @SubscribeMessage('chat_message')
+  async handleChatMessage(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; text: string }) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    const text = typeof data.text === 'string' ? data.text.trim() : '';
+    if (!text || text.length > MAX_MESSAGE_LENGTH) {
+      client.emit('error', { message: 'Invalid message' });
+      return;
+    }
+
+    if (this.isSendingTooFast(client)) return;
+
+    try {
+      const message = await this.chatService.addMessage(data.roomId, user.nickname || 'Anonymous', text);
+      this.server.to(data.roomId).emit('chat_message', { roomId: data.roomId, message });
+    } catch (error) {
+      console.error('Error saving chat message:', error);
+      client.emit('error', { message: 'Failed to send message' });
+    }
   }
 
-  private leaveRoom(client: Socket, roomId: string) {
-    client.leave(roomId);
+  /**
+   * Новая ветка комментариев к диапазону строк файла. Комментировать могут все участники,
+   * включая наблюдателей: так проходит ревью кода в комнате
+   */
+  @SubscribeMessage('comment_thread_create')
+  async handleCommentThreadCreate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId: string; startPosition: number; endPosition: number; text: string },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
 
-    const roomUsersSet = this.roomUsers.get(roomId);
-    if (roomUsersSet) {
-      roomUsersSet.delete(client.id);
+    const text = parseCommentText(data.text);
+    const { startPosition, endPosition } = data;
+    if (!text || !Number.isInteger(startPosition) || !Number.isInteger(endPosition) ||
+        startPosition < 0 || endPosition < startPosition) {
+      client.emit('error', { message: 'Invalid comment' });
+      return;
+    }
+    if (this.isSendingTooFast(client)) return;
 
-      const user = this.connectedUsers.get(client.id);
-      if (user) {
-        const remainingUsers = Array.from(roomUsersSet)
-          .map(userId => this.connectedUsers.get(userId))
-          .filter(Boolean);
-
-        const remainingUsersList = remainingUsers.map(u => ({ id: u!.id, nickname: u!.nickname }));
-        this.server.to(roomId).emit('user_left', {
-          user: { id: user.id, nickname: user.nickname },
-          users: remainingUsersList,
-        });
+    // В очереди комнаты: границы проверяются и сохраняются относительно того же текста, что и правки
+    await this.enqueueRoomTask(data.roomId, async () => {
+      try {
+        const codeFile = await this.resolveFile(data.roomId, data.fileId);
+        if (!codeFile) {
+          client.emit('error', { message: 'File not found' });
+          return;
+        }
+        if (endPosition > codeFile.code.length) {
+          client.emit('error', { message: 'Invalid comment' });
+          return;
+        }
+
+        const thread = await this.commentService.createThread(
+          data.roomId, codeFile.id, { startPosition, endPosition }, user.nickname || 'Anonymous', text,
+        );
+        if (!thread) {
+          client.emit('error', { message: `A file can have at most ${MAX_THREADS_PER_FILE} comment threads` });
+          return;
+        }
+        this.server.to(data.roomId).emit('comment_thread_updated', { roomId: data.roomId, thread });
+      } catch (error) {
+        console.error('Error creating comment thread:', error);
+        client.emit('error', { message: 'Failed to add comment' });
+      }
+    });
+  }
+
+  @SubscribeMessage('comment_reply')
+  async handleCommentReply(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; threadId: string; text: string },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
 
+    const text = parseCommentText(data.text);
+    if (!text || typeof data.threadId !== 'string') {
+      client.emit('error', { message: 'Invalid comment' });
+      return;
+    }
+    if (this.isSendingTooFast(client)) return;
+
+    try {
+      const thread = await this.commentService.addReply(data.roomId, data.threadId, user.nickname || 'Anonymous', text);
+      if (!thread) {
+        client.emit('error', { message: 'Comment thread not found or full' });
+        return;
       }
+      this.server.to(data.roomId).emit('comment_thread_updated', { roomId: data.roomId, thread });
+    } catch (error) {
+      console.error('Error adding comment reply:', error);
+      client.emit('error', { message: 'Failed to add comment' });
+    }
+  }
+
+  @SubscribeMessage('comment_thread_resolve')
+  async handleCommentThreadResolve(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; threadId: string; isResolved: boolean },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (typeof data.threadId !== 'string' || typeof data.isResolved !== 'boolean') {
+      client.emit('error', { message: 'Invalid comment thread' });
+      return;
+    }
 
-      if (roomUsersSet.size === 0) {
-        this.roomUsers.delete(roomId);
+    try {
+      const thread = await this.commentService.setResolved(
+        data.roomId, data.threadId, data.isResolved, user.nickname || 'Anonymous',
+      );
+      if (!thread) {
+        client.emit('error', { message: 'Comment thread not found' });
+        return;
       }
+      this.server.to(data.roomId).emit('comment_thread_updated', { roomId: data.roomId, thread });
+    } catch (error) {
+      console.error('Error resolving comment thread:', error);
+      client.emit('error', { message: 'Failed to update comment thread' });
+    }
+  }
+
+  @SubscribeMessage('comment_thread_delete')
+  async handleCommentThreadDelete(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; threadId: string },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (!this.canModerate(client, user)) return;
+
+    try {
+      const fileId = typeof data.threadId === 'string'
+        ? await this.commentService.deleteThread(data.roomId, data.threadId)
+        : null;
+      if (!fileId) {
+        client.emit('error', { message: 'Comment thread not found' });
+        return;
+      }
+      this.server.to(data.roomId).emit('comment_thread_deleted', { roomId: data.roomId, fileId, threadId: data.threadId });
+    } catch (error) {
+      console.error('Error deleting comment thread:', error);
+      client.emit('error', { message: 'Failed to delete comment thread' });
+    }
+  }
+
+  @SubscribeMessage('code_update')
+  async handleCodeUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId?: string; code: string; language?: string },
+  ) {
+    // Rate limiting: максимум 10 обновлений в секунду
+    // const now = Date.now();
+    // const lastUpdate = this.rateLimiter.get(client.id) || 0;
+
+    // if (now - lastUpdate < 100) {
+    //   client.emit('error', { message: 'Rate limit exceeded' });
+    //   return;
+    // }
+
+    // this.rateLimiter.set(client.id, now);
+
+    const { roomId, code, language } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    // Валидация данных
+    if (typeof code !== 'string' || code.length > MAX_CODE_LENGTH) {
+      client.emit('error', { message: 'Invalid code data' });
+      return;
+    }
+
+    // Полная замена документа - запасной вариант синхронизации, основной путь - code_ops
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        // Получаем текущий код для трансформации курсоров
+        const oldCodeFile = await this.resolveFile(roomId, data.fileId);
+        if (!oldCodeFile) {
+          client.emit('error', { message: 'File not found' });
+          return;
+        }
+        const oldCode = oldCodeFile.code;
+
+        if (oldCodeFile.syncEngine === 'crdt') {
+          client.emit('error', { message: 'Room uses CRDT sync' });
+          return;
+        }
+
+        const fileId = oldCodeFile.id;
+        if (language) {
+          await this.codeService.setLanguage(fileId, language);
+        }
+        const codeFile = await this.replaceCode(fileId, code, user.nickname);
+        const operations = diffToOperations(oldCode, code);
+        this.replayService.recordEdit(fileId, user, codeFile.revision, operations);
+
+        // Отправляем обновление всем пользователям в комнате кроме отправителя
+        client.to(roomId).emit('code_updated', {
+          fileId,
+          code,
+          language,
+          revision: codeFile?.revision,
+          userId: client.id,
+          userNickname: user.nickname,
+          oldCode,
+          allCursors: this.getRoomCursors(roomId, fileId),
+        });
+        await this.commentService.remapThreads(fileId, operations);
+      } catch (error) {
+        console.error('Failed to update code:', error);
+        client.emit('error', { message: 'Failed to update code' });
+      }
+    });
+  }
+
+  @SubscribeMessage('code_ops')
+  async handleCodeOperations(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: {
+      roomId: string;
+      fileId?: string;
+      baseRevision: number;
+      operations: TextOperation[];
+      operationId?: string;
+    },
+  ) {
+    const { roomId, baseRevision, operations } = data;
+    const operationId = typeof data.operationId === 'string' && data.operationId.length <= 64
+      ? data.operationId
+      : undefined;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        const codeFile = await this.resolveFile(roomId, data.fileId);
+        if (!codeFile) {
+          client.emit('error', { message: 'File not found' });
+          return;
+        }
+
+        if (codeFile.syncEngine !== 'ot') {
+          client.emit('error', { message: 'Room uses CRDT sync' });
+          return;
+        }
+
+        const fileId = codeFile.id;
+
+        if (!isWellFormedOperationList(operations) ||
+            !Number.isInteger(baseRevision) || baseRevision > codeFile.revision) {
+          client.emit('error', { message: 'Invalid code operations' });
+          this.emitResync(client, codeFile);
+          return;
+        }
+
+        // Правка основана на старой ревизии - трансформируем её относительно всех
+        // операций, примененных после этой ревизии
+        let transformedOperations = operations;
+        if (baseRevision < codeFile.revision) {
+          const concurrentOperations = this.getOperationsSince(fileId, baseRevision, codeFile.revision);
+          if (!concurrentOperations) {
+            // Нужной истории уже нет в журнале - отправляем клиенту полный документ
+            this.emitResync(client, codeFile);
+            return;
+          }
+          [transformedOperations] = transformOperations(operations, concurrentOperations, false);
+        }
+
+        if (!isValidOperationList(transformedOperations, codeFile.code.length) ||
+            applyOperations(codeFile.code, transformedOperations).length > MAX_CODE_LENGTH) {
+          client.emit('error', { message: 'Invalid code operations' });
+          this.emitResync(client, codeFile);
+          return;
+        }
+
+        const updatedFile = await this.codeService.applyOperations(fileId, transformedOperations, user.nickname);
+        this.logOperations(fileId, { revision: updatedFile.revision, operations: transformedOperations, operationId });
+        this.replayService.recordEdit(fileId, user, updatedFile.revision, transformedOperations);
+
+        client.emit('code_ops_ack', { fileId, revision: updatedFile.revision, operationId });
+
+        client.to(roomId).emit('code_ops_applied', {
+          fileId,
+          operations: transformedOperations,
+          revision: updatedFile.revision,
+          userId: client.id,
+          userNickname: user.nickname,
+          allCursors: this.getRoomCursors(roomId, fileId),
+        });
+        await this.commentService.remapThreads(fileId, transformedOperations);
+      } catch (error) {
+        console.error('Failed to apply code operations:', error);
+        client.emit('error', { message: 'Failed to update code' });
+      }
+    });
+  }
+
+  @SubscribeMessage('crdt_ops')
+  async handleCrdtOperations(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId?: string; epoch?: number; operations: CrdtOperation[] },
+  ) {
+    const { roomId, operations } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    if (!isValidCrdtOperationList(operations)) {
+      client.emit('error', { message: 'Invalid code operations' });
+      return;
+    }
+
+    await this.enqueueRoomTask(roomId, async () => {
+      // Пакет построен по документу, который клиенту уже заменили новым. Получив новый
+      // документ, клиент сам отправит неподтвержденные операции заново
+      if (data.epoch !== user.crdtEpoch) return;
+
+      try {
+        const codeFile = await this.resolveFile(roomId, data.fileId);
+        if (!codeFile) {
+          client.emit('error', { message: 'File not found' });
+          return;
+        }
+
+        const fileId = codeFile.id;
+        if (codeFile.syncEngine !== 'crdt') {
+          client.emit('error', { message: 'Room uses OT sync' });
+          return;
+        }
+
+        const document = this.getCrdtDocument(codeFile);
+        if (!document.hasDependencies(operations)) {
+          // Копия клиента устарела (например, документ был пересобран). Пакет не подтверждается:
+          // клиент получит документ заново и перенесет на него свои неподтвержденные правки
+          this.emitResync(client, codeFile);
+          return;
+        }
+
+        const insertedLength = operations.filter(operation => operation.type === 'insert').length;
+        if (document.getText().length + insertedLength > Math.min(MAX_CODE_LENGTH, MAX_CRDT_DOCUMENT_SIZE)) {
+          client.emit('error', { message: 'Invalid code operations' });
+          return;
+        }
+
+        // Операции идемпотентны: повторно присланные после переподключения просто игнорируются
+        const changed = document.applyRemote(operations);
+
+        if (changed) {
+          const savedFile = await this.codeService.saveCrdtDocument(fileId, document, user.nickname);
+          this.scheduleCrdtStateSave(roomId, fileId);
+          const textOperations = diffToOperations(codeFile.code, document.getText());
+          this.replayService.recordEdit(fileId, user, savedFile.revision, textOperations);
+
+          client.to(roomId).emit('crdt_ops_applied', {
+            fileId,
+            operations,
+            userId: client.id,
+            userNickname: user.nickname,
+            allCursors: this.getRoomCursors(roomId, fileId),
+          });
+          await this.commentService.remapThreads(fileId, textOperations);
+        }
+
+        client.emit('crdt_ops_ack', { fileId, epoch: user.crdtEpoch, count: operations.length });
+        if (document.size > MAX_CRDT_DOCUMENT_SIZE) {
+          await this.compactCrdtDocument(roomId, fileId);
+        }
+      } catch (error) {
+        console.error('Failed to apply CRDT operations:', error);
+        client.emit('error', { message: 'Failed to update code' });
+      }
+    });
+  }
+
+  @SubscribeMessage('request_resync')
+  async handleResyncRequest(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId?: string },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    await this.enqueueRoomTask(data.roomId, async () => {
+      const codeFile = await this.resolveFile(data.roomId, data.fileId);
+      if (codeFile) {
+        this.emitResync(client, codeFile);
+      }
+    });
+  }
+
+  @SubscribeMessage('restore_revision')
+  async handleRestoreRevision(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId?: string; revision: number },
+  ) {
+    const { roomId, revision } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    if (!Number.isInteger(revision) || revision < 0) {
+      client.emit('error', { message: 'Invalid revision' });
+      return;
+    }
+
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        const codeFile = await this.resolveFile(roomId, data.fileId);
+        const restored = codeFile ? await this.codeService.getRevisionContent(codeFile.id, revision) : null;
+        if (!codeFile || !restored) {
+          client.emit('error', { message: 'Revision not found' });
+          return;
+        }
+
+        const fileId = codeFile.id;
+
+        // Восстановление - обычная правка поверх текущего текста, поэтому клиенты
+        // применяют её тем же путем, что и правки других участников
+        if (codeFile.syncEngine === 'crdt') {
+          const document = this.getCrdtDocument(codeFile);
+          const operations: CrdtOperation[] = [];
+          const textOperations = diffToOperations(document.getText(), restored.code);
+          textOperations.forEach(operation => {
+            if (operation.type === 'delete') {
+              operations.push(...document.localDelete(operation.position, operation.length));
+            } else {
+              operations.push(...document.localInsert(operation.position, operation.content || ''));
+            }
+          });
+
+          if (operations.length > 0) {
+            const savedFile = await this.codeService.saveCrdtDocument(fileId, document, user.nickname);
+            this.scheduleCrdtStateSave(roomId, fileId);
+            this.replayService.recordEdit(fileId, user, savedFile.revision, textOperations);
+            this.server.to(roomId).emit('crdt_ops_applied', {
+              fileId,
+              operations,
+              userId: client.id,
+              userNickname: user.nickname,
+              allCursors: this.getRoomCursors(roomId, fileId),
+            });
+            await this.commentService.remapThreads(fileId, textOperations);
+          }
+        } else {
+          const operations = diffToOperations(codeFile.code, restored.code);
+          if (operations.length > 0) {
+            const updatedFile = await this.codeService.applyOperations(fileId, operations, user.nickname);
+            this.logOperations(fileId, { revision: updatedFile.revision, operations });
+            this.replayService.recordEdit(fileId, user, updatedFile.revision, operations);
+            this.server.to(roomId).emit('code_ops_applied', {
+              fileId,
+              operations,
+              revision: updatedFile.revision,
+              userId: client.id,
+              userNickname: user.nickname,
+              allCursors: this.getRoomCursors(roomId, fileId),
+            });
+            await this.commentService.remapThreads(fileId, operations);
+          }
+        }
+
+        if (restored.language !== codeFile.language) {
+          await this.codeService.setLanguage(fileId, restored.language);
+          this.replayService.recordLanguage(fileId, user, restored.language);
+          this.server.to(roomId).emit('language_changed', {
+            fileId,
+            language: restored.language,
+            userId: client.id,
+            userNickname: user.nickname,
+          });
+        }
+
+        this.server.to(roomId).emit('revision_restored', {
+          fileId,
+          revision,
+          userId: client.id,
+          userNickname: user.nickname,
+        });
+      } catch (error) {
+        console.error('Failed to restore revision:', error);
+        client.emit('error', { message: 'Failed to restore revision' });
+      }
+    });
+  }
+
+  @SubscribeMessage('language_change')
+  async handleLanguageChange(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId?: string; language: string },
+  ) {
+    const { roomId, language } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        const codeFile = await this.resolveFile(roomId, data.fileId);
+        if (codeFile) {
+          await this.codeService.setLanguage(codeFile.id, language);
+          this.replayService.recordLanguage(codeFile.id, user, language);
+
+          this.server.to(roomId).emit('language_changed', {
+            fileId: codeFile.id,
+            language,
+            userId: client.id,
+            userNickname: user.nickname,
+          });
+        }
+      } catch (error) {
+        client.emit('error', { message: 'Failed to change language' });
+      }
+    });
+  }
+
+
+  @SubscribeMessage('open_file')
+  async handleOpenFile(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId: string },
+  ) {
+    const { roomId } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    // В очереди комнаты, чтобы снимок файла не разошелся с уже отправленными правками
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        const codeFile = await this.resolveFile(roomId, data.fileId);
+        if (!codeFile) {
+          client.emit('error', { message: 'File not found' });
+          return;
+        }
+
+        user.fileId = codeFile.id;
+        user.cursorPosition = undefined;
+        user.selectionAnchor = undefined;
+        user.viewportTopLine = 0;
+
+        client.emit('file_opened', {
+          ...this.buildJoinPayload(user, codeFile),
+          allCursors: this.getRoomCursors(roomId, codeFile.id),
+        });
+        await this.sendCommentThreads(client, roomId, codeFile.id);
+        client.to(this.presenceAudience(user)).emit('user_file_changed', { userId: client.id, fileId: codeFile.id });
+      } catch (error) {
+        console.error('Failed to open file:', error);
+        client.emit('error', { message: 'Failed to open file' });
+      }
+    });
+  }
+
+  @SubscribeMessage('file_create')
+  async handleFileCreate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; path: string; entryType?: FileEntryType },
+  ) {
+    const { roomId } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    const path = normalizePath(data.path);
+    const entryType = data.entryType || 'file';
+    if (!path || !FILE_ENTRY_TYPES.includes(entryType)) {
+      client.emit('error', { message: 'Invalid file path' });
+      return;
+    }
+
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        const room = await this.codeService.getCodeFile(roomId);
+        const entries = await this.codeService.getRoomFiles(roomId);
+        if (!room) {
+          client.emit('error', { message: 'Room not found' });
+          return;
+        }
+
+        if (entries.length + 1 + missingParentFolders(entries, path).length > MAX_ROOM_ENTRIES) {
+          client.emit('error', { message: 'Too many files in room' });
+          return;
+        }
+
+        if (hasPathConflict(entries, path, entryType)) {
+          client.emit('error', { message: 'Path already exists' });
+          return;
+        }
+
+        const entry = await this.codeService.createRoomEntry(room, path, entryType);
+        await this.emitFileTree(roomId, { action: 'created', fileId: entry.id, userId: client.id });
+      } catch (error) {
+        console.error('Failed to create file:', error);
+        client.emit('error', { message: 'Failed to create file' });
+      }
+    });
+  }
+
+  // Переименование и перемещение - одна операция: смена пути записи
+  @SubscribeMessage('file_move')
+  async handleFileMove(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId: string; path: string },
+  ) {
+    const { roomId } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    const path = normalizePath(data.path);
+    if (!path) {
+      client.emit('error', { message: 'Invalid file path' });
+      return;
+    }
+
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        const room = await this.codeService.getCodeFile(roomId);
+        const entry = await this.codeService.getRoomFile(roomId, data.fileId);
+        if (!room || !entry) {
+          client.emit('error', { message: 'File not found' });
+          return;
+        }
+
+        if (entry.path === path) return;
+
+        if (entry.entryType === 'folder' && isInsideFolder(path, entry.path)) {
+          client.emit('error', { message: 'Cannot move a folder into itself' });
+          return;
+        }
+
+        const entries = await this.codeService.getRoomFiles(roomId);
+        const movedIds = new Set(entries
+          .filter(file => file.id === entry.id ||
+            (entry.entryType === 'folder' && isInsideFolder(file.path, entry.path)))
+          .map(file => file.id));
+
+        if (hasPathConflict(entries, path, entry.entryType, movedIds)) {
+          client.emit('error', { message: 'Path already exists' });
+          return;
+        }
+
+        if (entries.length + missingParentFolders(entries, path).length > MAX_ROOM_ENTRIES) {
+          client.emit('error', { message: 'Too many files in room' });
+          return;
+        }
+
+        await this.codeService.moveRoomEntry(room, entry, path);
+        await this.emitFileTree(roomId, { action: 'moved', fileId: entry.id, userId: client.id });
+      } catch (error) {
+        console.error('Failed to move file:', error);
+        client.emit('error', { message: 'Failed to move file' });
+      }
+    });
+  }
+
+  @SubscribeMessage('file_delete')
+  async handleFileDelete(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; fileId: string },
+  ) {
+    const { roomId } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!this.canEdit(client, user)) return;
+
+    // Корневой файл хранит настройки и срок жизни комнаты
+    if (data.fileId === roomId) {
+      client.emit('error', { message: 'Cannot delete the main file' });
+      return;
+    }
+
+    await this.enqueueRoomTask(roomId, async () => {
+      try {
+        const entry = await this.codeService.getRoomFile(roomId, data.fileId);
+        if (!entry) {
+          client.emit('error', { message: 'File not found' });
+          return;
+        }
+
+        const deletedIds = await this.codeService.deleteRoomEntry(roomId, entry);
+        this.forgetFiles(deletedIds);
+        this.replayService.discardEvents(deletedIds);
+
+        await this.emitFileTree(roomId, { action: 'deleted', fileId: entry.id, userId: client.id });
+      } catch (error) {
+        console.error('Failed to delete file:', error);
+        client.emit('error', { message: 'Failed to delete file' });
+      }
+    });
+  }
+
+  @SubscribeMessage('cursor_update')
+  handleCursorUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; position: number; anchor?: number },
+  ) {
+    const { roomId, position, anchor } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    // Валидация позиции курсора и второго конца выделения
+    const isValidPosition = (value: unknown) => typeof value === 'number' && value >= 0 && value <= MAX_CODE_LENGTH;
+    if (!isValidPosition(position) || (anchor !== undefined && !isValidPosition(anchor))) {
+      client.emit('error', { message: 'Invalid cursor position' });
+      return;
+    }
+
+    // Обновляем позицию курсора пользователя на сервере. Пустое выделение не храним
+    user.cursorPosition = position;
+    user.selectionAnchor = anchor !== position ? anchor : undefined;
+    this.replayService.recordCursor(user.fileId || roomId, user, position);
+
+    // Отправляем обновление позиции курсора всем остальным пользователям в комнате
+    client.to(this.presenceAudience(user)).emit('cursor_updated', {
+      fileId: user.fileId,
+      userId: client.id,
+      position,
+      anchor: user.selectionAnchor,
+      userNickname: user.nickname,
+    });
+  }
+
+  /**
+   * Прокрутка редактора участника. Нужна тем, кто следует за ним
+   */
+  @SubscribeMessage('viewport_update')
+  handleViewportUpdate(@ConnectedSocket() client: Socket, @MessageBody() data: { roomId: string; topLine: number }) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    if (!Number.isInteger(data.topLine) || data.topLine < 0 || data.topLine > MAX_CODE_LENGTH) {
+      client.emit('error', { message: 'Invalid viewport' });
+      return;
+    }
+
+    user.viewportTopLine = data.topLine;
+    client.to(this.presenceAudience(user)).emit('viewport_updated', {
+      fileId: user.fileId,
+      userId: client.id,
+      topLine: data.topLine,
+    });
+  }
+
+  /**
+   * Указание на фрагмент открытого файла. Пинг не сохраняется: клиенты подсвечивают
+   * фрагмент несколько секунд. Отправитель тоже получает пинг, чтобы видеть то же, что и все
+   */
+  @SubscribeMessage('code_ping')
+  handleCodePing(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; startPosition: number; endPosition: number },
+  ) {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+
+    const { startPosition, endPosition } = data;
+    if (!Number.isInteger(startPosition) || !Number.isInteger(endPosition) ||
+        startPosition < 0 || endPosition < startPosition || endPosition > MAX_CODE_LENGTH) {
+      client.emit('error', { message: 'Invalid ping' });
+      return;
+    }
+
+    const now = Date.now();
+    if (!user.fileId || now - (this.lastPingAt.get(client.id) || 0) < PING_INTERVAL_MS) return;
+    this.lastPingAt.set(client.id, now);
+
+    this.server.to(this.presenceAudience(user)).emit('code_pinged', {
+      id: uuidv4(),
+      fileId: user.fileId,
+      userId: client.id,
+      nickname: user.nickname || 'Anonymous',
+      startPosition,
+      endPosition,
+    });
+  }
+
+  /**
+   * Заметки и оценки интервьюеров. Сохраняются последней правкой и рассылаются
+   * остальным интервьюерам, кандидаты их не получают
+   */
+  @SubscribeMessage('interview_notes_update')
+  async handleInterviewNotesUpdate(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; notes?: string; scorecard?: Scorecard },
+  ) {
+    const { roomId } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (user.interviewRole !== 'interviewer') {
+      client.emit('error', { message: 'Only interviewers can do this' });
+      return;
+    }
+
+    if (data.notes !== undefined && (typeof data.notes !== 'string' || data.notes.length > MAX_NOTES_LENGTH)) {
+      client.emit('error', { message: 'Invalid notes' });
+      return;
+    }
+    const scorecard = data.scorecard !== undefined ? parseScorecard(data.scorecard) : undefined;
+    if (scorecard === null) {
+      client.emit('error', { message: 'Invalid scorecard' });
+      return;
+    }
+
+    try {
+      const snapshot = await this.interviewService.saveNotes(roomId, { notes: data.notes, scorecard }, user.nickname);
+      client.to(interviewersChannel(roomId)).emit('interview_notes_updated', snapshot);
+    } catch (error) {
+      console.error('Error saving interview notes:', error);
+      client.emit('error', { message: 'Failed to save interview notes' });
+    }
+  }
+
+  /**
+   * События кандидата (вставка текста, уход со вкладки) для интервьюеров
+   */
+  @SubscribeMessage('candidate_event')
+  handleCandidateEvent(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; type: CandidateEventType; length?: number },
+  ) {
+    const { roomId, type } = data;
+    const user = this.connectedUsers.get(client.id);
+
+    if (!user || user.roomId !== roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return;
+    }
+    if (user.interviewRole !== 'candidate' || !CANDIDATE_EVENT_TYPES.includes(type)) {
+      return;
+    }
+
+    const event = {
+      type,
+      userId: user.id,
+      nickname: user.nickname,
+      length: type === 'paste' && Number.isInteger(data.length) && data.length! >= 0 ? data.length : undefined,
+      timestamp: Date.now(),
+    };
+    this.interviewService.recordCandidateEvent(roomId, event);
+    this.server.to(interviewersChannel(roomId)).emit('candidate_event', event);
+  }
+
+  private emitResync(client: Socket, codeFile: CodeFile) {
+    const user = this.connectedUsers.get(client.id);
+    if (user) {
+      client.emit('code_resync', this.resyncPayload(user, codeFile));
+    }
+  }
+
+  private resyncPayload(user: ConnectedUser, codeFile: CodeFile) {
+    return {
+      fileId: codeFile.id,
+      code: codeFile.code,
+      language: codeFile.language,
+      revision: codeFile.revision,
+      ...this.crdtStatePayload(user, codeFile),
+    };
+  }
+
+  /**
+   * CRDT документ файла для пользователя. Каждый отправленный документ получает новый номер,
+   * клиент указывает его в своих операциях: пакеты по замененному документу отбрасываются,
+   * а подтверждения приходят с тем номером, к которому относятся
+   */
+  private crdtStatePayload(user: ConnectedUser, codeFile: CodeFile) {
+    if (codeFile.syncEngine !== 'crdt') {
+      return {};
+    }
+    user.crdtEpoch = (user.crdtEpoch || 0) + 1;
+    return { crdtState: this.getCrdtDocument(codeFile).toState(), crdtEpoch: user.crdtEpoch };
+  }
+
+  /**
+   * Пересборка CRDT документа из видимого текста: надгробия удаленных символов не хранятся
+   * бесконечно. Идентификаторы символов при этом меняются, поэтому все, у кого открыт файл,
+   * получают документ заново
+   */
+  private async compactCrdtDocument(roomId: string, fileId: string) {
+    const document = this.crdtDocuments.get(fileId);
+    if (!document) return;
+
+    this.cancelCrdtStateSave(fileId);
+    const codeFile = await this.codeService.compactCrdtState(fileId, document);
+    this.crdtDocuments.delete(fileId);
+    if (!codeFile) return;
+
+    this.roomUsers.get(roomId)?.forEach(userId => {
+      const user = this.connectedUsers.get(userId);
+      if (user && user.fileId === fileId) {
+        this.server.to(userId).emit('code_resync', this.resyncPayload(user, codeFile));
+      }
+    });
+  }
+
+  /**
+   * Документ комнаты, к которому относится событие. Без fileId - корневой файл комнаты.
+   */
+  private async resolveFile(roomId: string, fileId?: string): Promise<CodeFile | null> {
+    const codeFile = await this.codeService.getRoomFile(roomId, typeof fileId === 'string' ? fileId : roomId);
+    return codeFile && codeFile.entryType === 'file' ? codeFile : null;
+  }
+
+  private serializeEntry(file: CodeFile) {
+    return {
+      id: file.id,
+      path: file.path,
+      entryType: file.entryType,
+      language: file.language,
+    };
+  }
+
+  private async emitFileTree(roomId: string, change: { action: string; fileId: string; userId: string }) {
+    const files = await this.codeService.getRoomFiles(roomId);
+    this.server.to(roomId).emit('file_tree_updated', {
+      ...change,
+      files: files.map(file => this.serializeEntry(file)),
+    });
+  }
+
+  /**
+   * Полная замена текста файла. Ее нельзя трансформировать: журнал операций и загруженный
+   * CRDT документ файла сбрасываются, старые правки клиентам придется синхронизировать заново
+   */
+  private async replaceCode(fileId: string, code: string, authorNickname?: string): Promise<CodeFile | null> {
+    // Новый документ продолжает часы сохраненного, поэтому сохраненное состояние должно быть последним
+    await this.flushCrdtState(fileId);
+    const codeFile = await this.codeService.replaceCode(fileId, code, authorNickname);
+    this.forgetFiles([fileId]);
+    return codeFile;
+  }
+
+  /**
+   * Данные участника для списка пользователей. Кандидат не видит, какой файл открыт у интервьюера
+   */
+  private serializeUser(user: ConnectedUser, viewer?: ConnectedUser) {
+    const isHidden = viewer?.interviewRole === 'candidate' && user.interviewRole === 'interviewer' && !this.isPresenter(user);
+    return {
+      id: user.id,
+      nickname: user.nickname,
+      fileId: isHidden ? undefined : user.fileId,
+      viewportTopLine: isHidden ? undefined : user.viewportTopLine,
+      isOwner: user.isOwner,
+      role: user.role,
+      interviewRole: user.interviewRole,
+    };
+  }
+
+  /**
+   * Рассылка списка участников: каждый получает его в своем представлении
+   */
+  private emitUsers(roomId: string, event: string, payload: Record<string, unknown> = {}) {
+    const users = Array.from(this.roomUsers.get(roomId) || [])
+      .map(userId => this.connectedUsers.get(userId))
+      .filter((user): user is ConnectedUser => Boolean(user));
+
+    users.forEach(viewer => {
+      this.server.to(viewer.id).emit(event, {
+        ...payload,
+        users: users.map(user => this.serializeUser(user, viewer)),
+      });
+    });
+  }
+
+  // Курсор и открытый файл интервьюера видят только другие интервьюеры, если он не ведет показ
+  private presenceAudience(user: ConnectedUser): string {
+    return user.interviewRole === 'interviewer' && !this.isPresenter(user)
+      ? interviewersChannel(user.roomId)
+      : user.roomId;
+  }
+
+  private isPresenter(user: ConnectedUser): boolean {
+    return this.presenters.get(user.roomId) === user.id;
+  }
+
+  /**
+   * Занимает комнату под запуск и загружает ее файлы и основной файл. Проверяет, что в комнате
+   * ничего не выполняется и язык файла поддерживается; при ошибке освобождает комнату,
+   * сообщает клиенту и возвращает null. Освободить комнату после запуска должен вызывающий
+   */
+  private async reserveRun(
+    client: Socket,
+    roomId: string,
+    fileId: string,
+  ): Promise<{ runId: string; files: CodeFile[]; entry: CodeFile } | null> {
+    if (this.activeRuns.has(roomId)) {
+      client.emit('error', { message: 'Code is already running' });
+      return null;
+    }
+    // Комната занимается до первого await, иначе параллельный запрос успеет пройти проверку
+    const runId = uuidv4();
+    this.activeRuns.set(roomId, { runId, stop: () => undefined });
+    const fail = (message: string) => {
+      this.activeRuns.delete(roomId);
+      client.emit('error', { message });
+      return null;
+    };
+
+    // Через очередь комнаты: запуск увидит все правки, отправленные до него
+    let files: CodeFile[] = [];
+    try {
+      await this.enqueueRoomTask(roomId, async () => {
+        files = await this.codeService.getRoomFiles(roomId, true);
+      });
+    } catch (error) {
+      console.error('Error loading files to run:', error);
+      return fail('Failed to run code');
+    }
+
+    const entry = files.find(file => file.id === fileId && file.entryType === 'file');
+    if (!entry) {
+      return fail('File not found');
+    }
+    if (!this.codeRunnerService.isRunnable(entry.language)) {
+      return fail(`Running ${entry.language} is not supported`);
+    }
+    return { runId, files: files.filter(file => file.entryType === 'file'), entry };
+  }
+
+  private getRoomOwnerIds(roomId: string): string[] {
+    return Array.from(this.roomUsers.get(roomId) || [])
+      .filter(userId => this.connectedUsers.get(userId)?.isOwner);
+  }
+
+  /**
+   * Список тестов комнаты: владельцу целиком, остальным без содержимого скрытых тестов
+   */
+  private async emitTestCases(roomId: string, client?: Socket) {
+    const testCases = await this.testCaseService.getTestCases(roomId);
+    const toViews = (canSeeHidden: boolean) => testCases.map(testCase => this.testCaseService.toView(testCase, canSeeHidden));
+
+    if (client) {
+      const user = this.connectedUsers.get(client.id);
+      client.emit('test_cases', { roomId, testCases: toViews(Boolean(user?.isOwner)) });
+      return;
+    }
+
+    const ownerIds = this.getRoomOwnerIds(roomId);
+    this.server.to(roomId).except(ownerIds).emit('test_cases', { roomId, testCases: toViews(false) });
+    if (ownerIds.length > 0) {
+      this.server.to(ownerIds).emit('test_cases', { roomId, testCases: toViews(true) });
+    }
+  }
+
+  /**
+   * Ветки комментариев открытого файла. Отправляются в очереди комнаты сразу после текста файла,
+   * чтобы их границы относились к тому же тексту
+   */
+  private async sendCommentThreads(client: Socket, roomId: string, fileId: string) {
+    try {
+      client.emit('comment_threads', { roomId, fileId, threads: await this.commentService.getThreads(fileId) });
+    } catch (error) {
+      console.error('Error loading comment threads:', error);
+    }
+  }
+
+  private isSendingTooFast(client: Socket): boolean {
+    const now = Date.now();
+    if (now - (this.lastMessageAt.get(client.id) || 0) < MESSAGE_INTERVAL_MS) {
+      client.emit('error', { message: 'You are sending messages too fast' });
+      return true;
+    }
+    this.lastMessageAt.set(client.id, now);
+    return false;
+  }
+
+  private async sendInterviewNotes(client: Socket, roomId: string) {
+    try {
+      const snapshot = await this.interviewService.getNotes(roomId);
+      client.emit('interview_notes', { ...snapshot, events: this.interviewService.getCandidateEvents(roomId) });
+    } catch (error) {
+      console.error('Error loading interview notes:', error);
+    }
+  }
+
+  // Выгонять, банить участников и закрывать комнату может только владелец
+  private canModerate(client: Socket, user: ConnectedUser): boolean {
+    if (!user.isOwner) {
+      client.emit('error', { message: 'Only the room owner can do this' });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Участник, к которому владелец применяет модерацию. Других владельцев (например,
+   * вкладки самого владельца) выгнать нельзя.
+   */
+  private getModerationTarget(client: Socket, data: { roomId: string; userId: string }): ConnectedUser | null {
+    const user = this.connectedUsers.get(client.id);
+    if (!user || user.roomId !== data.roomId) {
+      client.emit('error', { message: 'Not in room' });
+      return null;
+    }
+    if (!this.canModerate(client, user)) return null;
+
+    const target = this.connectedUsers.get(data.userId);
+    if (!target || target.roomId !== data.roomId || target.isOwner) {
+      client.emit('error', { message: 'User not found' });
+      return null;
+    }
+    return target;
+  }
+
+  /**
+   * Принудительный выход участника: он получает причину, отписывается от комнаты
+   * и больше не может отправлять в нее правки без повторного входа
+   */
+  private removeFromRoom(user: ConnectedUser, reason: 'kicked' | 'banned') {
+    this.server.to(user.id).emit('removed_from_room', { roomId: user.roomId, reason });
+    this.server.in(user.id).socketsLeave([user.roomId, interviewersChannel(user.roomId)]);
+    this.detachUser(user.roomId, user.id);
+    this.connectedUsers.delete(user.id);
+  }
+
+  // Наблюдатели не могут менять файлы комнаты
+  private canEdit(client: Socket, user: ConnectedUser): boolean {
+    if (user.role === 'viewer') {
+      client.emit('error', { message: 'Read-only access' });
+      return false;
+    }
+    return true;
+  }
+
+  // Состояние синхронизации удаленных файлов или файлов опустевшей комнаты
+  private forgetFiles(fileIds: string[]) {
+    fileIds.forEach(fileId => {
+      this.operationLogs.delete(fileId);
+      this.crdtDocuments.delete(fileId);
+      this.cancelCrdtStateSave(fileId);
+    });
+  }
+
+  private getCrdtDocument(codeFile: CodeFile): CrdtDocument {
+    let document = this.crdtDocuments.get(codeFile.id);
+    if (!document) {
+      const saved = codeFile.crdtState
+        ? CrdtDocument.fromState(JSON.parse(codeFile.crdtState), SERVER_CLIENT_ID)
+        : null;
+      // Состояние сохраняется с задержкой и после перезапуска сервера может отставать
+      // от текста файла - тогда документ строится из текста заново
+      document = saved && saved.getText() === codeFile.code
+        ? saved
+        : CrdtDocument.fromText(codeFile.code, SERVER_CLIENT_ID, saved?.lastClock);
+      this.crdtDocuments.set(codeFile.id, document);
+    }
+    return document;
+  }
+
+  // Состояние сохраняется в очереди комнаты, чтобы не записать документ посреди чужой правки
+  private scheduleCrdtStateSave(roomId: string, fileId: string) {
+    if (this.crdtStateSaveTimers.has(fileId)) return;
+
+    this.crdtStateSaveTimers.set(fileId, setTimeout(() => {
+      this.enqueueRoomTask(roomId, () => this.flushCrdtState(fileId)).catch(error => {
+        console.error('Failed to save CRDT state:', error);
+      });
+    }, CRDT_STATE_SAVE_DELAY_MS));
+  }
+
+  private cancelCrdtStateSave(fileId: string): boolean {
+    const timer = this.crdtStateSaveTimers.get(fileId);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    this.crdtStateSaveTimers.delete(fileId);
+    return true;
+  }
+
+  // Несохраненное состояние документа записывается сразу
+  private async flushCrdtState(fileId: string) {
+    const document = this.crdtDocuments.get(fileId);
+    if (this.cancelCrdtStateSave(fileId) && document) {
+      await this.codeService.saveCrdtState(fileId, document);
+    }
+  }
+
+  // Позиции курсоров всех пользователей в комнате
+  private getRoomCursors(roomId: string, fileId: string) {
+    const roomUsersSet = this.roomUsers.get(roomId);
+    return roomUsersSet ? Array.from(roomUsersSet)
+      .map(userId => {
+        const u = this.connectedUsers.get(userId);
+        return u && u.cursorPosition !== undefined && u.fileId === fileId ? {
+          userId: u.id,
+          position: u.cursorPosition,
+          anchor: u.selectionAnchor,
+          nickname: u.nickname
+        } : null;
+      })
+      .filter(Boolean) : [];
+  }
+
+  private logOperations(roomId: string, entry: LoggedOperations) {
+    const log = this.operationLogs.get(roomId) || [];
+    log.push(entry);
+    if (log.length > MAX_OPERATION_LOG_LENGTH) {
+      log.shift();
+    }
+    this.operationLogs.set(roomId, log);
+  }
+
+  /**
+   * Операции, примененные после fromRevision (не включая её) до toRevision включительно.
+   * Возвращает null, если журнал не покрывает этот диапазон целиком.
+   */
+  private getOperationsSince(roomId: string, fromRevision: number, toRevision: number): TextOperation[] | null {
+    const entries = this.getLogEntriesSince(roomId, fromRevision, toRevision);
+    return entries ? entries.flatMap(entry => entry.operations) : null;
+  }
+
+  private getLogEntriesSince(roomId: string, fromRevision: number, toRevision: number): LoggedOperations[] | null {
+    const log = this.operationLogs.get(roomId) || [];
+    const entries = log.filter(entry => entry.revision > fromRevision && entry.revision <= toRevision);
+
+    if (entries.length !== toRevision - fromRevision) {
+      return null;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Ответ на join_room. Если клиент переподключается и журнал покрывает пропущенные
+   * ревизии, вместо полного документа отправляются только недостающие операции.
+   */
+  private buildJoinPayload(user: ConnectedUser, codeFile: CodeFile, resync?: ResyncState) {
+    const payload = {
+      roomId: codeFile.roomId || codeFile.id,
+      fileId: codeFile.id,
+      path: codeFile.path,
+      language: codeFile.language,
+      revision: codeFile.revision,
+      syncEngine: codeFile.syncEngine,
+      hash: hashText(codeFile.code),
+    };
+
+    if (codeFile.syncEngine === 'ot' && resync && Number.isInteger(resync.revision) &&
+        resync.revision <= codeFile.revision) {
+      const missingOperations = this.getLogEntriesSince(codeFile.id, resync.revision, codeFile.revision);
+      const isUpToDate = resync.revision === codeFile.revision && resync.hash === payload.hash;
+
+      if (isUpToDate || (missingOperations && missingOperations.length > 0)) {
+        return { ...payload, missingOperations: missingOperations || [] };
+      }
+    }
+
+    return {
+      ...payload,
+      code: codeFile.code,
+      ...this.crdtStatePayload(user, codeFile),
+    };
+  }
+
+  private cancelRoomCleanup(roomId: string) {
+    const timer = this.roomCleanupTimers.get(roomId);
+    if (timer) {
+      clearTimeout(timer);
+      this.roomCleanupTimers.delete(roomId);
+    }
+  }
+
+  // Состояние опустевшей комнаты удаляется не сразу - участники могут переподключиться
+  private scheduleRoomCleanup(roomId: string) {
+    this.cancelRoomCleanup(roomId);
+    this.roomCleanupTimers.set(roomId, setTimeout(async () => {
+      this.roomCleanupTimers.delete(roomId);
+      if (this.roomUsers.has(roomId)) return;
+
+      try {
+        const files = await this.codeService.getRoomFiles(roomId);
+        const fileIds = [roomId, ...files.map(file => file.id)];
+        await Promise.all(fileIds.map(fileId => this.flushCrdtState(fileId)));
+        this.forgetFiles(fileIds);
+        this.interviewService.forgetRoom(roomId);
+      } catch (error) {
+        console.error('Failed to clean up room state:', error);
+      }
+    }, OPERATION_LOG_RETENTION_MS));
+  }
+
+  private enqueueRoomTask(roomId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.roomQueues.get(roomId) || Promise.resolve();
+    const next = previous.then(task, task);
+    const tail = next.catch(() => undefined);
+    this.roomQueues.set(roomId, tail);
+
+    // Удаляем очередь, если за время выполнения в неё ничего не добавили
+    tail.then(() => {
+      if (this.roomQueues.get(roomId) === tail) {
+        this.roomQueues.delete(roomId);
+      }
+    });
+
+    return next;
+  }
+
+  private leaveRoom(client: Socket, roomId: string) {
+    client.leave(roomId);
+    client.leave(interviewersChannel(roomId));
+    this.detachUser(roomId, client.id);
+  }
+
+  /**
+   * Участник больше не в комнате, сам ушел или был удален владельцем: показ с ним
+   * как ведущим заканчивается, а опустевшая комната ставится на выгрузку из памяти
+   */
+  private detachUser(roomId: string, userId: string) {
+    if (this.presenters.get(roomId) === userId) {
+      this.presenters.delete(roomId);
+      this.server.to(roomId).emit('presenter_changed', { roomId, presenterId: null });
+    }
+
+    const roomUsersSet = this.roomUsers.get(roomId);
+    if (!roomUsersSet) return;
+
+    roomUsersSet.delete(userId);
+    const user = this.connectedUsers.get(userId);
+    if (user) {
+      this.emitUsers(roomId, 'user_left', { user: { id: user.id, nickname: user.nickname } });
+    }
+
+    if (roomUsersSet.size === 0) {
+      this.roomUsers.delete(roomId);
+      this.scheduleRoomCleanup(roomId);
     }
   }
 }
@@ -17,7 +17,7 @@ async function bootstrap() {
               ['http://localhost:3001', 'http://127.0.0.1:3001']),
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Room-Password'],
     },
   });
 
@@ -42,5 +42,12 @@ async function bootstrap() {
   console.log(`   GET  /health - Detailed health`);
   console.log(`   POST /api/code - Create room`);
   console.log(`   GET  /api/code/:id - Get room`);
+  console.log(`   DELETE /api/code/:id - Delete room (owner only)`);
+  console.log(`   PUT  /api/code/:id/expiry - Change room expiry (owner only)`);
+  console.log(`   PUT  /api/code/:id/access - Change default role (owner only)`);
+  console.log(`   GET|POST|DELETE /api/code/:id/share-links - Manage invite links (owner only)`);
+  console.log(`   POST /api/code/:id/fork - Copy room into a new room`);
+  console.log(`   GET  /api/code/:id/export - Download room as zip`);
+  console.log(`   POST /api/code/import - Create room from zip or source file`);
 }
 bootstrap();
@@ -1,10 +1,42 @@
-import { Table, Column, Model, DataType, PrimaryKey } from 'sequelize-typescript';
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
 import { v4 as uuidv4 } from 'uuid';
 
+export const SYNC_ENGINES = ['ot', 'crdt'] as const;
+export type SyncEngine = typeof SYNC_ENGINES[number];
+
+export const FILE_ENTRY_TYPES = ['file', 'folder'] as const;
+export type FileEntryType = typeof FILE_ENTRY_TYPES[number];
+
+export const DEFAULT_FILE_PATH = 'index.ts';
+
+// Роли участников: редактор может менять файлы, наблюдатель только смотрит
+export const ROOM_ROLES = ['editor', 'viewer'] as const;
+export type RoomRole = typeof ROOM_ROLES[number];
+
+// Режим комнаты: обычное совместное редактирование или собеседование
+export const ROOM_MODES = ['collaborative', 'interview'] as const;
+export type RoomMode = typeof ROOM_MODES[number];
+
+// Роли на собеседовании: интервьюеры видят приватные заметки и события кандидата
+export const INTERVIEW_ROLES = ['interviewer', 'candidate'] as const;
+export type InterviewRole = typeof INTERVIEW_ROLES[number];
+
 interface CodeFileAttributes {
   id: string;
   code: string;
   language: string;
+  revision: number;
+  syncEngine: SyncEngine;
+  crdtState: string | null;
+  roomId: string | null;
+  path: string;
+  entryType: FileEntryType;
+  ownerTokenHash: string | null;
+  passwordHash: string | null;
+  defaultRole: RoomRole;
+  isLocked: boolean;
+  mode: RoomMode;
+  problemStatement: string | null;
   createdAt: Date;
   expiresAt: Date;
 }
@@ -13,6 +45,18 @@ interface CodeFileCreationAttributes {
   id?: string;
   code?: string;
   language?: string;
+  revision?: number;
+  syncEngine?: SyncEngine;
+  crdtState?: string | null;
+  roomId?: string | null;
+  path?: string;
+  entryType?: FileEntryType;
+  ownerTokenHash?: string | null;
+  passwordHash?: string | null;
+  defaultRole?: RoomRole;
+  isLocked?: boolean;
+  mode?: RoomMode;
+  problemStatement?: string | null;
   createdAt?: Date;
   expiresAt?: Date;
 }
@@ -41,6 +85,101 @@ export class CodeFile extends Model<CodeFileAttributes, CodeFileCreationAttribut
   })
   language: string;
 
+  // Номер ревизии документа, увеличивается при каждом применённом изменении
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  revision: number;
+
+  // Движок синхронизации комнаты: операционные трансформации или CRDT
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+    defaultValue: 'ot',
+  })
+  syncEngine: SyncEngine;
+
+  // Сериализованное состояние CRDT документа (только для комнат с syncEngine = 'crdt')
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  crdtState: string | null;
+
+  // Комната, к которой относится файл. У корневого файла (его ID и есть ID комнаты) - null
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: true,
+  })
+  roomId: string | null;
+
+  @BelongsTo(() => CodeFile, { foreignKey: 'roomId', onDelete: 'CASCADE' })
+  room: CodeFile;
+
+  // Путь файла внутри комнаты, например src/utils.ts
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+    defaultValue: DEFAULT_FILE_PATH,
+  })
+  path: string;
+
+  // Папки хранятся отдельными записями, чтобы в дереве могли быть пустые папки
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+    defaultValue: 'file',
+  })
+  entryType: FileEntryType;
+
+  // SHA-256 хеш токена владельца (только у корневого файла). Сам токен знает лишь создатель комнаты
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  ownerTokenHash: string | null;
+
+  // scrypt-хеш пароля комнаты (только у корневого файла), null - комната без пароля
+  @Column({
+    type: DataType.STRING(128),
+    allowNull: true,
+  })
+  passwordHash: string | null;
+
+  // Роль тех, кто открыл комнату по обычной ссылке, без приглашения (только у корневого файла)
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+    defaultValue: 'editor',
+  })
+  defaultRole: RoomRole;
+
+  // Закрытая владельцем комната не пускает новых участников (только у корневого файла)
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  isLocked: boolean;
+
+  // Только у корневого файла
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+    defaultValue: 'collaborative',
+  })
+  mode: RoomMode;
+
+  // Условие задачи в Markdown, редактирует владелец (только у корневого файла)
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  problemStatement: string | null;
+
   @Column({
     type: DataType.DATE,
     defaultValue: DataType.NOW,
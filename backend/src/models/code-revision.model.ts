@@ -0,0 +1,97 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { CodeFile } from './code-file.model';
+import { TextOperation } from '../utils/text-operation';
+
+export type CodeRevisionKind = 'snapshot' | 'delta';
+
+interface CodeRevisionAttributes {
+  id: string;
+  codeFileId: string;
+  revision: number;
+  kind: CodeRevisionKind;
+  code: string | null;
+  operations: TextOperation[] | null;
+  language: string;
+  authorNickname: string | null;
+  createdAt: Date;
+}
+
+interface CodeRevisionCreationAttributes {
+  id?: string;
+  codeFileId: string;
+  revision: number;
+  kind: CodeRevisionKind;
+  code?: string | null;
+  operations?: TextOperation[] | null;
+  language: string;
+  authorNickname?: string | null;
+  createdAt?: Date;
+}
+
+@Table({
+  tableName: 'code_revisions',
+  timestamps: false,
+  indexes: [{ fields: ['codeFileId', 'revision'] }],
+})
+export class CodeRevision extends Model<CodeRevisionAttributes, CodeRevisionCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    defaultValue: () => uuidv4(),
+  })
+  id: string;
+
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  codeFileId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  codeFile: CodeFile;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  revision: number;
+
+  // snapshot - полный текст документа, delta - операции относительно предыдущей ревизии
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+  })
+  kind: CodeRevisionKind;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  code: string | null;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  operations: TextOperation[] | null;
+
+  @Column({
+    type: DataType.STRING(32),
+    allowNull: false,
+  })
+  language: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  authorNickname: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
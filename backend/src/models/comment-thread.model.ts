@@ -0,0 +1,96 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo, HasMany } from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { CodeFile } from './code-file.model';
+import { Comment } from './comment.model';
+
+interface CommentThreadAttributes {
+  id: string;
+  roomId: string;
+  fileId: string;
+  startPosition: number;
+  endPosition: number;
+  isResolved: boolean;
+  resolvedBy: string | null;
+  createdAt: Date;
+}
+
+interface CommentThreadCreationAttributes {
+  id?: string;
+  roomId: string;
+  fileId: string;
+  startPosition: number;
+  endPosition: number;
+  isResolved?: boolean;
+  resolvedBy?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Ветка комментариев к диапазону строк файла. Границы диапазона - позиции в тексте,
+ * сервер переносит их при каждой правке файла. Удаляется вместе с файлом
+ */
+@Table({
+  tableName: 'room_comment_threads',
+  timestamps: false,
+  indexes: [{ fields: ['roomId'] }, { fields: ['fileId'] }],
+})
+export class CommentThread extends Model<CommentThreadAttributes, CommentThreadCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    defaultValue: () => uuidv4(),
+  })
+  id: string;
+
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  roomId: string;
+
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  fileId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  file: CodeFile;
+
+  // Начало первой строки диапазона
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  startPosition: number;
+
+  // Конец последней строки диапазона
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  endPosition: number;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  isResolved: boolean;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  resolvedBy: string | null;
+
+  @HasMany(() => Comment)
+  comments: Comment[];
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,64 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { CommentThread } from './comment-thread.model';
+
+interface CommentAttributes {
+  id: string;
+  threadId: string;
+  nickname: string;
+  text: string;
+  createdAt: Date;
+}
+
+interface CommentCreationAttributes {
+  id?: string;
+  threadId: string;
+  nickname: string;
+  text: string;
+  createdAt?: Date;
+}
+
+/**
+ * Комментарий в ветке. Первый комментарий ветки - ее начало, остальные - ответы
+ */
+@Table({
+  tableName: 'room_comments',
+  timestamps: false,
+  indexes: [{ fields: ['threadId', 'createdAt'] }],
+})
+export class Comment extends Model<CommentAttributes, CommentCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    defaultValue: () => uuidv4(),
+  })
+  id: string;
+
+  @ForeignKey(() => CommentThread)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  threadId: string;
+
+  @BelongsTo(() => CommentThread, { onDelete: 'CASCADE' })
+  thread: CommentThread;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  nickname: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+  })
+  text: string;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
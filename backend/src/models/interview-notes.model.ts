@@ -0,0 +1,64 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { CodeFile } from './code-file.model';
+
+interface InterviewNotesAttributes {
+  roomId: string;
+  notes: string;
+  scorecard: string | null;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+interface InterviewNotesCreationAttributes {
+  roomId: string;
+  notes?: string;
+  scorecard?: string | null;
+  updatedBy?: string | null;
+  updatedAt?: Date;
+}
+
+/**
+ * Приватные заметки интервьюеров по комнате-собеседованию. Кандидатам никогда не отправляются
+ */
+@Table({
+  tableName: 'interview_notes',
+  timestamps: false,
+})
+export class InterviewNotes extends Model<InterviewNotesAttributes, InterviewNotesCreationAttributes> {
+  @PrimaryKey
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  roomId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  room: CodeFile;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+    defaultValue: '',
+  })
+  notes: string;
+
+  // Оценки по критериям и итоговая рекомендация в JSON
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  scorecard: string | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: true,
+  })
+  updatedBy: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  updatedAt: Date;
+}
@@ -0,0 +1,72 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { CodeFile } from './code-file.model';
+
+interface RoomBanAttributes {
+  id: string;
+  roomId: string;
+  nickname: string | null;
+  participantId: string | null;
+  ipHash: string | null;
+  createdAt: Date;
+}
+
+interface RoomBanCreationAttributes {
+  id?: string;
+  roomId: string;
+  nickname?: string | null;
+  participantId?: string | null;
+  ipHash?: string | null;
+  createdAt?: Date;
+}
+
+@Table({
+  tableName: 'room_bans',
+  timestamps: false,
+  indexes: [{ fields: ['roomId'] }],
+})
+export class RoomBan extends Model<RoomBanAttributes, RoomBanCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    defaultValue: () => uuidv4(),
+  })
+  id: string;
+
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  roomId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  room: CodeFile;
+
+  // Никнейм в нижнем регистре
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  nickname: string | null;
+
+  // Идентификатор участника из выданного сервером токена (utils/participant-token.ts)
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  participantId: string | null;
+
+  // SHA-256 хеш IP адреса, сам адрес не сохраняется
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  ipHash: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
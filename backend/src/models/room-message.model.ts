@@ -0,0 +1,65 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { CodeFile } from './code-file.model';
+
+interface RoomMessageAttributes {
+  id: string;
+  roomId: string;
+  nickname: string;
+  text: string;
+  createdAt: Date;
+}
+
+interface RoomMessageCreationAttributes {
+  id?: string;
+  roomId: string;
+  nickname: string;
+  text: string;
+  createdAt?: Date;
+}
+
+/**
+ * Сообщение чата комнаты. Удаляется вместе с комнатой
+ */
+@Table({
+  tableName: 'room_messages',
+  timestamps: false,
+  indexes: [{ fields: ['roomId', 'createdAt'] }],
+})
+export class RoomMessage extends Model<RoomMessageAttributes, RoomMessageCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    defaultValue: () => uuidv4(),
+  })
+  id: string;
+
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  roomId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  room: CodeFile;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  nickname: string;
+
+  // Текст в разметке чата: блоки кода в ``` подсвечиваются на клиенте
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+  })
+  text: string;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,109 @@
+import { Table, Column, Model, DataType, PrimaryKey } from 'sequelize-typescript';
+
+interface RoomTemplateAttributes {
+  id: string;
+  name: string;
+  description: string | null;
+  language: string;
+  path: string;
+  code: string;
+  problemStatement: string | null;
+  testsPath: string | null;
+  tests: string | null;
+  ownerTokenHash: string | null;
+  createdAt: Date;
+}
+
+interface RoomTemplateCreationAttributes {
+  id: string;
+  name: string;
+  description?: string | null;
+  language: string;
+  path: string;
+  code: string;
+  problemStatement?: string | null;
+  testsPath?: string | null;
+  tests?: string | null;
+  ownerTokenHash?: string | null;
+  createdAt?: Date;
+}
+
+/**
+ * Шаблон комнаты, сохраненный командой. Встроенные шаблоны в БД не хранятся.
+ * Шаблон не связан с исходной комнатой и переживает ее удаление.
+ */
+@Table({
+  tableName: 'room_templates',
+  timestamps: false,
+})
+export class RoomTemplate extends Model<RoomTemplateAttributes, RoomTemplateCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  id: string;
+
+  @Column({
+    type: DataType.STRING(100),
+    allowNull: false,
+  })
+  name: string;
+
+  @Column({
+    type: DataType.STRING(500),
+    allowNull: true,
+  })
+  description: string | null;
+
+  @Column({
+    type: DataType.STRING,
+    allowNull: false,
+  })
+  language: string;
+
+  // Путь основного файла комнаты
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+  })
+  path: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+  })
+  code: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  problemStatement: string | null;
+
+  // Тесты создаются отдельным файлом комнаты по этому пути
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  testsPath: string | null;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  tests: string | null;
+
+  // Хеш токена владельца исходной комнаты: удалить шаблон может только он
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  ownerTokenHash: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
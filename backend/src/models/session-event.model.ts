@@ -0,0 +1,102 @@
+import { Table, Column, Model, DataType, PrimaryKey, AutoIncrement, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { CodeFile } from './code-file.model';
+import { TextOperation } from '../utils/text-operation';
+
+export type SessionEventType = 'edit' | 'cursor' | 'language';
+
+interface SessionEventAttributes {
+  id: number;
+  codeFileId: string;
+  type: SessionEventType;
+  userId: string;
+  nickname: string | null;
+  revision: number | null;
+  operations: TextOperation[] | null;
+  position: number | null;
+  language: string | null;
+  createdAt: Date;
+}
+
+interface SessionEventCreationAttributes {
+  codeFileId: string;
+  type: SessionEventType;
+  userId: string;
+  nickname?: string | null;
+  revision?: number | null;
+  operations?: TextOperation[] | null;
+  position?: number | null;
+  language?: string | null;
+  createdAt: Date;
+}
+
+@Table({
+  tableName: 'session_events',
+  timestamps: false,
+  indexes: [{ fields: ['codeFileId', 'id'] }],
+})
+export class SessionEvent extends Model<SessionEventAttributes, SessionEventCreationAttributes> {
+  // Последовательный ID задает порядок событий с одинаковым временем
+  @PrimaryKey
+  @AutoIncrement
+  @Column(DataType.INTEGER)
+  id: number;
+
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  codeFileId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  codeFile: CodeFile;
+
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+  })
+  type: SessionEventType;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  userId: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  nickname: string | null;
+
+  // Ревизия документа после правки (только для edit)
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  revision: number | null;
+
+  @Column({
+    type: DataType.JSONB,
+    allowNull: true,
+  })
+  operations: TextOperation[] | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  position: number | null;
+
+  @Column({
+    type: DataType.STRING(32),
+    allowNull: true,
+  })
+  language: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  createdAt: Date;
+}
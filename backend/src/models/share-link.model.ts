@@ -0,0 +1,72 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { CodeFile, InterviewRole, RoomRole } from './code-file.model';
+
+interface ShareLinkAttributes {
+  id: string;
+  roomId: string;
+  role: RoomRole;
+  interviewRole: InterviewRole | null;
+  tokenHash: string;
+  createdAt: Date;
+}
+
+interface ShareLinkCreationAttributes {
+  id?: string;
+  roomId: string;
+  role: RoomRole;
+  interviewRole?: InterviewRole | null;
+  tokenHash: string;
+  createdAt?: Date;
+}
+
+@Table({
+  tableName: 'room_share_links',
+  timestamps: false,
+  indexes: [{ fields: ['roomId'] }, { fields: ['tokenHash'] }],
+})
+export class ShareLink extends Model<ShareLinkAttributes, ShareLinkCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    defaultValue: () => uuidv4(),
+  })
+  id: string;
+
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  roomId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  room: CodeFile;
+
+  // Роль, которую получает открывший ссылку
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: false,
+  })
+  role: RoomRole;
+
+  // Роль на собеседовании. null - открывший ссылку будет кандидатом
+  @Column({
+    type: DataType.STRING(16),
+    allowNull: true,
+  })
+  interviewRole: InterviewRole | null;
+
+  // SHA-256 хеш токена из ссылки, сам токен знает только владелец комнаты
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  tokenHash: string;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,86 @@
+import { Table, Column, Model, DataType, PrimaryKey, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { v4 as uuidv4 } from 'uuid';
+import { CodeFile } from './code-file.model';
+
+interface TestCaseAttributes {
+  id: string;
+  roomId: string;
+  input: string;
+  expectedOutput: string;
+  isHidden: boolean;
+  position: number;
+  createdAt: Date;
+}
+
+interface TestCaseCreationAttributes {
+  id?: string;
+  roomId: string;
+  input: string;
+  expectedOutput: string;
+  isHidden?: boolean;
+  position: number;
+  createdAt?: Date;
+}
+
+/**
+ * Тест задачи комнаты: ввод программы и ожидаемый вывод.
+ * Содержимое скрытых тестов видит только владелец комнаты
+ */
+@Table({
+  tableName: 'room_test_cases',
+  timestamps: false,
+  indexes: [{ fields: ['roomId'] }],
+})
+export class TestCase extends Model<TestCaseAttributes, TestCaseCreationAttributes> {
+  @PrimaryKey
+  @Column({
+    type: DataType.UUID,
+    defaultValue: () => uuidv4(),
+  })
+  id: string;
+
+  @ForeignKey(() => CodeFile)
+  @Column({
+    type: DataType.UUID,
+    allowNull: false,
+  })
+  roomId: string;
+
+  @BelongsTo(() => CodeFile, { onDelete: 'CASCADE' })
+  room: CodeFile;
+
+  // Передается программе на stdin
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+    defaultValue: '',
+  })
+  input: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: false,
+    defaultValue: '',
+  })
+  expectedOutput: string;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  isHidden: boolean;
+
+  // Порядок тестов в списке и при запуске
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+  })
+  position: number;
+
+  @Column({
+    type: DataType.DATE,
+    defaultValue: DataType.NOW,
+  })
+  createdAt: Date;
+}
@@ -0,0 +1,109 @@
+import { tmpdir } from 'os';
+import * as ts from 'typescript';
+import { SandboxOptions, sandboxMain } from './js-sandbox';
+import { LanguageRunner, MAX_OUTPUT_LENGTH, PreparedRun, RunRequest, SourceFile } from './language-runner';
+import { installPrefix, isolateCommand, withResourceLimits } from './os-sandbox';
+
+const RUN_TIMEOUT_MS = 5000;
+const MEMORY_LIMIT_MB = 64;
+// Адресное пространство процесса целиком: память вне кучи V8 (ArrayBuffer, Buffer) предел кучи не ограничивает
+const ADDRESS_SPACE_LIMIT_KB = 256 * 1024;
+// Node использует несколько служебных потоков, они тоже считаются
+const MAX_PROCESSES = 32;
+// Код выхода песочницы, превысившей объем вывода
+const OUTPUT_LIMIT_EXIT_CODE = 3;
+
+const MODULE_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+
+const SANDBOX_OPTIONS: SandboxOptions = {
+  maxOutputLength: MAX_OUTPUT_LENGTH,
+  outputLimitExitCode: OUTPUT_LIMIT_EXIT_CODE,
+};
+
+// Начиная с Node 22 модель разрешений больше не экспериментальная
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission';
+
+/**
+ * JavaScript и TypeScript: файлы переводятся в CommonJS и выполняются в отдельном процессе Node
+ * внутри песочницы ОС (без сети и с файловой системой только для чтения) под лимитами памяти и числа процессов.
+ * Модель разрешений Node, запрет генерации кода из строк и предел кучи лишь дополняют ее.
+ */
+export class JavaScriptRunner implements LanguageRunner {
+  readonly languages = ['javascript', 'typescript'];
+
+  async prepare({ files, entryPath, stdin }: RunRequest): Promise<PreparedRun> {
+    const entry = files.find(file => file.path === entryPath);
+    const diagnostics = entry ? transpile(entry).diagnostics : [];
+    if (diagnostics.length > 0) {
+      return { errors: `${diagnostics.join('\n')}\n` };
+    }
+
+    // Остальные файлы доступны через require, ошибки в них проявятся только при импорте
+    const modules: Record<string, string> = {};
+    files
+      .filter(file => this.languages.includes(file.language) || MODULE_EXTENSIONS.test(file.path))
+      .forEach(file => {
+        modules[file.path] = transpile(file).code;
+      });
+
+    const limited = withResourceLimits(
+      process.execPath,
+      [
+        PERMISSION_FLAG,
+        '--disallow-code-generation-from-strings',
+        // Без JIT V8 не резервирует гигабайты адресного пространства под код и укладывается в ulimit -v
+        '--jitless',
+        '--no-expose-wasm',
+        `--max-old-space-size=${MEMORY_LIMIT_MB}`,
+        '--no-warnings',
+        '-e',
+        `(${sandboxMain.toString()})(${JSON.stringify(SANDBOX_OPTIONS)})`,
+      ],
+      { memoryKb: ADDRESS_SPACE_LIMIT_KB, maxProcesses: MAX_PROCESSES },
+    );
+    const isolated = isolateCommand(limited.command, limited.args, { readonlyPaths: [installPrefix(process.execPath)] });
+
+    return {
+      process: {
+        ...isolated,
+        cwd: tmpdir(),
+        env: {},
+        input: JSON.stringify({ entry: entryPath, modules, stdin }),
+        timeoutMs: RUN_TIMEOUT_MS,
+        // V8 при нехватке памяти аварийно завершает процесс, а упершись в предел адресного пространства
+        // процесс может упасть и с SIGSEGV (bubblewrap передает сигнал кодом 128 + номер сигнала)
+        classifyExit: (exitCode, signal) => (
+          signal === 'SIGABRT' || signal === 'SIGSEGV' || exitCode === 134 || exitCode === 139 ? 'memory_limit'
+            : exitCode === OUTPUT_LIMIT_EXIT_CODE ? 'output_limit'
+            : null
+        ),
+      },
+    };
+  }
+}
+
+/**
+ * Перевод в CommonJS: TypeScript теряет типы, import/export в обоих языках заменяются на require.
+ * Возвращаются только синтаксические ошибки, проверки типов нет.
+ */
+function transpile(file: SourceFile): { code: string; diagnostics: string[] } {
+  const output = ts.transpileModule(file.code, {
+    fileName: file.path,
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      allowJs: true,
+      jsx: ts.JsxEmit.React,
+    },
+  });
+
+  const diagnostics = (output.diagnostics || []).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (!diagnostic.file || diagnostic.start === undefined) return message;
+
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `${file.path}:${line + 1}:${character + 1} - ${message}`;
+  });
+  return { code: output.outputText, diagnostics };
+}
@@ -0,0 +1,107 @@
+export interface SandboxOptions {
+  maxOutputLength: number;
+  outputLimitExitCode: number;
+}
+
+/**
+ * Код дочернего процесса, в котором выполняется JavaScript участников. Функция передается
+ * в `node -e` исходным текстом вместе с параметрами, поэтому не может ссылаться ни на что за своими пределами.
+ *
+ * На stdin приходит JSON { entry, modules, stdin }: модули уже переведены в CommonJS, require
+ * разрешает только относительные пути между файлами комнаты. Ввод участника читается
+ * построчно через readline(), как в консольных движках JavaScript.
+ *
+ * Загрузчик не служит границей безопасности: код участника выполняется в том же контексте,
+ * что и он сам, а изолирован весь процесс средствами ОС (см. os-sandbox.ts).
+ */
+export function sandboxMain({ maxOutputLength, outputLimitExitCode }: SandboxOptions) {
+  const vm = require('vm');
+  const { inspect } = require('util');
+  const path = require('path').posix;
+
+  // Строки стека из самой песочницы и внутренностей Node участникам не интересны
+  const printError = (error: any) => {
+    const text = error && error.stack ? String(error.stack) : String(error);
+    const lines = text.split('\n').filter(line => !/\((\[eval\]|node:)|at (\[eval\]|node:)/.test(line));
+    process.stderr.write(`${lines.join('\n')}\n`);
+  };
+  process.on('uncaughtException', (error) => {
+    printError(error);
+    process.exit(1);
+  });
+  process.on('unhandledRejection', (reason) => {
+    printError(reason);
+    process.exit(1);
+  });
+
+  const chunks: Buffer[] = [];
+  process.stdin.on('data', (chunk: Buffer) => chunks.push(chunk));
+  process.stdin.on('end', () => {
+    const { entry, modules, stdin } = JSON.parse(Buffer.concat(chunks).toString('utf8')) as {
+      entry: string;
+      modules: Record<string, string>;
+      stdin: string;
+    };
+
+    // После последней строки ввода readline() возвращает null
+    const inputLines = stdin ? stdin.replace(/\n$/, '').split('\n') : [];
+    let inputIndex = 0;
+    const readline = () => (inputIndex < inputLines.length ? inputLines[inputIndex++] : null);
+
+    // Вывод ограничивается и здесь: синхронный цикл с console.log не дает родителю вовремя остановить процесс
+    let outputLength = 0;
+    const write = (stream: NodeJS.WriteStream, args: unknown[]) => {
+      const text = `${args.map(arg => (typeof arg === 'string' ? arg : inspect(arg, { depth: 4 }))).join(' ')}\n`;
+      outputLength += text.length;
+      stream.write(text);
+      if (outputLength > maxOutputLength) {
+        process.exit(outputLimitExitCode);
+      }
+    };
+    const toStdout = (...args: unknown[]) => write(process.stdout, args);
+    const toStderr = (...args: unknown[]) => write(process.stderr, args);
+
+    Object.assign(console, { log: toStdout, info: toStdout, debug: toStdout, warn: toStderr, error: toStderr });
+    Object.assign(globalThis, { readline });
+
+    const loaded: Record<string, { exports: unknown }> = {};
+
+    const resolve = (from: string, request: string) => {
+      if (request.startsWith('./') || request.startsWith('../')) {
+        const base = path.normalize(path.join(path.dirname(from), request));
+        const candidates = [base, `${base}.ts`, `${base}.tsx`, `${base}.js`, `${base}.jsx`, `${base}/index.ts`, `${base}/index.js`];
+        const found = candidates.find(candidate => modules[candidate] !== undefined);
+        if (found) return found;
+      }
+      throw new Error(`Cannot find module '${request}' from '${from}'`);
+    };
+
+    const load = (modulePath: string): unknown => {
+      if (loaded[modulePath]) return loaded[modulePath].exports;
+
+      const module = { exports: {} };
+      loaded[modulePath] = module;
+      const wrapper = vm.compileFunction(
+        modules[modulePath],
+        ['exports', 'require', 'module', '__filename', '__dirname'],
+        { filename: modulePath },
+      );
+      wrapper.call(
+        module.exports,
+        module.exports,
+        (request: string) => load(resolve(modulePath, request)),
+        module,
+        modulePath,
+        path.dirname(modulePath),
+      );
+      return module.exports;
+    };
+
+    try {
+      load(entry);
+    } catch (error) {
+      printError(error);
+      process.exitCode = 1;
+    }
+  });
+}
@@ -0,0 +1,62 @@
+export type RunStatus = 'success' | 'error' | 'timeout' | 'memory_limit' | 'output_limit' | 'stopped';
+export type OutputStream = 'stdout' | 'stderr';
+
+// Общий для всех языков предел вывода одного запуска
+export const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+export interface RunResult {
+  status: RunStatus;
+  exitCode: number | null;
+  durationMs: number;
+}
+
+export interface SourceFile {
+  path: string;
+  code: string;
+  language: string;
+}
+
+export interface RunRequest {
+  files: SourceFile[];
+  entryPath: string;
+  stdin: string;
+}
+
+export interface RunHandle {
+  result: Promise<RunResult>;
+  stop: () => void;
+}
+
+/**
+ * Описание дочернего процесса, который запускает сервис выполнения кода.
+ * Ограничения по времени и объему вывода сервис применяет сам, остальные задает раннер.
+ */
+export interface ProcessSpec {
+  command: string;
+  args: string[];
+  cwd: string;
+  // Пользователь и группа процесса, если сервер работает от root
+  uid?: number;
+  gid?: number;
+  // Переменные окружения сервера (строка подключения к БД и т.п.) не передаются, только явно перечисленные
+  env: Record<string, string>;
+  // Передается на stdin целиком, после чего поток закрывается
+  input: string;
+  timeoutMs: number;
+  // Особые статусы по коду выхода или сигналу; null — обычное завершение
+  classifyExit?: (exitCode: number | null, signal: NodeJS.Signals | null) => RunStatus | null;
+  // Вызывается после завершения процесса, например для удаления временных файлов
+  cleanup?: () => Promise<void>;
+}
+
+export type PreparedRun = { process: ProcessSpec } | { errors: string };
+
+/**
+ * Поддержка одного или нескольких языков. Чтобы добавить язык, достаточно реализовать
+ * подготовку процесса и зарегистрировать раннер в CodeRunnerService.
+ */
+export interface LanguageRunner {
+  readonly languages: string[];
+  // Ошибки компиляции возвращаются текстом, процесс в этом случае не запускается
+  prepare(request: RunRequest): Promise<PreparedRun>;
+}
@@ -0,0 +1,94 @@
+import * as path from 'path';
+
+const BWRAP_COMMAND = process.env.BWRAP_PATH || 'bwrap';
+// nobody: под этим пользователем запускается песочница, если сервер работает от root
+const SANDBOX_UID = 65534;
+const SANDBOX_GID = 65534;
+
+// Системные каталоги, без которых не запустятся интерпретаторы. Монтируются только на чтение
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib64', '/etc/alternatives', '/etc/ld.so.cache', '/nix/store'];
+
+export interface IsolatedCommand {
+  command: string;
+  args: string[];
+  uid?: number;
+  gid?: number;
+}
+
+export interface ResourceLimits {
+  // Процессорное время в секундах
+  cpuTimeSeconds?: number;
+  // Адресное пространство каждого процесса
+  memoryKb: number;
+  // Процессы и потоки пользователя песочницы: без этого предела fork в цикле заполнит таблицу процессов
+  maxProcesses: number;
+}
+
+export interface IsolationOptions {
+  // Каталог с файлами комнаты: доступен только на чтение и становится текущим
+  workdir?: string;
+  // Дополнительные каталоги только для чтения, например установка интерпретатора
+  readonlyPaths?: string[];
+}
+
+/**
+ * Запуск команды в песочнице bubblewrap: отдельные пространства имен (без сети, со своими
+ * процессами и IPC), файловая система только для чтения из системных каталогов, пустой /tmp,
+ * без capabilities и от непривилегированного пользователя. Изоляцию обеспечивает ядро,
+ * поэтому она не зависит от того, что делает код участника внутри процесса.
+ * Если bubblewrap не установлен, запуск завершается ошибкой, а не выполняется без изоляции.
+ */
+export function isolateCommand(command: string, args: string[], { workdir, readonlyPaths = [] }: IsolationOptions): IsolatedCommand {
+  const extraPaths = (process.env.SANDBOX_READONLY_PATHS || '').split(':').filter(Boolean);
+  const binds = [...new Set([...SYSTEM_PATHS, ...readonlyPaths, ...extraPaths])]
+    .flatMap(source => ['--ro-bind-try', source, source]);
+
+  const bwrapArgs = [
+    '--unshare-all',
+    '--unshare-user',
+    '--die-with-parent',
+    '--new-session',
+    '--cap-drop', 'ALL',
+    '--uid', String(SANDBOX_UID),
+    '--gid', String(SANDBOX_GID),
+    ...binds,
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--tmpfs', '/tmp',
+    ...(workdir ? ['--ro-bind', workdir, workdir, '--chdir', workdir] : ['--chdir', '/tmp']),
+    '--',
+    command,
+    ...args,
+  ];
+
+  // От root bubblewrap запускается сразу под nobody, чтобы и снаружи пространства имен процесс не был привилегированным
+  const isRoot = process.getuid?.() === 0;
+  return {
+    command: BWRAP_COMMAND,
+    args: bwrapArgs,
+    ...(isRoot ? { uid: SANDBOX_UID, gid: SANDBOX_GID } : {}),
+  };
+}
+
+/**
+ * Запуск через оболочку, которая ставит лимиты перед exec: так они распространяются и на сам
+ * интерпретатор, и на все его дочерние процессы. В dash предел числа процессов задается флагом -p
+ */
+export function withResourceLimits(command: string, args: string[], limits: ResourceLimits): { command: string; args: string[] } {
+  const script = [
+    ...(limits.cpuTimeSeconds ? [`ulimit -t ${limits.cpuTimeSeconds}`] : []),
+    `ulimit -v ${limits.memoryKb}`,
+    `{ ulimit -u ${limits.maxProcesses} 2>/dev/null || ulimit -p ${limits.maxProcesses}; }`,
+    'ulimit -f 0',
+    'exec "$@"',
+  ].join(' && ');
+  return { command: '/bin/sh', args: ['-c', script, 'sandbox', command, ...args] };
+}
+
+/**
+ * Каталог установки исполняемого файла (например, /opt/node для /opt/node/bin/node),
+ * чтобы интерпретатор вне /usr нашел внутри песочницы свои библиотеки
+ */
+export function installPrefix(executable: string): string {
+  return path.dirname(path.dirname(executable));
+}
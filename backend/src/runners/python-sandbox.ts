@@ -0,0 +1,34 @@
+/**
+ * Код запуска Python-программы участников, передается интерпретатору через `-c`.
+ * Аргументы: рабочий каталог с файлами комнаты и путь основного файла относительно него.
+ *
+ * Загрузчик ничего не запрещает: сеть, файлы и процессы ограничивает песочница ОС, в которой
+ * запущен интерпретатор (см. os-sandbox.ts). Строки трассировки из самого загрузчика убираются,
+ * пути к файлам показываются относительно комнаты, а нехватка памяти завершает процесс отдельным кодом выхода.
+ */
+export const PYTHON_MEMORY_LIMIT_EXIT_CODE = 4;
+
+export const PYTHON_SANDBOX = `
+import os, runpy, sys, traceback
+
+workdir = os.path.realpath(sys.argv[1])
+entry = sys.argv[2]
+
+entry_path = os.path.join(workdir, entry)
+sys.path.insert(0, os.path.dirname(entry_path))
+sys.argv = [entry]
+
+try:
+    runpy.run_path(entry_path, run_name='__main__')
+except SystemExit:
+    raise
+except BaseException as error:
+    frames = traceback.extract_tb(error.__traceback__)
+    while frames and not frames[0].filename.startswith(workdir + os.sep):
+        frames.pop(0)
+    frames = [frame for frame in frames if frame.filename != '<string>']
+    text = 'Traceback (most recent call last):\\n' + ''.join(traceback.format_list(frames)) if frames else ''
+    text += ''.join(traceback.format_exception_only(type(error), error))
+    sys.stderr.write(text.replace(workdir + os.sep, ''))
+    sys.exit(${PYTHON_MEMORY_LIMIT_EXIT_CODE} if isinstance(error, MemoryError) else 1)
+`;
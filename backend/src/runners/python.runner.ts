@@ -0,0 +1,69 @@
+import { chmod, mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { LanguageRunner, PreparedRun, RunRequest } from './language-runner';
+import { isolateCommand, withResourceLimits } from './os-sandbox';
+import { PYTHON_MEMORY_LIMIT_EXIT_CODE, PYTHON_SANDBOX } from './python-sandbox';
+
+const PYTHON_COMMAND = process.env.PYTHON_PATH || 'python3';
+const CPU_TIME_LIMIT_SECONDS = 5;
+const MEMORY_LIMIT_KB = 256 * 1024;
+const MAX_PROCESSES = 32;
+// Ожидание ввода и sleep не тратят процессорное время, поэтому общий предел больше
+const RUN_TIMEOUT_MS = 10000;
+// bubblewrap передает завершение по сигналу кодом выхода 128 + номер сигнала
+const SIGXCPU_EXIT_CODE = 128 + 24;
+const SIGKILL_EXIT_CODE = 128 + 9;
+
+/**
+ * Python: файлы комнаты записываются во временный каталог, интерпретатор запускается
+ * в песочнице ОС, где этот каталог доступен только на чтение, под лимитами процессора, памяти и числа процессов.
+ */
+export class PythonRunner implements LanguageRunner {
+  readonly languages = ['python'];
+
+  async prepare({ files, entryPath, stdin }: RunRequest): Promise<PreparedRun> {
+    const workdir = await mkdtemp(path.join(tmpdir(), 'live-coding-run-'));
+    try {
+      // Песочница может работать от другого пользователя, ему нужно читать файлы комнаты
+      await chmod(workdir, 0o755);
+      for (const file of files) {
+        const target = path.resolve(workdir, file.path);
+        // Пути комнаты относительные, но выйти за пределы каталога не должен ни один
+        if (!target.startsWith(workdir + path.sep)) continue;
+
+        await mkdir(path.dirname(target), { recursive: true });
+        await writeFile(target, file.code);
+      }
+    } catch (error) {
+      await rm(workdir, { recursive: true, force: true });
+      throw error;
+    }
+
+    const limited = withResourceLimits(
+      PYTHON_COMMAND,
+      ['-I', '-B', '-u', '-c', PYTHON_SANDBOX, workdir, entryPath],
+      { cpuTimeSeconds: CPU_TIME_LIMIT_SECONDS, memoryKb: MEMORY_LIMIT_KB, maxProcesses: MAX_PROCESSES },
+    );
+    const isolated = isolateCommand(limited.command, limited.args, { workdir });
+
+    return {
+      process: {
+        ...isolated,
+        cwd: workdir,
+        // PATH нужен только для поиска интерпретатора
+        env: { PATH: process.env.PATH || '' },
+        input: stdin,
+        timeoutMs: RUN_TIMEOUT_MS,
+        // Превышение лимита процессорного времени ядро завершает сигналом SIGXCPU или SIGKILL
+        classifyExit: (exitCode, signal) => (
+          signal === 'SIGXCPU' || signal === 'SIGKILL' || exitCode === SIGXCPU_EXIT_CODE || exitCode === SIGKILL_EXIT_CODE
+            ? 'timeout'
+            : exitCode === PYTHON_MEMORY_LIMIT_EXIT_CODE ? 'memory_limit'
+            : null
+        ),
+        cleanup: () => rm(workdir, { recursive: true, force: true }),
+      },
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { CodeService } from './code.service';
+import { CodeFile, DEFAULT_FILE_PATH, FileEntryType, SYNC_ENGINES, SyncEngine } from '../models/code-file.model';
+import {
+  MAX_ROOM_ENTRIES,
+  PathEntry,
+  detectLanguage,
+  hasPathConflict,
+  normalizePath,
+  parentFolders,
+  withLanguageExtension,
+} from '../utils/file-path';
+
+export const MAX_IMPORT_SIZE = 5 * 1024 * 1024;
+const MAX_IMPORTED_FILE_SIZE = 1000000; // Как и при редактировании, не больше 1MB на файл
+const MAX_UNPACKED_SIZE = 20 * 1024 * 1024;
+// Описание комнаты внутри архива: языки файлов, пустые папки и основной файл
+const MANIFEST_FILE = '.livecoding.json';
+const MANIFEST_VERSION = 1;
+
+interface ManifestEntry {
+  path: string;
+  entryType: FileEntryType;
+  language: string;
+  revision: number;
+}
+
+interface RoomManifest {
+  version: number;
+  roomId: string;
+  syncEngine: SyncEngine;
+  mainFile: string;
+  exportedAt: string;
+  entries: ManifestEntry[];
+}
+
+interface ImportedFile {
+  path: string;
+  code: string;
+}
+
+export interface RoomArchive {
+  fileName: string;
+  data: Uint8Array;
+}
+
+@Injectable()
+export class ArchiveService {
+  constructor(private codeService: CodeService) {}
+
+  /**
+   * Упаковка всех файлов комнаты в zip. Расширение файла приводится к выбранному языку,
+   * если такой путь ещё не занят.
+   */
+  async exportRoom(roomId: string): Promise<RoomArchive | null> {
+    const entries = await this.codeService.getRoomFiles(roomId, true);
+    const room = entries.find(entry => entry.id === roomId);
+    if (!room) return null;
+
+    const exported: PathEntry[] = [];
+    const zippable: Zippable = {};
+    const manifest: RoomManifest = {
+      version: MANIFEST_VERSION,
+      roomId,
+      syncEngine: room.syncEngine,
+      mainFile: DEFAULT_FILE_PATH,
+      exportedAt: new Date().toISOString(),
+      entries: [],
+    };
+
+    for (const entry of entries) {
+      let path = entry.path;
+      if (entry.entryType === 'file') {
+        const languagePath = withLanguageExtension(entry.path, entry.language);
+        const isTaken = entries.some(other => other.id !== entry.id && other.path === languagePath);
+        if (!isTaken && !hasPathConflict(exported, languagePath, 'file')) {
+          path = languagePath;
+        }
+        zippable[path] = strToU8(entry.code);
+      }
+
+      exported.push({ id: entry.id, path, entryType: entry.entryType });
+      manifest.entries.push({ path, entryType: entry.entryType, language: entry.language, revision: entry.revision });
+      if (entry === room) {
+        manifest.mainFile = path;
+      }
+    }
+
+    zippable[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+    return {
+      fileName: `room-${roomId.slice(0, 8)}.zip`,
+      data: zipSync(zippable, { level: 6 }),
+    };
+  }
+
+  /**
+   * Создание новой комнаты из zip архива или одного исходного файла
+   */
+  async importRoom(fileName: string, data: Buffer, syncEngine?: SyncEngine): Promise<CodeFile> {
+    if (!isZipArchive(fileName, data)) {
+      const path = normalizePath(fileName.split(/[\\/]/).pop()) || DEFAULT_FILE_PATH;
+      const code = decodeSource(data);
+      if (code === null) {
+        throw new HttpException('Only text source files can be imported', HttpStatus.BAD_REQUEST);
+      }
+
+      return this.codeService.createCodeFile(syncEngine || 'ot', { code, language: detectLanguage(path), path });
+    }
+
+    const { files, manifest } = this.readArchive(data);
+    if (files.length === 0) {
+      throw new HttpException('Archive has no source files', HttpStatus.BAD_REQUEST);
+    }
+
+    const folders = (manifest?.entries || [])
+      .filter(entry => entry.entryType === 'folder')
+      .map(entry => normalizePath(entry.path))
+      .filter((path): path is string => path !== null)
+      .sort();
+    // Недостающие родительские папки файлов создаются автоматически и тоже занимают место в комнате
+    const folderPaths = new Set([...folders, ...[...folders, ...files.map(file => file.path)].flatMap(parentFolders)]);
+    if (files.length + folderPaths.size > MAX_ROOM_ENTRIES) {
+      throw new HttpException('Too many files in archive', HttpStatus.BAD_REQUEST);
+    }
+
+    const languageOf = (path: string) => {
+      const language = manifest?.entries.find(entry => entry.path === path)?.language;
+      return typeof language === 'string' && language.length <= 32 ? language : detectLanguage(path);
+    };
+
+    const mainFile = pickMainFile(files, manifest?.mainFile);
+    const engine = syncEngine || (manifest && SYNC_ENGINES.includes(manifest.syncEngine) ? manifest.syncEngine : 'ot');
+    const room = await this.codeService.createCodeFile(engine, {
+      code: mainFile.code,
+      language: languageOf(mainFile.path),
+      path: mainFile.path,
+    });
+
+    // Папки создаются раньше файлов и по порядку путей, чтобы родительские шли первыми
+    const created: PathEntry[] = [{ id: room.id, path: room.path, entryType: 'file' }];
+    for (const path of folders) {
+      if (hasPathConflict(created, path, 'folder')) continue;
+      const folder = await this.codeService.createRoomEntry(room, path, 'folder');
+      created.push({ id: folder.id, path, entryType: 'folder' });
+    }
+
+    for (const file of files) {
+      if (file === mainFile || hasPathConflict(created, file.path, 'file')) continue;
+      const entry = await this.codeService.createRoomEntry(room, file.path, 'file', {
+        code: file.code,
+        language: languageOf(file.path),
+      });
+      created.push({ id: entry.id, path: file.path, entryType: 'file' });
+    }
+
+    return room;
+  }
+
+  private readArchive(data: Buffer): { files: ImportedFile[]; manifest: RoomManifest | null } {
+    let fileCount = 0;
+    let unpackedSize = 0;
+    let unzipped: Record<string, Uint8Array>;
+
+    try {
+      unzipped = unzipSync(new Uint8Array(data), {
+        // Размеры проверяются до распаковки, чтобы не распаковывать zip-бомбы
+        filter: file => {
+          if (file.name.endsWith('/') || file.name.startsWith('__MACOSX/')) return false;
+
+          fileCount++;
+          unpackedSize += file.originalSize;
+          if (fileCount > MAX_ROOM_ENTRIES + 1 || unpackedSize > MAX_UNPACKED_SIZE) {
+            throw new HttpException('Archive is too large', HttpStatus.BAD_REQUEST);
+          }
+          return file.originalSize <= MAX_IMPORTED_FILE_SIZE;
+        },
+      });
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HttpException('Invalid zip archive', HttpStatus.BAD_REQUEST);
+    }
+
+    let manifest: RoomManifest | null = null;
+    const files: ImportedFile[] = [];
+
+    for (const [name, content] of Object.entries(unzipped)) {
+      if (name === MANIFEST_FILE) {
+        manifest = parseManifest(content);
+        continue;
+      }
+
+      const path = normalizePath(name);
+      const code = decodeSource(content);
+      // Бинарные файлы и файлы с недопустимыми путями пропускаются
+      if (path && code !== null) {
+        files.push({ path, code });
+      }
+    }
+
+    // Архивы вида project/... распаковываются без общей корневой папки
+    if (!manifest && files.length > 0) {
+      const [first] = files[0].path.split('/');
+      if (files.every(file => file.path.startsWith(`${first}/`))) {
+        files.forEach(file => {
+          file.path = file.path.slice(first.length + 1);
+        });
+      }
+    }
+
+    files.sort((a, b) => a.path.localeCompare(b.path));
+    return { files, manifest };
+  }
+}
+
+function isZipArchive(fileName: string, data: Buffer): boolean {
+  const hasZipSignature = data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+  return hasZipSignature || fileName.toLowerCase().endsWith('.zip');
+}
+
+function decodeSource(content: Uint8Array): string | null {
+  if (content.length > MAX_IMPORTED_FILE_SIZE || content.includes(0)) return null;
+  return strFromU8(content);
+}
+
+function parseManifest(content: Uint8Array): RoomManifest | null {
+  try {
+    const manifest = JSON.parse(strFromU8(content));
+    return manifest && Array.isArray(manifest.entries) ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Основной файл комнаты: из манифеста, иначе index.* или main.* в корне, иначе первый по алфавиту
+ */
+function pickMainFile(files: ImportedFile[], manifestMainFile?: string): ImportedFile {
+  return files.find(file => file.path === manifestMainFile)
+    || files.find(file => /^(index|main)\.[^/]+$/.test(file.path))
+    || files[0];
+}
@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { RoomMessage } from '../models/room-message.model';
+
+export const MAX_MESSAGE_LENGTH = 4000;
+// Сколько последних сообщений получает вошедший в комнату
+const HISTORY_LIMIT = 200;
+
+export interface ChatMessage {
+  id: string;
+  nickname: string;
+  text: string;
+  createdAt: Date;
+}
+
+@Injectable()
+export class ChatService {
+  constructor(
+    @InjectModel(RoomMessage)
+    private roomMessageModel: typeof RoomMessage,
+  ) {}
+
+  /**
+   * Последние сообщения комнаты в хронологическом порядке
+   */
+  async getHistory(roomId: string): Promise<ChatMessage[]> {
+    const messages = await this.roomMessageModel.findAll({
+      where: { roomId },
+      order: [['createdAt', 'DESC']],
+      limit: HISTORY_LIMIT,
+    });
+    return messages.reverse().map(toChatMessage);
+  }
+
+  async addMessage(roomId: string, nickname: string, text: string): Promise<ChatMessage> {
+    return toChatMessage(await this.roomMessageModel.create({ roomId, nickname, text }));
+  }
+}
+
+function toChatMessage(message: RoomMessage): ChatMessage {
+  return {
+    id: message.id,
+    nickname: message.nickname,
+    text: message.text,
+    createdAt: message.createdAt,
+  };
+}
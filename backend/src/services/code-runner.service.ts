@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { spawn } from 'child_process';
+import { JavaScriptRunner } from '../runners/javascript.runner';
+import {
+  LanguageRunner,
+  MAX_OUTPUT_LENGTH,
+  OutputStream,
+  PreparedRun,
+  ProcessSpec,
+  RunHandle,
+  RunRequest,
+  RunResult,
+  RunStatus,
+} from '../runners/language-runner';
+import { PythonRunner } from '../runners/python.runner';
+
+// Одновременных запусков на весь сервер, остальные получают отказ
+const MAX_CONCURRENT_RUNS = 4;
+const MAX_STDIN_LENGTH = 64 * 1024;
+
+export class RunnerBusyError extends Error {}
+
+/**
+ * Выполнение кода комнаты в отдельных процессах с ограничениями по времени и объему вывода.
+ * Подготовку процесса для конкретного языка выполняет раннер, вывод передается по частям по мере появления.
+ */
+@Injectable()
+export class CodeRunnerService {
+  private runners: LanguageRunner[] = [new JavaScriptRunner(), new PythonRunner()];
+  private activeRuns = 0;
+
+  isRunnable(language: string): boolean {
+    return Boolean(this.findRunner(language));
+  }
+
+  async run(request: RunRequest, onOutput: (stream: OutputStream, text: string) => void): Promise<RunHandle> {
+    const entry = request.files.find(file => file.path === request.entryPath);
+    const runner = entry && this.findRunner(entry.language);
+    if (!entry || !runner) {
+      throw new Error(`Cannot run '${request.entryPath}'`);
+    }
+    if (this.activeRuns >= MAX_CONCURRENT_RUNS) {
+      throw new RunnerBusyError('Too many programs are running, try again later');
+    }
+
+    // Место занимается до подготовки, пока она идет, лимит не должны обойти параллельные запуски
+    this.activeRuns++;
+    let prepared: PreparedRun;
+    try {
+      prepared = await runner.prepare({ ...request, stdin: request.stdin.slice(0, MAX_STDIN_LENGTH) });
+    } catch (error) {
+      this.activeRuns--;
+      throw error;
+    }
+
+    if ('errors' in prepared) {
+      this.activeRuns--;
+      onOutput('stderr', prepared.errors);
+      return { result: Promise.resolve({ status: 'error', exitCode: null, durationMs: 0 }), stop: () => undefined };
+    }
+
+    const handle = this.spawnProcess(prepared.process, onOutput);
+    handle.result.finally(() => {
+      this.activeRuns--;
+    });
+    return handle;
+  }
+
+  private findRunner(language: string): LanguageRunner | undefined {
+    return this.runners.find(runner => runner.languages.includes(language));
+  }
+
+  private spawnProcess(spec: ProcessSpec, onOutput: (stream: OutputStream, text: string) => void): RunHandle {
+    const startedAt = Date.now();
+    const child = spawn(spec.command, spec.args, {
+      cwd: spec.cwd,
+      env: spec.env,
+      uid: spec.uid,
+      gid: spec.gid,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let outputLength = 0;
+    let stopReason: RunStatus | null = null;
+    const stop = (reason: RunStatus) => {
+      if (stopReason) return;
+      stopReason = reason;
+      child.kill('SIGKILL');
+    };
+    const timer = setTimeout(() => stop('timeout'), spec.timeoutMs);
+
+    const forward = (stream: OutputStream) => (chunk: Buffer) => {
+      if (stopReason) return;
+
+      const text = chunk.toString('utf8');
+      const remaining = MAX_OUTPUT_LENGTH - outputLength;
+      outputLength += text.length;
+      onOutput(stream, text.length > remaining ? text.slice(0, remaining) : text);
+      if (outputLength > MAX_OUTPUT_LENGTH) {
+        stop('output_limit');
+      }
+    };
+    child.stdout.on('data', forward('stdout'));
+    child.stderr.on('data', forward('stderr'));
+    // Процесс может завершиться раньше, чем прочитает весь ввод
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(spec.input);
+
+    const result = new Promise<RunResult>((resolve) => {
+      let finished = false;
+      const finish = (exitCode: number | null, signal: NodeJS.Signals | null) => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timer);
+
+        const status: RunStatus = stopReason
+          || spec.classifyExit?.(exitCode, signal)
+          || (exitCode === 0 ? 'success' : 'error');
+        const durationMs = Date.now() - startedAt;
+        (spec.cleanup ? spec.cleanup() : Promise.resolve())
+          .catch(error => console.error('Error cleaning up after run:', error))
+          .finally(() => resolve({ status, exitCode, durationMs }));
+      };
+
+      child.once('close', finish);
+      child.once('error', (error) => {
+        onOutput('stderr', `Failed to start: ${error.message}\n`);
+        finish(null, null);
+      });
+    });
+
+    return { result, stop: () => stop('stopped') };
+  }
+}
@@ -1,38 +1,441 @@
 import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
-import { CodeFile } from '../models/code-file.model';
-import { v4 as uuidv4 } from 'uuid';
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { CodeFile, SyncEngine, FileEntryType, RoomRole, RoomMode, DEFAULT_FILE_PATH } from '../models/code-file.model';
+import { CodeRevision } from '../models/code-revision.model';
+import { TestCase } from '../models/test-case.model';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { TextOperation, applyOperations, diffToOperations } from '../utils/text-operation';
+import { CrdtDocument, SERVER_CLIENT_ID } from '../utils/crdt-document';
+import { detectLanguage, isInsideFolder, parentFolders } from '../utils/file-path';
+import { generateAccessToken, hashAccessToken, verifyAccessToken } from '../utils/access-token';
+
+// Каждая N-ая ревизия хранится целиком, остальные - как операции
+const SNAPSHOT_INTERVAL = 50;
+
+export interface RevisionContent {
+  revision: number;
+  code: string;
+  language: string;
+  authorNickname: string | null;
+  createdAt: Date;
+}
+
+export interface InitialFileContent {
+  code: string;
+  language: string;
+  path?: string;
+}
 
 @Injectable()
 export class CodeService {
   constructor(
     @InjectModel(CodeFile)
     private codeFileModel: typeof CodeFile,
+    @InjectModel(CodeRevision)
+    private codeRevisionModel: typeof CodeRevision,
+    @InjectModel(TestCase)
+    private testCaseModel: typeof TestCase,
+    private sequelize: Sequelize,
   ) {}
 
-  async createCodeFile(): Promise<CodeFile> {
-    return this.codeFileModel.create({
+  async createCodeFile(syncEngine: SyncEngine = 'ot', initial?: InitialFileContent): Promise<CodeFile> {
+    const code = initial?.code || '';
+    const codeFile = await this.codeFileModel.create({
       id: uuidv4(),
-      code: '',
-      language: 'typescript',
+      code,
+      language: initial?.language || 'typescript',
+      path: initial?.path || DEFAULT_FILE_PATH,
+      syncEngine,
+      crdtState: syncEngine === 'crdt' ? JSON.stringify(CrdtDocument.fromText(code, SERVER_CLIENT_ID).toState()) : null,
     });
+    await this.recordRevision(codeFile, null);
+    return codeFile;
   }
 
   async getCodeFile(id: string): Promise<CodeFile | null> {
     return this.codeFileModel.findByPk(id);
   }
 
-  async updateCodeFile(id: string, code: string, language?: string): Promise<CodeFile | null> {
+  /**
+   * Выдача нового токена владельца комнаты. Возвращает токен в открытом виде, сохраняется только хеш.
+   */
+  async issueOwnerToken(room: CodeFile): Promise<string> {
+    const token = generateAccessToken();
+    await room.update({ ownerTokenHash: hashAccessToken(token) });
+    return token;
+  }
+
+  isRoomOwner(room: CodeFile, token: unknown): boolean {
+    return verifyAccessToken(token, room.ownerTokenHash);
+  }
+
+  async deleteRoom(roomId: string): Promise<void> {
+    await this.codeFileModel.destroy({ where: { [Op.or]: [{ id: roomId }, { roomId }] } });
+  }
+
+  async setDefaultRole(room: CodeFile, defaultRole: RoomRole): Promise<void> {
+    await room.update({ defaultRole });
+  }
+
+  async setRoomMode(room: CodeFile, mode: RoomMode): Promise<void> {
+    await room.update({ mode });
+  }
+
+  async setProblemStatement(room: CodeFile, problemStatement: string | null): Promise<void> {
+    await room.update({ problemStatement });
+  }
+
+  async setRoomExpiry(roomId: string, expiresAt: Date): Promise<void> {
+    // Срок действия хранится у каждого файла комнаты, чтобы очистка удаляла их вместе
+    await this.codeFileModel.update({ expiresAt }, { where: { [Op.or]: [{ id: roomId }, { roomId }] } });
+  }
+
+  /**
+   * Файл комнаты: корневой (id совпадает с ID комнаты) или один из добавленных
+   */
+  async getRoomFile(roomId: string, fileId: string): Promise<CodeFile | null> {
+    if (!isUuid(fileId)) return null;
+
+    const file = await this.codeFileModel.findByPk(fileId);
+    if (!file || (file.id !== roomId && file.roomId !== roomId)) return null;
+    return file;
+  }
+
+  async getRoomFiles(roomId: string, withCode = false): Promise<CodeFile[]> {
+    const attributes = ['id', 'roomId', 'path', 'entryType', 'language', 'syncEngine'];
+    return this.codeFileModel.findAll({
+      where: { [Op.or]: [{ id: roomId }, { roomId }] },
+      attributes: withCode ? [...attributes, 'code', 'revision'] : attributes,
+      order: [['path', 'ASC']],
+    });
+  }
+
+  async createRoomEntry(
+    room: CodeFile,
+    path: string,
+    entryType: FileEntryType,
+    initial?: InitialFileContent,
+  ): Promise<CodeFile> {
+    await this.createParentFolders(room, path);
+    const code = initial?.code || '';
+    const entry = await this.codeFileModel.create({
+      id: uuidv4(),
+      roomId: room.id,
+      path,
+      entryType,
+      code,
+      language: entryType === 'file' ? initial?.language || detectLanguage(path) : room.language,
+      syncEngine: room.syncEngine,
+      crdtState: entryType === 'file' && room.syncEngine === 'crdt'
+        ? JSON.stringify(CrdtDocument.fromText(code, SERVER_CLIENT_ID).toState())
+        : null,
+      // Файлы живут столько же, сколько комната
+      expiresAt: room.expiresAt,
+    });
+    if (entryType === 'file') {
+      await this.recordRevision(entry, null);
+    }
+    return entry;
+  }
+
+  /**
+   * Копия комнаты со всеми файлами и папками. Новая комната живёт независимо и получает свой срок действия.
+   * С историей копируются и все ревизии, иначе история копии начинается с текущего состояния.
+   * Скрытые тесты копируются, только если копию создает владелец комнаты.
+   * Копирование выполняется в транзакции, чтобы при ошибке не осталось недостроенной комнаты.
+   */
+  async forkRoom(roomId: string, options: { includeHistory: boolean; includeHiddenTests: boolean }): Promise<CodeFile | null> {
+    const { includeHistory, includeHiddenTests } = options;
+    const entries = await this.getRoomFiles(roomId, true);
+    const source = entries.find(entry => entry.id === roomId);
+    if (!source) return null;
+
+    return this.sequelize.transaction(async transaction => {
+      const room = await this.codeFileModel.create({
+        id: uuidv4(),
+        code: source.code,
+        language: source.language,
+        path: source.path,
+        revision: includeHistory ? source.revision : 0,
+        syncEngine: source.syncEngine,
+        crdtState: source.syncEngine === 'crdt' ? JSON.stringify(CrdtDocument.fromText(source.code, SERVER_CLIENT_ID).toState()) : null,
+        problemStatement: source.problemStatement,
+        mode: source.mode,
+      }, { transaction });
+
+      const copies = new Map<string, CodeFile>([[source.id, room]]);
+      for (const entry of entries) {
+        if (entry === source) continue;
+
+        const copy = await this.codeFileModel.create({
+          id: uuidv4(),
+          roomId: room.id,
+          path: entry.path,
+          entryType: entry.entryType,
+          code: entry.code,
+          language: entry.language,
+          revision: includeHistory ? entry.revision : 0,
+          syncEngine: entry.syncEngine,
+          crdtState: entry.entryType === 'file' && entry.syncEngine === 'crdt'
+            ? JSON.stringify(CrdtDocument.fromText(entry.code, SERVER_CLIENT_ID).toState())
+            : null,
+          expiresAt: room.expiresAt,
+        }, { transaction });
+        if (entry.entryType === 'file') {
+          copies.set(entry.id, copy);
+        }
+      }
+
+      const testCases = await this.testCaseModel.findAll({ where: { roomId }, transaction });
+      await this.testCaseModel.bulkCreate(testCases
+        .filter(testCase => includeHiddenTests || !testCase.isHidden)
+        .map(testCase => ({
+          roomId: room.id,
+          input: testCase.input,
+          expectedOutput: testCase.expectedOutput,
+          isHidden: testCase.isHidden,
+          position: testCase.position,
+        })), { transaction });
+
+      if (!includeHistory) {
+        for (const copy of copies.values()) {
+          await this.recordRevision(copy, null, undefined, transaction);
+        }
+        return room;
+      }
+
+      const revisions = await this.codeRevisionModel.findAll({
+        where: { codeFileId: Array.from(copies.keys()) },
+        order: [['revision', 'ASC']],
+        transaction,
+      });
+      await this.codeRevisionModel.bulkCreate(revisions.map(revision => ({
+        codeFileId: copies.get(revision.codeFileId)!.id,
+        revision: revision.revision,
+        kind: revision.kind,
+        code: revision.code,
+        operations: revision.operations,
+        language: revision.language,
+        authorNickname: revision.authorNickname,
+        createdAt: revision.createdAt,
+      })), { transaction });
+
+      // У файлов без полной истории текущее состояние сохраняется снимком
+      for (const [sourceId, copy] of copies) {
+        const hasCurrent = revisions.some(revision => revision.codeFileId === sourceId && revision.revision === copy.revision);
+        if (!hasCurrent) {
+          await this.recordRevision(copy, null, undefined, transaction);
+        }
+      }
+      return room;
+    });
+  }
+
+  /**
+   * Переименование или перемещение записи. Для папки вместе с ней переносится всё содержимое.
+   */
+  async moveRoomEntry(room: CodeFile, entry: CodeFile, newPath: string): Promise<void> {
+    const roomId = room.id;
+    const oldPath = entry.path;
+    await this.createParentFolders(room, newPath);
+
+    if (entry.entryType === 'folder') {
+      const files = await this.codeFileModel.findAll({ where: { [Op.or]: [{ id: roomId }, { roomId }] } });
+      for (const file of files) {
+        if (isInsideFolder(file.path, oldPath)) {
+          await file.update({ path: newPath + file.path.slice(oldPath.length) });
+        }
+      }
+      await entry.update({ path: newPath });
+      return;
+    }
+
+    const updateData: { path: string; language?: string } = { path: newPath };
+    // Язык определяется расширением, только если оно изменилось
+    const newLanguage = detectLanguage(newPath);
+    if (newLanguage !== detectLanguage(oldPath)) {
+      updateData.language = newLanguage;
+    }
+    await entry.update(updateData);
+  }
+
+  /**
+   * Удаление записи (для папки - вместе с содержимым). Возвращает ID удаленных записей.
+   */
+  async deleteRoomEntry(roomId: string, entry: CodeFile): Promise<string[]> {
+    const deletedIds = [entry.id];
+
+    if (entry.entryType === 'folder') {
+      const files = await this.codeFileModel.findAll({ where: { roomId } });
+      files
+        .filter(file => isInsideFolder(file.path, entry.path))
+        .forEach(file => deletedIds.push(file.id));
+    }
+
+    await this.codeFileModel.destroy({ where: { id: deletedIds } });
+    return deletedIds;
+  }
+
+  /**
+   * Создание недостающих папок на пути к записи, чтобы каждую папку дерева можно было переименовать и удалить
+   */
+  private async createParentFolders(room: CodeFile, path: string): Promise<void> {
+    for (const folderPath of parentFolders(path)) {
+      const existing = await this.codeFileModel.findOne({ where: { roomId: room.id, path: folderPath } });
+      if (existing) continue;
+
+      await this.codeFileModel.create({
+        id: uuidv4(),
+        roomId: room.id,
+        path: folderPath,
+        entryType: 'folder',
+        code: '',
+        language: room.language,
+        syncEngine: room.syncEngine,
+        expiresAt: room.expiresAt,
+      });
+    }
+  }
+
+  /**
+   * Полная замена текста файла. CRDT-состояние строится заново из нового текста:
+   * идентификаторы прежних символов к нему уже не относятся
+   */
+  async replaceCode(id: string, code: string, authorNickname?: string): Promise<CodeFile | null> {
+    const codeFile = await this.codeFileModel.findByPk(id);
+    if (!codeFile || code === codeFile.code) return codeFile;
+
+    const previousClock = codeFile.crdtState
+      ? CrdtDocument.fromState(JSON.parse(codeFile.crdtState), SERVER_CLIENT_ID).lastClock
+      : 0;
+    await codeFile.update({
+      code,
+      crdtState: codeFile.syncEngine === 'crdt'
+        ? JSON.stringify(CrdtDocument.fromText(code, SERVER_CLIENT_ID, previousClock).toState())
+        : null,
+      revision: codeFile.revision + 1,
+    });
+    // Полная замена документа всегда сохраняется снимком
+    await this.recordRevision(codeFile, null, authorNickname);
+    return codeFile;
+  }
+
+  async setLanguage(id: string, language: string): Promise<void> {
+    await this.codeFileModel.update({ language }, { where: { id } });
+  }
+
+  async applyOperations(id: string, operations: TextOperation[], authorNickname?: string): Promise<CodeFile | null> {
     const codeFile = await this.codeFileModel.findByPk(id);
     if (!codeFile) return null;
 
-    const updateData: any = { code };
-    if (language) updateData.language = language;
+    await codeFile.update({
+      code: applyOperations(codeFile.code, operations),
+      revision: codeFile.revision + 1,
+    });
+    await this.recordRevision(codeFile, operations, authorNickname);
+    return codeFile;
+  }
+
+  /**
+   * Текст и ревизия после правки CRDT документа. Само состояние документа сохраняется
+   * отдельно (saveCrdtState) и реже - оно растет вместе с документом
+   */
+  async saveCrdtDocument(id: string, document: CrdtDocument, authorNickname?: string): Promise<CodeFile | null> {
+    const codeFile = await this.codeFileModel.findByPk(id);
+    if (!codeFile) return null;
+
+    const operations = diffToOperations(codeFile.code, document.getText());
+    await codeFile.update({
+      code: document.getText(),
+      revision: codeFile.revision + 1,
+    });
+    await this.recordRevision(codeFile, operations, authorNickname);
+    return codeFile;
+  }
+
+  async saveCrdtState(id: string, document: CrdtDocument): Promise<void> {
+    await this.codeFileModel.update({ crdtState: JSON.stringify(document.toState()) }, { where: { id } });
+  }
 
-    await codeFile.update(updateData);
+  // Документ пересобирается из видимого текста, надгробия удаленных символов отбрасываются
+  async compactCrdtState(id: string, document: CrdtDocument): Promise<CodeFile | null> {
+    const codeFile = await this.codeFileModel.findByPk(id);
+    if (!codeFile) return null;
+
+    await codeFile.update({ crdtState: JSON.stringify(document.compacted().toState()) });
     return codeFile;
   }
 
+  async getHistory(id: string, limit: number, beforeRevision?: number): Promise<CodeRevision[]> {
+    const where: WhereOptions<CodeRevision> = beforeRevision === undefined
+      ? { codeFileId: id }
+      : { codeFileId: id, revision: { [Op.lt]: beforeRevision } };
+
+    return this.codeRevisionModel.findAll({
+      where,
+      attributes: ['revision', 'kind', 'language', 'authorNickname', 'createdAt'],
+      order: [['revision', 'DESC']],
+      limit,
+    });
+  }
+
+  /**
+   * Восстановление текста документа на заданной ревизии:
+   * ближайший снимок и все последующие операции до нужной ревизии
+   */
+  async getRevisionContent(id: string, revision: number): Promise<RevisionContent | null> {
+    const snapshot = await this.codeRevisionModel.findOne({
+      where: { codeFileId: id, kind: 'snapshot', revision: { [Op.lte]: revision } },
+      order: [['revision', 'DESC']],
+    });
+    if (!snapshot) return null;
+
+    const deltas = await this.codeRevisionModel.findAll({
+      where: { codeFileId: id, revision: { [Op.gt]: snapshot.revision, [Op.lte]: revision } },
+      order: [['revision', 'ASC']],
+    });
+
+    let code = snapshot.code || '';
+    let current: CodeRevision = snapshot;
+    for (const delta of deltas) {
+      // Пропуск в истории - восстановить текст без него нельзя
+      if (delta.revision !== current.revision + 1) return null;
+      code = delta.kind === 'snapshot' ? delta.code || '' : applyOperations(code, delta.operations || []);
+      current = delta;
+    }
+
+    if (current.revision !== revision) return null;
+
+    return {
+      revision,
+      code,
+      language: current.language,
+      authorNickname: current.authorNickname,
+      createdAt: current.createdAt,
+    };
+  }
+
+  private async recordRevision(
+    codeFile: CodeFile,
+    operations: TextOperation[] | null,
+    authorNickname?: string,
+    transaction?: Transaction,
+  ): Promise<void> {
+    const isSnapshot = operations === null || codeFile.revision % SNAPSHOT_INTERVAL === 0;
+
+    await this.codeRevisionModel.create({
+      codeFileId: codeFile.id,
+      revision: codeFile.revision,
+      kind: isSnapshot ? 'snapshot' : 'delta',
+      code: isSnapshot ? codeFile.code : null,
+      operations: isSnapshot ? null : operations,
+      language: codeFile.language,
+      authorNickname: authorNickname || null,
+    }, { transaction });
+  }
+
   async deleteExpiredFiles(): Promise<number> {
     const result = await this.codeFileModel.destroy({
       where: {
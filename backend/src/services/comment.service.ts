@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { validate as isUuid } from 'uuid';
+import { CommentThread } from '../models/comment-thread.model';
+import { Comment } from '../models/comment.model';
+import { TextOperation, transformPosition } from '../utils/text-operation';
+
+export const MAX_COMMENT_LENGTH = 2000;
+export const MAX_THREADS_PER_FILE = 100;
+const MAX_COMMENTS_PER_THREAD = 100;
+
+export interface CommentView {
+  id: string;
+  nickname: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface CommentThreadView {
+  id: string;
+  fileId: string;
+  startPosition: number;
+  endPosition: number;
+  isResolved: boolean;
+  resolvedBy: string | null;
+  createdAt: Date;
+  comments: CommentView[];
+}
+
+/**
+ * Ветки комментариев к коду. Границы веток переносятся через правки файла
+ * теми же операциями, что применяются к тексту
+ */
+@Injectable()
+export class CommentService {
+  constructor(
+    @InjectModel(CommentThread)
+    private threadModel: typeof CommentThread,
+    @InjectModel(Comment)
+    private commentModel: typeof Comment,
+  ) {}
+
+  async getThreads(fileId: string): Promise<CommentThreadView[]> {
+    const threads = await this.threadModel.findAll({
+      where: { fileId },
+      include: [Comment],
+      order: [['createdAt', 'ASC'], [Comment, 'createdAt', 'ASC']],
+    });
+    return threads.map(toThreadView);
+  }
+
+  /**
+   * Новая ветка с первым комментарием. null - у файла уже максимум веток
+   */
+  async createThread(
+    roomId: string,
+    fileId: string,
+    range: { startPosition: number; endPosition: number },
+    nickname: string,
+    text: string,
+  ): Promise<CommentThreadView | null> {
+    const count = await this.threadModel.count({ where: { fileId } });
+    if (count >= MAX_THREADS_PER_FILE) return null;
+
+    const thread = await this.threadModel.create({ roomId, fileId, ...range });
+    await this.commentModel.create({ threadId: thread.id, nickname, text });
+    return this.getThread(roomId, thread.id);
+  }
+
+  /**
+   * Ответ в ветке. null - ветка не найдена или в ней уже максимум комментариев
+   */
+  async addReply(roomId: string, threadId: string, nickname: string, text: string): Promise<CommentThreadView | null> {
+    const thread = await this.findThread(roomId, threadId);
+    if (!thread) return null;
+
+    const count = await this.commentModel.count({ where: { threadId } });
+    if (count >= MAX_COMMENTS_PER_THREAD) return null;
+
+    await this.commentModel.create({ threadId, nickname, text });
+    return this.getThread(roomId, threadId);
+  }
+
+  async setResolved(roomId: string, threadId: string, isResolved: boolean, nickname: string): Promise<CommentThreadView | null> {
+    const thread = await this.findThread(roomId, threadId);
+    if (!thread) return null;
+
+    await thread.update({ isResolved, resolvedBy: isResolved ? nickname : null });
+    return this.getThread(roomId, threadId);
+  }
+
+  /**
+   * Удаление ветки вместе с комментариями. Возвращает файл ветки или null, если ее нет
+   */
+  async deleteThread(roomId: string, threadId: string): Promise<string | null> {
+    const thread = await this.findThread(roomId, threadId);
+    if (!thread) return null;
+
+    await thread.destroy();
+    return thread.fileId;
+  }
+
+  /**
+   * Перенос границ веток файла через примененные к нему операции
+   */
+  async remapThreads(fileId: string, operations: TextOperation[]): Promise<void> {
+    if (operations.length === 0) return;
+
+    const threads = await this.threadModel.findAll({ where: { fileId } });
+    for (const thread of threads) {
+      const startPosition = transformPosition(thread.startPosition, operations);
+      const endPosition = Math.max(startPosition, transformPosition(thread.endPosition, operations));
+      if (startPosition !== thread.startPosition || endPosition !== thread.endPosition) {
+        await thread.update({ startPosition, endPosition });
+      }
+    }
+  }
+
+  private async findThread(roomId: string, threadId: string): Promise<CommentThread | null> {
+    if (!isUuid(threadId)) return null;
+    return this.threadModel.findOne({ where: { id: threadId, roomId } });
+  }
+
+  private async getThread(roomId: string, threadId: string): Promise<CommentThreadView | null> {
+    const thread = await this.threadModel.findOne({
+      where: { id: threadId, roomId },
+      include: [Comment],
+      order: [[Comment, 'createdAt', 'ASC']],
+    });
+    return thread ? toThreadView(thread) : null;
+  }
+}
+
+function toThreadView(thread: CommentThread): CommentThreadView {
+  return {
+    id: thread.id,
+    fileId: thread.fileId,
+    startPosition: thread.startPosition,
+    endPosition: thread.endPosition,
+    isResolved: thread.isResolved,
+    resolvedBy: thread.resolvedBy,
+    createdAt: thread.createdAt,
+    comments: (thread.comments || []).map(comment => ({
+      id: comment.id,
+      nickname: comment.nickname,
+      text: comment.text,
+      createdAt: comment.createdAt,
+    })),
+  };
+}
+
+/**
+ * Текст комментария от клиента без пробелов по краям. null - пустой или слишком длинный текст
+ */
+export function parseCommentText(value: unknown): string | null {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text && text.length <= MAX_COMMENT_LENGTH ? text : null;
+}
@@ -0,0 +1,141 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { InterviewNotes } from '../models/interview-notes.model';
+
+export const MAX_NOTES_LENGTH = 100000;
+const MAX_CANDIDATE_EVENTS = 200;
+
+// Критерии оценки кандидата, по каждому ставится балл от 1 до 4
+export const SCORECARD_CRITERIA = ['problemSolving', 'codeQuality', 'communication', 'testing'] as const;
+export type ScorecardCriterion = typeof SCORECARD_CRITERIA[number];
+const MIN_SCORE = 1;
+const MAX_SCORE = 4;
+
+export const RECOMMENDATIONS = ['strong_no', 'no', 'yes', 'strong_yes'] as const;
+export type Recommendation = typeof RECOMMENDATIONS[number];
+
+export interface Scorecard {
+  ratings: Partial<Record<ScorecardCriterion, number>>;
+  recommendation: Recommendation | null;
+}
+
+export interface InterviewNotesSnapshot {
+  notes: string;
+  scorecard: Scorecard;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+// Действия кандидата, которые видят только интервьюеры: вставка текста и уход со вкладки
+export const CANDIDATE_EVENT_TYPES = ['paste', 'blur', 'focus'] as const;
+export type CandidateEventType = typeof CANDIDATE_EVENT_TYPES[number];
+
+export interface CandidateEvent {
+  type: CandidateEventType;
+  userId: string;
+  nickname?: string;
+  length?: number; // Размер вставленного текста
+  timestamp: number;
+}
+
+const EMPTY_SCORECARD: Scorecard = { ratings: {}, recommendation: null };
+
+/**
+ * Данные собеседования: заметки и оценки интервьюеров хранятся в БД,
+ * события кандидата - в памяти, пока комната активна
+ */
+@Injectable()
+export class InterviewService {
+  private candidateEvents = new Map<string, CandidateEvent[]>();
+
+  constructor(
+    @InjectModel(InterviewNotes)
+    private interviewNotesModel: typeof InterviewNotes,
+  ) {}
+
+  async getNotes(roomId: string): Promise<InterviewNotesSnapshot> {
+    const record = await this.interviewNotesModel.findByPk(roomId);
+    return toSnapshot(record);
+  }
+
+  async saveNotes(
+    roomId: string,
+    update: { notes?: string; scorecard?: Scorecard },
+    updatedBy: string | undefined,
+  ): Promise<InterviewNotesSnapshot> {
+    const changes = {
+      ...(update.notes !== undefined ? { notes: update.notes } : {}),
+      ...(update.scorecard !== undefined ? { scorecard: JSON.stringify(update.scorecard) } : {}),
+      updatedBy: updatedBy || null,
+      updatedAt: new Date(),
+    };
+
+    const record = await this.interviewNotesModel.findByPk(roomId);
+    if (record) {
+      await record.update(changes);
+      return toSnapshot(record);
+    }
+    return toSnapshot(await this.interviewNotesModel.create({ roomId, ...changes }));
+  }
+
+  recordCandidateEvent(roomId: string, event: CandidateEvent) {
+    const events = this.candidateEvents.get(roomId) || [];
+    events.push(event);
+    if (events.length > MAX_CANDIDATE_EVENTS) {
+      events.splice(0, events.length - MAX_CANDIDATE_EVENTS);
+    }
+    this.candidateEvents.set(roomId, events);
+  }
+
+  getCandidateEvents(roomId: string): CandidateEvent[] {
+    return this.candidateEvents.get(roomId) || [];
+  }
+
+  forgetRoom(roomId: string) {
+    this.candidateEvents.delete(roomId);
+  }
+}
+
+/**
+ * Проверка оценок от клиента: только известные критерии, целые баллы в допустимом диапазоне
+ */
+export function parseScorecard(value: unknown): Scorecard | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { ratings, recommendation } = value as { ratings?: unknown; recommendation?: unknown };
+  if (recommendation !== null && recommendation !== undefined && !RECOMMENDATIONS.includes(recommendation as Recommendation)) {
+    return null;
+  }
+
+  const scorecard: Scorecard = { ratings: {}, recommendation: (recommendation as Recommendation) || null };
+  if (ratings !== undefined) {
+    if (!ratings || typeof ratings !== 'object') return null;
+
+    for (const [criterion, score] of Object.entries(ratings)) {
+      if (!SCORECARD_CRITERIA.includes(criterion as ScorecardCriterion)) return null;
+      if (score === null) continue;
+      if (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE) return null;
+      scorecard.ratings[criterion as ScorecardCriterion] = score;
+    }
+  }
+  return scorecard;
+}
+
+function toSnapshot(record: InterviewNotes | null): InterviewNotesSnapshot {
+  if (!record) {
+    return { notes: '', scorecard: EMPTY_SCORECARD, updatedBy: null, updatedAt: null };
+  }
+
+  let scorecard: Scorecard | null = null;
+  try {
+    scorecard = record.scorecard ? parseScorecard(JSON.parse(record.scorecard)) : null;
+  } catch {
+    scorecard = null;
+  }
+  return {
+    notes: record.notes,
+    scorecard: scorecard || EMPTY_SCORECARD,
+    updatedBy: record.updatedBy,
+    updatedAt: record.updatedAt,
+  };
+}
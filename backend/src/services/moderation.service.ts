@@ -0,0 +1,60 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { createHash } from 'crypto';
+import { Op, WhereOptions } from 'sequelize';
+import { RoomBan } from '../models/room-ban.model';
+import { CodeFile } from '../models/code-file.model';
+
+const MAX_FINGERPRINT_LENGTH = 64;
+
+// Признаки, по которым узнается забаненный участник. Достаточно совпадения любого из них
+export interface ParticipantFingerprint {
+  nickname?: string;
+  participantId?: string;
+  ip?: string;
+}
+
+@Injectable()
+export class ModerationService {
+  constructor(
+    @InjectModel(RoomBan)
+    private roomBanModel: typeof RoomBan,
+  ) {}
+
+  /**
+   * Бан действует, пока существует комната: записи удаляются вместе с ней
+   */
+  async banParticipant(roomId: string, fingerprint: ParticipantFingerprint): Promise<void> {
+    const { nickname, participantId, ipHash } = normalizeFingerprint(fingerprint);
+    await this.roomBanModel.create({ roomId, nickname, participantId, ipHash });
+  }
+
+  async isBanned(roomId: string, fingerprint: ParticipantFingerprint): Promise<boolean> {
+    const { nickname, participantId, ipHash } = normalizeFingerprint(fingerprint);
+    const conditions: WhereOptions<RoomBan>[] = [];
+    if (nickname) conditions.push({ nickname });
+    if (participantId) conditions.push({ participantId });
+    if (ipHash) conditions.push({ ipHash });
+    if (conditions.length === 0) return false;
+
+    const ban = await this.roomBanModel.findOne({ where: { roomId, [Op.or]: conditions } });
+    return ban !== null;
+  }
+
+  async setRoomLocked(room: CodeFile, isLocked: boolean): Promise<void> {
+    await room.update({ isLocked });
+  }
+}
+
+function normalizeFingerprint({ nickname, participantId, ip }: ParticipantFingerprint) {
+  const normalize = (value: unknown) => typeof value === 'string' && value.trim()
+    ? value.trim().slice(0, MAX_FINGERPRINT_LENGTH)
+    : null;
+
+  const normalizedIp = normalize(ip);
+  return {
+    nickname: normalize(nickname)?.toLowerCase() || null,
+    participantId: normalize(participantId),
+    ipHash: normalizedIp && normalizedIp !== 'unknown' ? createHash('sha256').update(normalizedIp).digest('hex') : null,
+  };
+}
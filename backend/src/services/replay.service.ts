@@ -0,0 +1,149 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Interval } from '@nestjs/schedule';
+import { SessionEvent, SessionEventType } from '../models/session-event.model';
+import { CodeService } from './code.service';
+import { TextOperation } from '../utils/text-operation';
+
+const MAX_REPLAY_EVENTS = 100000;
+
+interface SessionActor {
+  id: string;
+  nickname?: string;
+}
+
+interface PendingEvent {
+  codeFileId: string;
+  type: SessionEventType;
+  userId: string;
+  nickname: string | null;
+  revision?: number;
+  operations?: TextOperation[];
+  position?: number;
+  language?: string;
+  createdAt: Date;
+}
+
+export interface ReplayTimeline {
+  id: string;
+  initialCode: string;
+  initialLanguage: string;
+  events: {
+    type: SessionEventType;
+    userId: string;
+    nickname: string | null;
+    timestamp: number;
+    revision?: number;
+    operations?: TextOperation[];
+    position?: number;
+    language?: string;
+  }[];
+}
+
+/**
+ * Запись правок и движений курсоров для последующего воспроизведения сессии.
+ * События копятся в памяти и сохраняются пачками, чтобы не писать в БД на каждое нажатие клавиши.
+ */
+@Injectable()
+export class ReplayService implements OnModuleDestroy {
+  private readonly logger = new Logger(ReplayService.name);
+  private pendingEvents: PendingEvent[] = [];
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(
+    @InjectModel(SessionEvent)
+    private sessionEventModel: typeof SessionEvent,
+    private codeService: CodeService,
+  ) {}
+
+  recordEdit(roomId: string, actor: SessionActor, revision: number, operations: TextOperation[]) {
+    if (operations.length === 0) return;
+    this.push(roomId, actor, 'edit', { revision, operations });
+  }
+
+  recordCursor(roomId: string, actor: SessionActor, position: number) {
+    this.push(roomId, actor, 'cursor', { position });
+  }
+
+  recordLanguage(roomId: string, actor: SessionActor, language: string) {
+    this.push(roomId, actor, 'language', { language });
+  }
+
+  // События удаленных файлов не сохраняем - запись в БД упала бы вместе со всей пачкой
+  discardEvents(fileIds: string[]) {
+    const discarded = new Set(fileIds);
+    this.pendingEvents = this.pendingEvents.filter(event => !discarded.has(event.codeFileId));
+  }
+
+  @Interval(1000)
+  async flush(): Promise<void> {
+    // Последовательная запись сохраняет порядок событий между пачками
+    this.flushing = this.flushing.then(async () => {
+      if (this.pendingEvents.length === 0) return;
+
+      const batch = this.pendingEvents;
+      this.pendingEvents = [];
+      try {
+        await this.sessionEventModel.bulkCreate(batch);
+      } catch (error) {
+        // Например, комната удалена очисткой - события этой пачки теряются
+        this.logger.error(`Failed to save ${batch.length} session events`, error);
+      }
+    });
+    return this.flushing;
+  }
+
+  async onModuleDestroy() {
+    await this.flush();
+  }
+
+  async getTimeline(roomId: string): Promise<ReplayTimeline | null> {
+    const codeFile = await this.codeService.getCodeFile(roomId);
+    if (!codeFile) return null;
+
+    await this.flush();
+    const events = await this.sessionEventModel.findAll({
+      where: { codeFileId: roomId },
+      order: [['id', 'ASC']],
+      limit: MAX_REPLAY_EVENTS,
+    });
+
+    // Воспроизведение начинается с текста перед первой записанной правкой
+    const firstEdit = events.find(event => event.type === 'edit');
+    const initial = firstEdit && firstEdit.revision > 0
+      ? await this.codeService.getRevisionContent(roomId, firstEdit.revision - 1)
+      : null;
+
+    return {
+      id: roomId,
+      initialCode: firstEdit ? initial?.code || '' : codeFile.code,
+      initialLanguage: initial?.language || codeFile.language,
+      events: events.map(event => ({
+        type: event.type,
+        userId: event.userId,
+        nickname: event.nickname,
+        timestamp: event.createdAt.getTime(),
+        revision: event.revision ?? undefined,
+        operations: event.operations ?? undefined,
+        position: event.position ?? undefined,
+        language: event.language ?? undefined,
+      })),
+    };
+  }
+
+  private push(
+    roomId: string,
+    actor: SessionActor,
+    type: SessionEventType,
+    data: Pick<PendingEvent, 'revision' | 'operations' | 'position' | 'language'>,
+  ) {
+    this.pendingEvents.push({
+      codeFileId: roomId,
+      type,
+      userId: actor.id,
+      nickname: actor.nickname || null,
+      createdAt: new Date(),
+      ...data,
+    });
+  }
+}
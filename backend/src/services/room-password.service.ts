@@ -0,0 +1,66 @@
+import { Injectable } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { CodeFile } from '../models/code-file.model';
+import { hashRoomPassword, verifyRoomPassword } from '../utils/room-password';
+
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPTS_WINDOW_MS = 15 * 60 * 1000;
+
+export type PasswordCheckResult = 'granted' | 'required' | 'invalid' | 'blocked';
+
+interface FailedAttempts {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Проверка паролей комнат. Неверные попытки считаются по IP общим счетчиком для REST и сокетов,
+ * после MAX_FAILED_ATTEMPTS проверки с этого адреса отклоняются до конца окна.
+ */
+@Injectable()
+export class RoomPasswordService {
+  private failedAttempts = new Map<string, FailedAttempts>();
+
+  async setPassword(room: CodeFile, password: string | null): Promise<void> {
+    await room.update({ passwordHash: password ? await hashRoomPassword(password) : null });
+  }
+
+  async checkPassword(room: CodeFile, password: unknown, ip: string): Promise<PasswordCheckResult> {
+    if (!room.passwordHash) return 'granted';
+    if (this.isBlocked(ip)) return 'blocked';
+    if (typeof password !== 'string' || !password) return 'required';
+
+    if (await verifyRoomPassword(password, room.passwordHash)) {
+      // Счетчик не сбрасывается при успехе: иначе его можно обнулять паролем от своей комнаты
+      return 'granted';
+    }
+
+    this.recordFailure(ip);
+    return this.isBlocked(ip) ? 'blocked' : 'invalid';
+  }
+
+  @Interval(60 * 1000)
+  pruneFailedAttempts() {
+    const now = Date.now();
+    for (const [ip, attempts] of this.failedAttempts) {
+      if (attempts.resetAt <= now) {
+        this.failedAttempts.delete(ip);
+      }
+    }
+  }
+
+  private isBlocked(ip: string): boolean {
+    const attempts = this.failedAttempts.get(ip);
+    return !!attempts && attempts.resetAt > Date.now() && attempts.count >= MAX_FAILED_ATTEMPTS;
+  }
+
+  private recordFailure(ip: string) {
+    const now = Date.now();
+    const attempts = this.failedAttempts.get(ip);
+    if (!attempts || attempts.resetAt <= now) {
+      this.failedAttempts.set(ip, { count: 1, resetAt: now + FAILED_ATTEMPTS_WINDOW_MS });
+    } else {
+      attempts.count++;
+    }
+  }
+}
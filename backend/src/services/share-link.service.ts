@@ -0,0 +1,64 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { validate as isUuid } from 'uuid';
+import { ShareLink } from '../models/share-link.model';
+import { CodeFile, InterviewRole, RoomRole } from '../models/code-file.model';
+import { generateAccessToken, hashAccessToken } from '../utils/access-token';
+
+export interface RoomAccess {
+  role: RoomRole;
+  interviewRole: InterviewRole | null;
+  shareLinkId: string | null;
+}
+
+@Injectable()
+export class ShareLinkService {
+  constructor(
+    @InjectModel(ShareLink)
+    private shareLinkModel: typeof ShareLink,
+  ) {}
+
+  /**
+   * Новая ссылка-приглашение. Токен возвращается один раз, сохраняется только его хеш.
+   */
+  async createShareLink(
+    roomId: string,
+    role: RoomRole,
+    interviewRole: InterviewRole | null = null,
+  ): Promise<{ link: ShareLink; token: string }> {
+    const token = generateAccessToken();
+    const link = await this.shareLinkModel.create({ roomId, role, interviewRole, tokenHash: hashAccessToken(token) });
+    return { link, token };
+  }
+
+  async getShareLinks(roomId: string): Promise<ShareLink[]> {
+    return this.shareLinkModel.findAll({
+      where: { roomId },
+      attributes: ['id', 'roomId', 'role', 'interviewRole', 'createdAt'],
+      order: [['createdAt', 'ASC']],
+    });
+  }
+
+  async deleteShareLink(roomId: string, linkId: string): Promise<boolean> {
+    if (!isUuid(linkId)) return false;
+
+    const deleted = await this.shareLinkModel.destroy({ where: { id: linkId, roomId } });
+    return deleted > 0;
+  }
+
+  /**
+   * Роль участника: по приглашению, если токен действителен, иначе роль комнаты по умолчанию
+   */
+  async resolveAccess(room: CodeFile, inviteToken: unknown): Promise<RoomAccess> {
+    if (typeof inviteToken === 'string' && inviteToken) {
+      const link = await this.shareLinkModel.findOne({
+        where: { roomId: room.id, tokenHash: hashAccessToken(inviteToken) },
+      });
+      if (link) {
+        return { role: link.role, interviewRole: link.interviewRole, shareLinkId: link.id };
+      }
+    }
+
+    return { role: room.defaultRole, interviewRole: null, shareLinkId: null };
+  }
+}
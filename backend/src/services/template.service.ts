@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
+import { RoomTemplate } from '../models/room-template.model';
+import { CodeFile, SyncEngine } from '../models/code-file.model';
+import { CodeService } from './code.service';
+import { BUILT_IN_TEMPLATES, BuiltInTemplate } from '../utils/built-in-templates';
+import { detectLanguage } from '../utils/file-path';
+import { verifyAccessToken } from '../utils/access-token';
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+export const MAX_TEMPLATE_DESCRIPTION_LENGTH = 500;
+// Библиотека общая для всех, поэтому число шаблонов команды ограничено
+export const MAX_TEAM_TEMPLATES = 500;
+
+export type TemplateSource = 'builtin' | 'team';
+
+// Содержимое шаблона одинаково для встроенных и сохраненных командой
+export type TemplateContent = Omit<BuiltInTemplate, 'description'> & { description: string | null };
+
+export interface TemplateSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  language: string;
+  source: TemplateSource;
+  hasProblemStatement: boolean;
+  hasTests: boolean;
+  canDelete: boolean; // Шаблон сохранен из комнаты того, чей токен владельца передан в запросе
+  createdAt: Date | null;
+}
+
+/**
+ * Библиотека шаблонов комнат: встроенные задачи и шаблоны, сохраненные из комнат
+ */
+@Injectable()
+export class TemplateService {
+  constructor(
+    @InjectModel(RoomTemplate)
+    private roomTemplateModel: typeof RoomTemplate,
+    private codeService: CodeService,
+  ) {}
+
+  async listTemplates(ownerToken?: string): Promise<TemplateSummary[]> {
+    const teamTemplates = await this.roomTemplateModel.findAll({ order: [['name', 'ASC']] });
+    return [
+      ...BUILT_IN_TEMPLATES.map(template => toSummary(template, 'builtin', null, false)),
+      ...teamTemplates.map(template => toSummary(
+        template,
+        'team',
+        template.createdAt,
+        this.isTemplateOwner(template, ownerToken),
+      )),
+    ];
+  }
+
+  async getTemplate(id: string): Promise<TemplateContent | null> {
+    const builtIn = BUILT_IN_TEMPLATES.find(template => template.id === id);
+    if (builtIn) return builtIn;
+    if (!isUuid(id)) return null;
+
+    return this.roomTemplateModel.findByPk(id);
+  }
+
+  async getTeamTemplate(id: string): Promise<RoomTemplate | null> {
+    return isUuid(id) ? this.roomTemplateModel.findByPk(id) : null;
+  }
+
+  isTemplateOwner(template: RoomTemplate, ownerToken: unknown): boolean {
+    return verifyAccessToken(ownerToken, template.ownerTokenHash);
+  }
+
+  async isLibraryFull(): Promise<boolean> {
+    return await this.roomTemplateModel.count() >= MAX_TEAM_TEMPLATES;
+  }
+
+  async deleteTemplate(template: RoomTemplate): Promise<void> {
+    await template.destroy();
+  }
+
+  /**
+   * Новая комната с кодом, условием задачи и тестами из шаблона
+   */
+  async createRoomFromTemplate(template: TemplateContent, syncEngine: SyncEngine): Promise<CodeFile> {
+    const room = await this.codeService.createCodeFile(syncEngine, {
+      code: template.code,
+      language: template.language,
+      path: template.path,
+    });
+    if (template.problemStatement) {
+      await this.codeService.setProblemStatement(room, template.problemStatement);
+    }
+    if (template.testsPath && template.tests !== null) {
+      await this.codeService.createRoomEntry(room, template.testsPath, 'file', {
+        code: template.tests,
+        language: detectLanguage(template.testsPath),
+      });
+    }
+    return room;
+  }
+
+  /**
+   * Сохранение основного файла и условия задачи комнаты как шаблона команды.
+   * Файл с тестами, если указан, должен принадлежать этой же комнате. Шаблон запоминает
+   * владельца комнаты, чтобы потом только он мог его удалить.
+   */
+  async saveRoomAsTemplate(
+    room: CodeFile,
+    details: { name: string; description: string | null },
+    testsFile: CodeFile | null,
+  ): Promise<TemplateSummary> {
+    const template = await this.roomTemplateModel.create({
+      id: uuidv4(),
+      name: details.name,
+      description: details.description,
+      language: room.language,
+      path: room.path,
+      code: room.code,
+      problemStatement: room.problemStatement,
+      testsPath: testsFile?.path || null,
+      tests: testsFile ? testsFile.code : null,
+      ownerTokenHash: room.ownerTokenHash,
+    });
+    return toSummary(template, 'team', template.createdAt, true);
+  }
+}
+
+function toSummary(
+  template: TemplateContent,
+  source: TemplateSource,
+  createdAt: Date | null,
+  canDelete: boolean,
+): TemplateSummary {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    language: template.language,
+    source,
+    hasProblemStatement: !!template.problemStatement,
+    hasTests: !!template.testsPath && template.tests !== null,
+    canDelete,
+    createdAt,
+  };
+}
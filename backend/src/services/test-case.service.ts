@@ -0,0 +1,195 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { validate as isUuid } from 'uuid';
+import { TestCase } from '../models/test-case.model';
+import { RunHandle, RunStatus, SourceFile } from '../runners/language-runner';
+import { CodeRunnerService } from './code-runner.service';
+
+export const MAX_TEST_CASES = 30;
+export const MAX_TEST_CASE_LENGTH = 64 * 1024;
+// Вывод программы в результатах теста, остальное обрезается
+const MAX_RESULT_OUTPUT_LENGTH = 4000;
+
+export interface TestCaseInput {
+  input: string;
+  expectedOutput: string;
+  isHidden: boolean;
+}
+
+// Тест в том виде, в котором его получает участник: у скрытых тестов без прав нет содержимого
+export interface TestCaseView {
+  id: string;
+  position: number;
+  isHidden: boolean;
+  input?: string;
+  expectedOutput?: string;
+}
+
+export interface TestCaseResult {
+  testId: string;
+  passed: boolean;
+  status: RunStatus;
+  durationMs: number;
+  actualOutput?: string;
+  errorOutput?: string;
+}
+
+export type TestRunStatus = 'completed' | 'stopped' | 'error';
+
+export interface TestRunSummary {
+  status: TestRunStatus;
+  passed: number;
+  total: number;
+}
+
+export interface TestRunHandle {
+  result: Promise<TestRunSummary>;
+  stop: () => void;
+}
+
+/**
+ * Тесты задачи комнаты и их прогон: каждый тест - отдельный запуск программы
+ * с вводом теста на stdin и сравнением stdout с ожидаемым выводом
+ */
+@Injectable()
+export class TestCaseService {
+  constructor(
+    @InjectModel(TestCase)
+    private testCaseModel: typeof TestCase,
+    private codeRunnerService: CodeRunnerService,
+  ) {}
+
+  async getTestCases(roomId: string): Promise<TestCase[]> {
+    return this.testCaseModel.findAll({ where: { roomId }, order: [['position', 'ASC'], ['createdAt', 'ASC']] });
+  }
+
+  /**
+   * Новый тест в конец списка. null - в комнате уже максимум тестов
+   */
+  async createTestCase(roomId: string, data: TestCaseInput): Promise<TestCase | null> {
+    const testCases = await this.getTestCases(roomId);
+    if (testCases.length >= MAX_TEST_CASES) return null;
+
+    const position = testCases.reduce((max, testCase) => Math.max(max, testCase.position + 1), 0);
+    return this.testCaseModel.create({ roomId, ...data, position });
+  }
+
+  async updateTestCase(roomId: string, testId: string, data: TestCaseInput): Promise<TestCase | null> {
+    if (!isUuid(testId)) return null;
+
+    const testCase = await this.testCaseModel.findOne({ where: { id: testId, roomId } });
+    if (!testCase) return null;
+
+    await testCase.update(data);
+    return testCase;
+  }
+
+  async deleteTestCase(roomId: string, testId: string): Promise<boolean> {
+    if (!isUuid(testId)) return false;
+
+    const deleted = await this.testCaseModel.destroy({ where: { id: testId, roomId } });
+    return deleted > 0;
+  }
+
+  toView(testCase: TestCase, canSeeHidden: boolean): TestCaseView {
+    const view: TestCaseView = { id: testCase.id, position: testCase.position, isHidden: testCase.isHidden };
+    if (!testCase.isHidden || canSeeHidden) {
+      view.input = testCase.input;
+      view.expectedOutput = testCase.expectedOutput;
+    }
+    return view;
+  }
+
+  /**
+   * Результат скрытого теста без вывода программы: по нему можно было бы восстановить ожидаемый ответ
+   */
+  toPublicResult(result: TestCaseResult, testCase: TestCase): TestCaseResult {
+    if (!testCase.isHidden) return result;
+
+    const { actualOutput, errorOutput, ...rest } = result;
+    return rest;
+  }
+
+  /**
+   * Последовательный прогон тестов. Результат каждого теста передается сразу после его завершения,
+   * остановка прерывает текущий запуск и пропускает оставшиеся тесты
+   */
+  runTestCases(
+    files: SourceFile[],
+    entryPath: string,
+    testCases: TestCase[],
+    onResult: (result: TestCaseResult, testCase: TestCase) => void,
+  ): TestRunHandle {
+    let isStopped = false;
+    let currentRun: RunHandle | null = null;
+
+    const result = (async (): Promise<TestRunSummary> => {
+      let passed = 0;
+      for (const testCase of testCases) {
+        if (isStopped) break;
+
+        let stdout = '';
+        let stderr = '';
+        currentRun = await this.codeRunnerService.run(
+          { files, entryPath, stdin: testCase.input },
+          (stream, text) => {
+            if (stream === 'stdout') stdout += text;
+            else stderr += text;
+          },
+        );
+        // Остановку могли запросить, пока готовился запуск
+        if (isStopped) currentRun.stop();
+
+        const run = await currentRun.result;
+        currentRun = null;
+        if (run.status === 'stopped') break;
+
+        const isPassed = run.status === 'success' && normalizeOutput(stdout) === normalizeOutput(testCase.expectedOutput);
+        if (isPassed) passed++;
+        onResult({
+          testId: testCase.id,
+          passed: isPassed,
+          status: run.status,
+          durationMs: run.durationMs,
+          actualOutput: stdout.slice(0, MAX_RESULT_OUTPUT_LENGTH),
+          errorOutput: stderr.slice(0, MAX_RESULT_OUTPUT_LENGTH),
+        }, testCase);
+      }
+      return { status: isStopped ? 'stopped' : 'completed', passed, total: testCases.length };
+    })();
+
+    return {
+      result,
+      stop: () => {
+        isStopped = true;
+        currentRun?.stop();
+      },
+    };
+  }
+}
+
+/**
+ * Проверка теста от клиента: ввод и ожидаемый вывод - строки ограниченной длины
+ */
+export function parseTestCaseInput(value: unknown): TestCaseInput | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { input, expectedOutput, isHidden } = value as { input?: unknown; expectedOutput?: unknown; isHidden?: unknown };
+  const isValidText = (text: unknown): text is string => typeof text === 'string' && text.length <= MAX_TEST_CASE_LENGTH;
+  if (!isValidText(input) || !isValidText(expectedOutput)) return null;
+  if (isHidden !== undefined && typeof isHidden !== 'boolean') return null;
+
+  return { input, expectedOutput, isHidden: Boolean(isHidden) };
+}
+
+/**
+ * Вывод сравнивается без учета пробелов в конце строк, завершающих пустых строк и вида переводов строк
+ */
+function normalizeOutput(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trimEnd();
+}
@@ -0,0 +1,21 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Секретные токены доступа к комнате (токен владельца, ссылки-приглашения).
+ * Токен выдается один раз, в базе хранится только хеш.
+ */
+export function generateAccessToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+export function hashAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyAccessToken(token: unknown, hash: string | null | undefined): boolean {
+  if (typeof token !== 'string' || !token || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashAccessToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,118 @@
+export const BUILT_IN_TEMPLATE_PREFIX = 'builtin:';
+
+export interface BuiltInTemplate {
+  id: string;
+  name: string;
+  description: string;
+  language: string;
+  path: string;
+  code: string;
+  problemStatement: string | null;
+  testsPath: string | null;
+  tests: string | null;
+}
+
+/**
+ * Шаблоны, доступные всегда. Идентификаторы с префиксом builtin: не пересекаются с UUID шаблонов команды
+ */
+export const BUILT_IN_TEMPLATES: BuiltInTemplate[] = [
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}two-sum`,
+    name: 'Two Sum',
+    description: 'Классическая задача на хеш-таблицу',
+    language: 'typescript',
+    path: 'solution.ts',
+    code: [
+      'export function twoSum(nums: number[], target: number): [number, number] {',
+      '  // TODO',
+      '  return [-1, -1];',
+      '}',
+      '',
+    ].join('\n'),
+    problemStatement: [
+      '# Two Sum',
+      '',
+      'Дан массив целых чисел `nums` и число `target`. Верните индексы двух элементов,',
+      'сумма которых равна `target`.',
+      '',
+      '## Пример',
+      '',
+      '```',
+      'twoSum([2, 7, 11, 15], 9) // [0, 1]',
+      '```',
+      '',
+      '## Ограничения',
+      '',
+      '- Ровно одно решение',
+      '- Один элемент нельзя использовать дважды',
+      '- Ожидаемая сложность: **O(n)**',
+    ].join('\n'),
+    testsPath: 'solution.test.ts',
+    tests: [
+      "import { twoSum } from './solution';",
+      '',
+      'console.assert(JSON.stringify(twoSum([2, 7, 11, 15], 9)) === JSON.stringify([0, 1]));',
+      'console.assert(JSON.stringify(twoSum([3, 2, 4], 6)) === JSON.stringify([1, 2]));',
+      'console.assert(JSON.stringify(twoSum([3, 3], 6)) === JSON.stringify([0, 1]));',
+      '',
+    ].join('\n'),
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}fizzbuzz`,
+    name: 'FizzBuzz',
+    description: 'Разминка на JavaScript',
+    language: 'javascript',
+    path: 'fizzbuzz.js',
+    code: [
+      'function fizzBuzz(n) {',
+      '  // TODO',
+      '}',
+      '',
+      'fizzBuzz(15);',
+      '',
+    ].join('\n'),
+    problemStatement: [
+      '# FizzBuzz',
+      '',
+      'Выведите числа от 1 до `n`. Вместо чисел, кратных трем, выведите `Fizz`,',
+      'кратных пяти - `Buzz`, кратных и трем, и пяти - `FizzBuzz`.',
+    ].join('\n'),
+    testsPath: null,
+    tests: null,
+  },
+  {
+    id: `${BUILT_IN_TEMPLATE_PREFIX}valid-parentheses`,
+    name: 'Valid Parentheses',
+    description: 'Задача на стек, Python',
+    language: 'python',
+    path: 'solution.py',
+    code: [
+      'def is_valid(s: str) -> bool:',
+      '    # TODO',
+      '    return False',
+      '',
+    ].join('\n'),
+    problemStatement: [
+      '# Valid Parentheses',
+      '',
+      'Строка `s` состоит из символов `()[]{}`. Определите, правильно ли расставлены скобки:',
+      'каждая открывающая закрыта скобкой того же типа и в правильном порядке.',
+      '',
+      '## Примеры',
+      '',
+      '- `"()[]{}"` → `True`',
+      '- `"(]"` → `False`',
+      '- `"([)]"` → `False`',
+    ].join('\n'),
+    testsPath: 'test_solution.py',
+    tests: [
+      'from solution import is_valid',
+      '',
+      'assert is_valid("()[]{}")',
+      'assert not is_valid("(]")',
+      'assert not is_valid("([)]")',
+      'assert is_valid("{[]}")',
+      '',
+    ].join('\n'),
+  },
+];
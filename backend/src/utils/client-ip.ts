@@ -0,0 +1,21 @@
+// За прокси (Railway и т.п.) адрес клиента приходит в X-Forwarded-For. Доверять заголовку можно,
+// только если прокси точно есть, иначе его подделает сам клиент
+const TRUST_PROXY = process.env.TRUST_PROXY
+  ? process.env.TRUST_PROXY === 'true'
+  : process.env.NODE_ENV === 'production';
+
+/**
+ * IP клиента для HTTP запроса или handshake сокета. Берется последний адрес из X-Forwarded-For -
+ * его добавил ближайший прокси, а начало списка клиент может прислать сам.
+ */
+export function getClientIp(forwardedFor: string | string[] | undefined, remoteAddress: string | undefined): string {
+  const header = Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor;
+  if (TRUST_PROXY && header) {
+    const addresses = header.split(',').map(address => address.trim()).filter(Boolean);
+    if (addresses.length > 0) {
+      return addresses[addresses.length - 1];
+    }
+  }
+
+  return remoteAddress || 'unknown';
+}
@@ -0,0 +1,116 @@
+/**
+ * Тесты CRDT документа и проверки операций от клиентов
+ */
+
+import {
+  CrdtDocument,
+  CrdtOperation,
+  isValidCrdtOperationList,
+  MAX_CRDT_OPERATIONS_PER_MESSAGE,
+  SERVER_CLIENT_ID,
+} from './crdt-document';
+
+describe('CRDT document', () => {
+  test('local edits change the visible text', () => {
+    const document = CrdtDocument.fromText('hello', 'a');
+    document.localInsert(5, ' world');
+    document.localDelete(0, 1);
+    document.localInsert(0, 'H');
+
+    expect(document.getText()).toBe('Hello world');
+    // Удаленный символ остается надгробием
+    expect(document.size).toBe(12);
+  });
+
+  test('concurrent inserts converge in any order', () => {
+    const base = CrdtDocument.fromText('ac', SERVER_CLIENT_ID).toState();
+    const alice = CrdtDocument.fromState(base, 'alice');
+    const bob = CrdtDocument.fromState(base, 'bob');
+
+    const fromAlice = alice.localInsert(1, 'X');
+    const fromBob = bob.localInsert(1, 'Y');
+    alice.applyRemote(fromBob);
+    bob.applyRemote(fromAlice);
+
+    expect(alice.getText()).toBe(bob.getText());
+    expect(alice.getText()).toHaveLength(4);
+  });
+
+  test('repeated operations are ignored', () => {
+    const source = new CrdtDocument('a');
+    const operations = source.localInsert(0, 'abc');
+    const target = new CrdtDocument('b');
+
+    expect(target.applyRemote(operations)).toBe(true);
+    expect(target.applyRemote(operations)).toBe(false);
+    expect(target.getText()).toBe('abc');
+  });
+
+  test('state survives serialization', () => {
+    const document = CrdtDocument.fromText('text', 'a');
+    document.localDelete(1, 2);
+    const restored = CrdtDocument.fromState(document.toState(), 'b');
+
+    expect(restored.getText()).toBe('tt');
+    expect(restored.size).toBe(document.size);
+  });
+
+  test('compaction keeps the text and never reuses ids', () => {
+    const document = CrdtDocument.fromText('abc', SERVER_CLIENT_ID);
+    document.localDelete(0, 1);
+    const compacted = document.compacted();
+
+    expect(compacted.getText()).toBe('bc');
+    expect(compacted.size).toBe(2);
+    // Операция по старому документу не должна попасть в другой символ нового
+    expect(compacted.hasDependencies([{ type: 'delete', id: { client: SERVER_CLIENT_ID, clock: 2 } }])).toBe(false);
+  });
+
+  test('operations must reference known characters', () => {
+    const server = CrdtDocument.fromText('ab', SERVER_CLIENT_ID);
+    const client = CrdtDocument.fromState(server.toState(), 'client');
+    const chained = client.localInsert(2, 'cd');
+
+    expect(server.hasDependencies(chained)).toBe(true);
+    expect(server.hasDependencies([
+      { type: 'insert', id: { client: 'client', clock: 10 }, origin: { client: 'other', clock: 1 }, value: 'x' },
+    ])).toBe(false);
+    expect(server.hasDependencies([{ type: 'delete', id: { client: 'other', clock: 1 } }])).toBe(false);
+  });
+});
+
+describe('CRDT operation validation', () => {
+  const insert = (client: string, clock: number): CrdtOperation => ({
+    type: 'insert',
+    id: { client, clock },
+    origin: null,
+    value: 'a',
+  });
+
+  test('accepts well-formed operations', () => {
+    expect(isValidCrdtOperationList([
+      insert('client', 1),
+      { type: 'insert', id: { client: 'client', clock: 2 }, origin: { client: 'client', clock: 1 }, value: 'b' },
+      { type: 'delete', id: { client: SERVER_CLIENT_ID, clock: 1 } },
+    ])).toBe(true);
+  });
+
+  test('rejects inserts on behalf of the server', () => {
+    expect(isValidCrdtOperationList([insert(SERVER_CLIENT_ID, 1)])).toBe(false);
+  });
+
+  test('rejects malformed ids and values', () => {
+    expect(isValidCrdtOperationList(null)).toBe(false);
+    expect(isValidCrdtOperationList([insert('', 1)])).toBe(false);
+    expect(isValidCrdtOperationList([insert('client', 0)])).toBe(false);
+    expect(isValidCrdtOperationList([{ type: 'delete', id: 'client' }])).toBe(false);
+    expect(isValidCrdtOperationList([{ ...insert('client', 1), value: 'ab' }])).toBe(false);
+  });
+
+  test('limits the number of operations per message', () => {
+    const operations = Array.from({ length: MAX_CRDT_OPERATIONS_PER_MESSAGE + 1 }, (_, index) => insert('client', index + 1));
+
+    expect(isValidCrdtOperationList(operations)).toBe(false);
+    expect(isValidCrdtOperationList(operations.slice(1))).toBe(true);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Последовательный CRDT (RGA) для текстового документа.
+ * Каждый символ получает уникальный идентификатор (часы Лэмпорта + ID клиента)
+ * и ссылку на символ, после которого он был вставлен. Удаленные символы
+ * остаются в документе как "надгробия", поэтому операции от разных клиентов
+ * можно применять в любом порядке и повторно - результат будет одинаковым.
+ */
+
+export interface CrdtId {
+  client: string;
+  clock: number;
+}
+
+export interface CrdtInsertOperation {
+  type: 'insert';
+  id: CrdtId;
+  origin: CrdtId | null;
+  value: string;
+}
+
+export interface CrdtDeleteOperation {
+  type: 'delete';
+  id: CrdtId;
+}
+
+export type CrdtOperation = CrdtInsertOperation | CrdtDeleteOperation;
+
+interface CrdtElement {
+  id: CrdtId;
+  origin: CrdtId | null;
+  value: string;
+  deleted: boolean;
+}
+
+// Компактный формат хранения: [клиент, часы, клиент origin (-1 если нет), часы origin, символ, удален]
+type SerializedElement = [number, number, number, number, string, 0 | 1];
+
+export interface SerializedCrdtState {
+  clients: string[];
+  elements: SerializedElement[];
+}
+
+// ID клиента, от имени которого документ меняет сам сервер. Клиентам он недоступен
+export const SERVER_CLIENT_ID = 'server';
+// Предел числа символов документа вместе с надгробиями: состояние хранится в базе целиком
+export const MAX_CRDT_DOCUMENT_SIZE = 200000;
+
+const idKey = (id: CrdtId) => `${id.clock}@${id.client}`;
+
+/**
+ * Порядок идентификаторов: больший clock важнее, при равенстве сравниваются ID клиентов
+ */
+function compareIds(a: CrdtId, b: CrdtId): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  if (a.client === b.client) {
+    return 0;
+  }
+  return a.client > b.client ? 1 : -1;
+}
+
+export class CrdtDocument {
+  private elements: CrdtElement[] = [];
+  private elementsByKey = new Map<string, CrdtElement>();
+  private clock = 0;
+  private lastIndex = -1;
+
+  constructor(readonly clientId: string) {}
+
+  static fromState(state: SerializedCrdtState | null | undefined, clientId: string): CrdtDocument {
+    const document = new CrdtDocument(clientId);
+    if (!state) {
+      return document;
+    }
+
+    state.elements.forEach(([client, clock, originClient, originClock, value, deleted]) => {
+      const element: CrdtElement = {
+        id: { client: state.clients[client], clock },
+        origin: originClient >= 0 ? { client: state.clients[originClient], clock: originClock } : null,
+        value,
+        deleted: deleted === 1,
+      };
+      document.elements.push(element);
+      document.elementsByKey.set(idKey(element.id), element);
+      document.clock = Math.max(document.clock, clock);
+    });
+
+    return document;
+  }
+
+  /**
+   * Документ с начальным текстом, например при переводе существующей комнаты в CRDT режим.
+   * Пересобранный документ продолжает часы прежнего (startClock), чтобы идентификаторы
+   * новых символов не совпали со старыми и операции по старому документу не попали не туда
+   */
+  static fromText(text: string, clientId: string, startClock = 0): CrdtDocument {
+    const document = new CrdtDocument(clientId);
+    document.clock = startClock;
+    document.localInsert(0, text);
+    return document;
+  }
+
+  toState(): SerializedCrdtState {
+    const clients: string[] = [];
+    const clientIndexes = new Map<string, number>();
+    const clientIndex = (client: string) => {
+      if (!clientIndexes.has(client)) {
+        clientIndexes.set(client, clients.length);
+        clients.push(client);
+      }
+      return clientIndexes.get(client)!;
+    };
+
+    const elements = this.elements.map((element): SerializedElement => [
+      clientIndex(element.id.client),
+      element.id.clock,
+      element.origin ? clientIndex(element.origin.client) : -1,
+      element.origin ? element.origin.clock : 0,
+      element.value,
+      element.deleted ? 1 : 0,
+    ]);
+
+    return { clients, elements };
+  }
+
+  // Число символов вместе с надгробиями
+  get size(): number {
+    return this.elements.length;
+  }
+
+  // Наибольшее значение часов среди известных документу операций
+  get lastClock(): number {
+    return this.clock;
+  }
+
+  /**
+   * Тот же видимый текст без надгробий. Идентификаторы всех символов новые
+   */
+  compacted(): CrdtDocument {
+    return CrdtDocument.fromText(this.getText(), this.clientId, this.clock);
+  }
+
+  getText(): string {
+    let text = '';
+    this.elements.forEach(element => {
+      if (!element.deleted) {
+        text += element.value;
+      }
+    });
+    return text;
+  }
+
+  /**
+   * Локальная вставка текста в видимую позицию
+   */
+  localInsert(position: number, text: string): CrdtOperation[] {
+    const operations: CrdtOperation[] = [];
+    let origin = position > 0 ? this.visibleElementAt(position - 1)?.id ?? null : null;
+
+    // Один элемент на одну UTF-16 единицу, чтобы позиции совпадали с позициями в строке
+    for (let i = 0; i < text.length; i++) {
+      const operation: CrdtInsertOperation = {
+        type: 'insert',
+        id: { client: this.clientId, clock: this.clock + 1 },
+        origin,
+        value: text[i],
+      };
+      this.applyOperation(operation);
+      operations.push(operation);
+      origin = operation.id;
+    }
+
+    return operations;
+  }
+
+  /**
+   * Локальное удаление length видимых символов начиная с позиции
+   */
+  localDelete(position: number, length: number): CrdtOperation[] {
+    const operations: CrdtOperation[] = [];
+    let visibleIndex = 0;
+
+    for (const element of this.elements) {
+      if (element.deleted) continue;
+      if (visibleIndex >= position + length) break;
+      if (visibleIndex >= position) {
+        operations.push({ type: 'delete', id: element.id });
+      }
+      visibleIndex++;
+    }
+
+    operations.forEach(operation => this.applyOperation(operation));
+    return operations;
+  }
+
+  /**
+   * Все ли символы, на которые ссылаются операции, уже есть в документе или вставляются
+   * раньше в том же пакете. Клиент строит операции по документу, полученному от сервера,
+   * поэтому неизвестная ссылка означает, что его копия устарела
+   */
+  hasDependencies(operations: CrdtOperation[]): boolean {
+    const inserted = new Set<string>();
+    return operations.every(operation => {
+      const target = operation.type === 'insert' ? operation.origin : operation.id;
+      const known = !target || this.elementsByKey.has(idKey(target)) || inserted.has(idKey(target));
+      if (operation.type === 'insert') {
+        inserted.add(idKey(operation.id));
+      }
+      return known;
+    });
+  }
+
+  /**
+   * Применение операций от других клиентов. Повторно полученные операции игнорируются,
+   * зависимости операций проверяет вызывающий (hasDependencies).
+   * Возвращает true, если видимый текст мог измениться.
+   */
+  applyRemote(operations: CrdtOperation[]): boolean {
+    let changed = false;
+    operations.forEach(operation => {
+      if (this.applyOperation(operation)) {
+        changed = true;
+      }
+    });
+    return changed;
+  }
+
+  private applyOperation(operation: CrdtOperation): boolean {
+    this.clock = Math.max(this.clock, operation.id.clock);
+
+    if (operation.type === 'delete') {
+      const element = this.elementsByKey.get(idKey(operation.id));
+      if (!element || element.deleted) {
+        return false;
+      }
+      element.deleted = true;
+      return true;
+    }
+
+    if (this.elementsByKey.has(idKey(operation.id))) {
+      return false;
+    }
+
+    let index = 0;
+    if (operation.origin) {
+      const originIndex = this.indexOf(operation.origin);
+      if (originIndex < 0) {
+        return false;
+      }
+      index = originIndex + 1;
+    }
+
+    // Пропускаем параллельные вставки после того же символа с большим приоритетом
+    // (и все, что было вставлено после них - у таких символов приоритет еще выше)
+    while (index < this.elements.length && compareIds(this.elements[index].id, operation.id) > 0) {
+      index++;
+    }
+
+    const element: CrdtElement = {
+      id: operation.id,
+      origin: operation.origin,
+      value: operation.value,
+      deleted: false,
+    };
+    this.elements.splice(index, 0, element);
+    this.elementsByKey.set(idKey(element.id), element);
+    this.lastIndex = index;
+    return true;
+  }
+
+  private indexOf(id: CrdtId): number {
+    // Последовательные вставки обычно ссылаются на только что вставленный символ
+    const last = this.elements[this.lastIndex];
+    if (last && compareIds(last.id, id) === 0) {
+      return this.lastIndex;
+    }
+    return this.elements.findIndex(element => compareIds(element.id, id) === 0);
+  }
+
+  private visibleElementAt(position: number): CrdtElement | undefined {
+    let visibleIndex = 0;
+    for (const element of this.elements) {
+      if (element.deleted) continue;
+      if (visibleIndex === position) {
+        return element;
+      }
+      visibleIndex++;
+    }
+    return undefined;
+  }
+}
+
+// Больше операций клиент разбивает на несколько сообщений
+export const MAX_CRDT_OPERATIONS_PER_MESSAGE = 1000;
+
+function isValidId(id: unknown): id is CrdtId {
+  if (!id || typeof id !== 'object') return false;
+  const { client, clock } = id as Partial<CrdtId>;
+  return typeof client === 'string' && client.length > 0 && client.length <= 64 &&
+    Number.isInteger(clock) && clock! > 0;
+}
+
+/**
+ * Проверка структуры CRDT операций, пришедших от клиента. Вставлять символы от имени
+ * сервера клиент не может, ссылаться на вставленные сервером - может
+ */
+export function isValidCrdtOperationList(operations: unknown): operations is CrdtOperation[] {
+  if (!Array.isArray(operations) || operations.length > MAX_CRDT_OPERATIONS_PER_MESSAGE) {
+    return false;
+  }
+
+  return operations.every(op => {
+    if (!op || !isValidId(op.id)) return false;
+    if (op.type === 'insert' && op.id.client === SERVER_CLIENT_ID) return false;
+    if (op.type === 'delete') return true;
+    return op.type === 'insert' &&
+      (op.origin === null || isValidId(op.origin)) &&
+      typeof op.value === 'string' && op.value.length === 1;
+  });
+}
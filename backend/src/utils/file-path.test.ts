@@ -0,0 +1,50 @@
+/**
+ * Тесты проверки путей файлов комнаты
+ */
+
+import { MAX_PATH_LENGTH, missingParentFolders, normalizePath, parentFolders, PathEntry } from './file-path';
+
+describe('Path normalization', () => {
+  test.each([
+    ['main.py', 'main.py'],
+    ['  src/app.ts ', 'src/app.ts'],
+    ['/src//utils/', 'src/utils'],
+    ['src\\utils\\index.js', 'src/utils/index.js'],
+    ['my file-1.txt', 'my file-1.txt'],
+  ])('%j becomes %j', (path, expected) => {
+    expect(normalizePath(path)).toBe(expected);
+  });
+
+  test.each([
+    [''],
+    ['/'],
+    ['../secret'],
+    ['src/../../etc/passwd'],
+    ['./main.py'],
+    ['src/ app.ts'],
+    ['src/app$.ts'],
+  ])('%j is rejected', path => {
+    expect(normalizePath(path)).toBeNull();
+  });
+
+  test('rejects non-string and too long paths', () => {
+    expect(normalizePath(null)).toBeNull();
+    expect(normalizePath(42)).toBeNull();
+    expect(normalizePath('a'.repeat(MAX_PATH_LENGTH))).toBe('a'.repeat(MAX_PATH_LENGTH));
+    expect(normalizePath('a'.repeat(MAX_PATH_LENGTH + 1))).toBeNull();
+  });
+});
+
+describe('Parent folders', () => {
+  const entries: PathEntry[] = [{ id: '1', path: 'src', entryType: 'folder' }];
+
+  test('lists every folder on the way to the entry', () => {
+    expect(parentFolders('src/utils/index.ts')).toEqual(['src', 'src/utils']);
+    expect(parentFolders('main.py')).toEqual([]);
+  });
+
+  test('skips folders that already exist', () => {
+    expect(missingParentFolders(entries, 'src/utils/index.ts')).toEqual(['src/utils']);
+    expect(missingParentFolders(entries, 'src/index.ts')).toEqual([]);
+  });
+});
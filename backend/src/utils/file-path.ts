@@ -0,0 +1,123 @@
+export const MAX_PATH_LENGTH = 255;
+export const MAX_ROOM_ENTRIES = 200;
+
+const PATH_SEGMENT_PATTERN = /^[\w\-. ]+$/;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  java: 'java',
+  cpp: 'cpp',
+  cc: 'cpp',
+  h: 'cpp',
+  hpp: 'cpp',
+  css: 'css',
+  html: 'html',
+  htm: 'html',
+  json: 'json',
+  md: 'markdown',
+};
+
+// Основное расширение для языка, выбранного в редакторе
+const EXTENSION_BY_LANGUAGE: Record<string, string> = {
+  javascript: 'js',
+  typescript: 'ts',
+  python: 'py',
+  java: 'java',
+  cpp: 'cpp',
+  css: 'css',
+  html: 'html',
+  json: 'json',
+  markdown: 'md',
+  plaintext: 'txt',
+};
+
+export interface PathEntry {
+  id: string;
+  path: string;
+  entryType: 'file' | 'folder';
+}
+
+/**
+ * Приведение пути к виду a/b/c.ts. Возвращает null для недопустимых путей
+ * (пустые сегменты, выход за пределы комнаты, спецсимволы).
+ */
+export function normalizePath(path: unknown): string | null {
+  if (typeof path !== 'string') return null;
+
+  const segments = path.trim().replace(/\\/g, '/').split('/').filter(segment => segment.length > 0);
+  if (segments.length === 0) return null;
+
+  const isValid = segments.every(segment =>
+    segment !== '.' && segment !== '..' && segment.trim() === segment && PATH_SEGMENT_PATTERN.test(segment),
+  );
+  if (!isValid) return null;
+
+  const normalized = segments.join('/');
+  return normalized.length <= MAX_PATH_LENGTH ? normalized : null;
+}
+
+export function detectLanguage(path: string): string {
+  const name = path.split('/').pop() || '';
+  const dotIndex = name.lastIndexOf('.');
+  const extension = dotIndex > 0 ? name.slice(dotIndex + 1).toLowerCase() : '';
+  return LANGUAGE_BY_EXTENSION[extension] || 'plaintext';
+}
+
+/**
+ * Путь с расширением, соответствующим языку файла (язык мог быть выбран вручную)
+ */
+export function withLanguageExtension(path: string, language: string): string {
+  const extension = EXTENSION_BY_LANGUAGE[language];
+  if (!extension || detectLanguage(path) === language) return path;
+
+  const slashIndex = path.lastIndexOf('/');
+  const dotIndex = path.lastIndexOf('.');
+  const base = dotIndex > slashIndex + 1 ? path.slice(0, dotIndex) : path;
+  return `${base}.${extension}`;
+}
+
+export function isInsideFolder(path: string, folderPath: string): boolean {
+  return path.startsWith(`${folderPath}/`);
+}
+
+/**
+ * Проверка, что запись можно разместить по пути path: путь не занят,
+ * ни один из родительских сегментов не является файлом, а файл не перекрывает содержимое папки.
+ * ignoreIds - записи, которые перемещаются вместе (сама запись и содержимое папки).
+ */
+export function hasPathConflict(
+  entries: PathEntry[],
+  path: string,
+  entryType: 'file' | 'folder',
+  ignoreIds: Set<string> = new Set(),
+): boolean {
+  return entries.some(entry => {
+    if (ignoreIds.has(entry.id)) return false;
+    if (entry.path === path) return true;
+    if (entry.entryType === 'file' && isInsideFolder(path, entry.path)) return true;
+    return entryType === 'file' && isInsideFolder(entry.path, path);
+  });
+}
+
+/**
+ * Все папки на пути к записи: для a/b/c.ts - a и a/b
+ */
+export function parentFolders(path: string): string[] {
+  const segments = path.split('/').slice(0, -1);
+  return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+}
+
+/**
+ * Папки на пути к записи, которых еще нет в комнате. Сервер создает их вместе с записью,
+ * поэтому они учитываются в пределе MAX_ROOM_ENTRIES
+ */
+export function missingParentFolders(entries: PathEntry[], path: string): string[] {
+  const existing = new Set(entries.map(entry => entry.path));
+  return parentFolders(path).filter(folder => !existing.has(folder));
+}
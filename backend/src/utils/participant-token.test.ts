@@ -0,0 +1,23 @@
+/**
+ * Тесты токенов участников комнаты
+ */
+
+import { issueParticipantToken, verifyParticipantToken } from './participant-token';
+
+describe('Participant token', () => {
+  test('returns the participant id for a token of the same room', () => {
+    const token = issueParticipantToken('room-1', 'participant-1');
+
+    expect(verifyParticipantToken('room-1', token)).toBe('participant-1');
+  });
+
+  test('rejects tokens of other rooms and forged ids', () => {
+    const token = issueParticipantToken('room-1', 'participant-1');
+    const signature = token.slice(token.lastIndexOf('.') + 1);
+
+    expect(verifyParticipantToken('room-2', token)).toBeNull();
+    expect(verifyParticipantToken('room-1', `participant-2.${signature}`)).toBeNull();
+    expect(verifyParticipantToken('room-1', 'participant-1')).toBeNull();
+    expect(verifyParticipantToken('room-1', undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Без PARTICIPANT_TOKEN_SECRET ключ живет до перезапуска сервера: после него выданные
+// токены перестают действовать и участники получают новые идентификаторы
+const SECRET = process.env.PARTICIPANT_TOKEN_SECRET || randomBytes(32).toString('hex');
+
+function sign(roomId: string, participantId: string): string {
+  return createHmac('sha256', SECRET).update(`${roomId}:${participantId}`).digest('hex');
+}
+
+/**
+ * Токен участника комнаты выдает сервер при входе, клиент предъявляет его при следующих
+ * входах. По идентификатору из токена работают бан и вход в закрытую комнату: подписать
+ * чужой или выдуманный идентификатор без ключа сервера нельзя.
+ */
+export function issueParticipantToken(roomId: string, participantId: string): string {
+  return `${participantId}.${sign(roomId, participantId)}`;
+}
+
+// Идентификатор участника, если токен выдан этим сервером для этой комнаты
+export function verifyParticipantToken(roomId: string, token: unknown): string | null {
+  if (typeof token !== 'string') return null;
+
+  const separator = token.lastIndexOf('.');
+  const participantId = token.slice(0, separator);
+  if (separator <= 0 || participantId.length > 64) return null;
+
+  const expected = Buffer.from(sign(roomId, participantId), 'hex');
+  const actual = Buffer.from(token.slice(separator + 1), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? participantId : null;
+}
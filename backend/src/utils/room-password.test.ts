@@ -0,0 +1,29 @@
+/**
+ * Тесты хеширования пароля комнаты
+ */
+
+import { hashRoomPassword, MAX_ROOM_PASSWORD_LENGTH, verifyRoomPassword } from './room-password';
+
+describe('Room password', () => {
+  test('hash verifies only the original password', async () => {
+    const stored = await hashRoomPassword('secret');
+
+    expect(stored).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    await expect(verifyRoomPassword('secret', stored)).resolves.toBe(true);
+    await expect(verifyRoomPassword('Secret', stored)).resolves.toBe(false);
+  });
+
+  test('same password gets a different salt each time', async () => {
+    expect(await hashRoomPassword('secret')).not.toBe(await hashRoomPassword('secret'));
+  });
+
+  test('rejects missing or malformed input', async () => {
+    const stored = await hashRoomPassword('secret');
+
+    await expect(verifyRoomPassword(undefined, stored)).resolves.toBe(false);
+    await expect(verifyRoomPassword('', stored)).resolves.toBe(false);
+    await expect(verifyRoomPassword('secret', null)).resolves.toBe(false);
+    await expect(verifyRoomPassword('secret', 'plain$secret')).resolves.toBe(false);
+    await expect(verifyRoomPassword('a'.repeat(MAX_ROOM_PASSWORD_LENGTH + 1), stored)).resolves.toBe(false);
+  });
+});
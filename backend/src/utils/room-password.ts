@@ -0,0 +1,32 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+export const MIN_ROOM_PASSWORD_LENGTH = 4;
+export const MAX_ROOM_PASSWORD_LENGTH = 128;
+
+/**
+ * Пароль комнаты придумывает человек, поэтому, в отличие от токенов доступа,
+ * он хешируется медленным scrypt с солью. Формат: scrypt$<соль>$<хеш>
+ */
+export async function hashRoomPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyRoomPassword(password: unknown, stored: string | null | undefined): Promise<boolean> {
+  if (typeof password !== 'string' || !password || !stored) return false;
+  if (password.length > MAX_ROOM_PASSWORD_LENGTH) return false;
+
+  const [scheme, saltHex, keyHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,126 @@
+/**
+ * Тесты операций редактирования и их трансформации
+ */
+
+import {
+  applyOperations,
+  diffToOperations,
+  hashText,
+  isValidOperationList,
+  isWellFormedOperationList,
+  TextOperation,
+  transformOperations,
+  transformPosition,
+} from './text-operation';
+
+const insert = (position: number, content: string): TextOperation => ({
+  type: 'insert',
+  position,
+  length: content.length,
+  content,
+});
+
+const del = (position: number, length: number): TextOperation => ({ type: 'delete', position, length });
+
+/**
+ * Обе стороны должны прийти к одному тексту: apply(apply(doc, a), b') === apply(apply(doc, b), a')
+ */
+const expectConverges = (doc: string, a: TextOperation[], b: TextOperation[]) => {
+  const [aPrime, bPrime] = transformOperations(a, b, true);
+  const left = applyOperations(applyOperations(doc, a), bPrime);
+  const right = applyOperations(applyOperations(doc, b), aPrime);
+  expect(left).toBe(right);
+  return left;
+};
+
+describe('Operation validation', () => {
+  test('accepts operations that fit the document', () => {
+    expect(isValidOperationList([insert(5, '!'), del(0, 6)], 5)).toBe(true);
+  });
+
+  test('checks each operation against the length after the previous ones', () => {
+    expect(isValidOperationList([del(0, 3), del(2, 1)], 4)).toBe(false);
+    expect(isValidOperationList([insert(4, 'ab'), del(5, 1)], 4)).toBe(true);
+  });
+
+  test('rejects malformed operations', () => {
+    expect(isWellFormedOperationList('insert')).toBe(false);
+    expect(isWellFormedOperationList([{ type: 'replace', position: 0, length: 1 }])).toBe(false);
+    expect(isWellFormedOperationList([{ type: 'insert', position: 0, length: 2, content: 'a' }])).toBe(false);
+    expect(isWellFormedOperationList([{ type: 'delete', position: -1, length: 1 }])).toBe(false);
+    expect(isWellFormedOperationList([{ type: 'delete', position: 0, length: 0 }])).toBe(false);
+    expect(isWellFormedOperationList([{ type: 'delete', position: 0.5, length: 1 }])).toBe(false);
+  });
+
+  test('rejects too many operations in one message', () => {
+    const operations = Array.from({ length: 1001 }, () => insert(0, 'a'));
+    expect(isWellFormedOperationList(operations)).toBe(false);
+    expect(isWellFormedOperationList(operations.slice(1))).toBe(true);
+  });
+});
+
+describe('Text hash', () => {
+  test('is stable and sensitive to changes', () => {
+    expect(hashText('')).toBe('811c9dc5');
+    expect(hashText('hello')).toBe(hashText('hello'));
+    expect(hashText('hello')).not.toBe(hashText('hellp'));
+  });
+});
+
+describe('Diff to operations', () => {
+  test.each([
+    ['', 'abc'],
+    ['abc', ''],
+    ['hello world', 'hello brave world'],
+    ['const a = 1;', 'const b = 1;'],
+    ['aaaa', 'aa'],
+  ])('turns %j into %j', (oldText, newText) => {
+    expect(applyOperations(oldText, diffToOperations(oldText, newText))).toBe(newText);
+  });
+
+  test('keeps the common prefix and suffix', () => {
+    expect(diffToOperations('abcXdef', 'abcYYdef')).toEqual([del(3, 1), insert(3, 'YY')]);
+    expect(diffToOperations('same', 'same')).toEqual([]);
+  });
+});
+
+describe('Position transform', () => {
+  test('insert at the position pushes it forward', () => {
+    expect(transformPosition(3, [insert(3, 'ab')])).toBe(5);
+    expect(transformPosition(3, [insert(4, 'ab')])).toBe(3);
+  });
+
+  test('deleted range collapses to its start', () => {
+    expect(transformPosition(5, [del(2, 2)])).toBe(3);
+    expect(transformPosition(3, [del(2, 4)])).toBe(2);
+    expect(transformPosition(1, [del(2, 4)])).toBe(1);
+  });
+});
+
+describe('Operation transform', () => {
+  test('concurrent inserts at the same position are ordered by aFirst', () => {
+    const [aPrime, bPrime] = transformOperations([insert(1, 'A')], [insert(1, 'B')], true);
+    expect(applyOperations(applyOperations('xy', [insert(1, 'A')]), bPrime)).toBe('xABy');
+    expect(applyOperations(applyOperations('xy', [insert(1, 'B')]), aPrime)).toBe('xABy');
+  });
+
+  test('insert inside a concurrently deleted range survives', () => {
+    expect(expectConverges('abcdef', [insert(3, 'X')], [del(1, 4)])).toBe('aXf');
+  });
+
+  test('overlapping deletes remove the union once', () => {
+    expect(expectConverges('abcdefgh', [del(1, 4)], [del(3, 4)])).toBe('ah');
+  });
+
+  test('multi-operation lists converge', () => {
+    const doc = 'function main() {\n  return 1;\n}';
+    const a = [insert(0, '// entry\n'), del(20, 6), insert(20, 'yield')];
+    const b = [del(9, 4), insert(9, 'start'), insert(doc.length - 1, '  // done\n')];
+    expectConverges(doc, a, b);
+  });
+
+  test('empty lists are returned as is', () => {
+    const a = [insert(0, 'a')];
+    expect(transformOperations(a, [], false)).toEqual([a, []]);
+  });
+});
@@ -5,6 +5,7 @@ import { store } from './store';
 import { HomePage } from './pages/HomePage';
 import { WelcomePage } from './pages/WelcomePage';
 import { RoomPage } from './pages/RoomPage';
+import { ReplayPage } from './pages/ReplayPage';
 import { NotFoundPage } from './pages/NotFoundPage';
 import './App.css';
 
@@ -17,6 +18,7 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/welcome" element={<WelcomePage />} />
             <Route path="/room/:roomId" element={<RoomPage />} />
+            <Route path="/room/:roomId/replay" element={<ReplayPage />} />
             <Route path="*" element={<NotFoundPage />} />
           </Routes>
         </div>
@@ -0,0 +1,163 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { useSocket } from '../hooks/useSocket';
+import { setChatOpen } from '../store/chatSlice';
+import { ChatSegment, formatCodeSnippet, parseChatMessage } from '../utils/chatMessage';
+import { renderInline } from './ProblemPanel';
+import { ChatMessage } from '../types';
+import './ChatPanel.css';
+
+interface ChatPanelProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+const MAX_MESSAGE_LENGTH = 4000;
+const OPEN_FENCE_LINES = /^\s*```/gm;
+
+const formatTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const renderSegment = (segment: ChatSegment, key: number): React.ReactNode => {
+  if (segment.type === 'code') {
+    return (
+      <SyntaxHighlighter
+        key={key}
+        language={segment.language || 'text'}
+        style={vscDarkPlus}
+        customStyle={{ margin: '4px 0', padding: '6px 8px', fontSize: '12px', borderRadius: '4px' }}
+      >
+        {segment.text || ' '}
+      </SyntaxHighlighter>
+    );
+  }
+  return (
+    <div key={key} className="chat-text">
+      {segment.lines.map((line, index) => (
+        <div key={index}>{line.length > 0 ? renderInline(line) : <br />}</div>
+      ))}
+    </div>
+  );
+};
+
+const ChatMessageItem: React.FC<{ message: ChatMessage }> = React.memo(({ message }) => {
+  const segments = useMemo(() => parseChatMessage(message.text), [message.text]);
+
+  return (
+    <li className="chat-message">
+      <div className="chat-message-header">
+        <span className="chat-nickname">{message.nickname}</span>
+        <span className="chat-time">{formatTime(message.createdAt)}</span>
+      </div>
+      {segments.map(renderSegment)}
+    </li>
+  );
+});
+
+/**
+ * Чат комнаты. Блоки кода в ``` подсвечиваются так же, как в редакторе;
+ * Enter отправляет сообщение, внутри незакрытого блока кода - переносит строку
+ */
+export const ChatPanel: React.FC<ChatPanelProps> = ({ roomId, onClose }) => {
+  const dispatch = useAppDispatch();
+  const { sendChatMessage } = useSocket();
+  const messages = useAppSelector((state) => state.chat.messages);
+  const language = useAppSelector((state) => state.code.currentFile?.language || '');
+  const isInRoom = useAppSelector((state) => state.code.isInRoom);
+  const [text, setText] = useState('');
+  const listRef = useRef<HTMLUListElement | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+
+  // Пока панель открыта, новые сообщения считаются прочитанными
+  useEffect(() => {
+    dispatch(setChatOpen(true));
+    return () => {
+      dispatch(setChatOpen(false));
+    };
+  }, [dispatch]);
+
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const send = () => {
+    if (!text.trim()) return;
+    sendChatMessage(roomId, text);
+    setText('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Enter' || e.shiftKey) return;
+
+    const textBeforeCursor = text.slice(0, e.currentTarget.selectionStart);
+    const isInsideSnippet = (textBeforeCursor.match(OPEN_FENCE_LINES) || []).length % 2 === 1;
+    if (!isInsideSnippet) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  const insertSnippet = () => {
+    const input = inputRef.current;
+    const position = input ? input.selectionStart : text.length;
+    const before = text.slice(0, position);
+    const prefix = before && !before.endsWith('\n') ? '\n' : '';
+    const snippet = formatCodeSnippet('', language);
+    const nextText = `${before}${prefix}${snippet.text}\n${text.slice(position)}`;
+    if (nextText.length > MAX_MESSAGE_LENGTH) return;
+
+    setText(nextText);
+    const cursor = before.length + prefix.length + snippet.cursor;
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  return (
+    <div className="chat-panel">
+      <div className="chat-header">
+        <h4>Чат</h4>
+        <button onClick={onClose} className="history-btn" title="Закрыть">
+          ✕
+        </button>
+      </div>
+
+      <ul ref={listRef} className="chat-messages">
+        {messages.map(message => (
+          <ChatMessageItem key={message.id} message={message} />
+        ))}
+        {messages.length === 0 && <li className="chat-empty">Сообщений пока нет</li>}
+      </ul>
+
+      <div className="chat-input">
+        <textarea
+          ref={inputRef}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Сообщение. Код оформляется в ```"
+          maxLength={MAX_MESSAGE_LENGTH}
+          disabled={!isInRoom}
+        />
+        <div className="chat-input-actions">
+          <button
+            onClick={insertSnippet}
+            className="history-btn"
+            title="Вставить блок кода на языке открытого файла"
+            disabled={!isInRoom}
+          >
+            {'{ }'}
+          </button>
+          <button onClick={send} className="history-btn" disabled={!isInRoom || !text.trim()}>
+            Отправить
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
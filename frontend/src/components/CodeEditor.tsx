@@ -1,17 +1,42 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { useAppDispatch, useAppSelector } from '../hooks/redux';
-import { updateCode, updateUserCursor, resetRoomState } from '../store/codeSlice';
+import {
+  updateCode,
+  updateUserCursor,
+  resetRoomState,
+  downloadRoomArchive,
+  forkCodeFile,
+  setFollowingUser,
+} from '../store/codeSlice';
 import { useSocket } from '../hooks/useSocket';
 import { debounce } from '../utils/debounce';
 import { UserCursor } from './UserCursor';
+import { UserSelection } from './UserSelection';
+import { FileTree } from './FileTree';
+import { RoomOwnerControls } from './RoomOwnerControls';
+import { SaveTemplatePanel } from './SaveTemplatePanel';
+import { OutputPanel } from './OutputPanel';
+import { TestsPanel } from './TestsPanel';
+import { CommentsPanel } from './CommentsPanel';
+import { CodePingHighlight } from './CodePingHighlight';
+import { User } from '../types';
 import { calculateTextOperation } from '../utils/cursorTransform';
+import { diffToOperations, transformPositionThroughOperations } from '../utils/textOperations';
+import { CommentAnchor, getAnchorLines, getSelectedLinesAnchor } from '../utils/commentAnchors';
 import './CodeEditor.css';
 
 interface CodeEditorProps {
   roomId: string;
+  isHistoryOpen?: boolean;
+  onToggleHistory?: () => void;
+  isNotesOpen?: boolean;
+  onToggleNotes?: () => void;
+  isChatOpen?: boolean;
+  onToggleChat?: () => void;
+  problemPanel?: React.ReactNode; // Условие задачи между деревом файлов и редактором
 }
 
 const SUPPORTED_LANGUAGES = [
@@ -23,35 +48,117 @@ const SUPPORTED_LANGUAGES = [
   { value: 'css', label: 'CSS' },
   { value: 'html', label: 'HTML' },
   { value: 'json', label: 'JSON' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'plaintext', label: 'Plain text' },
 ];
 
+// Языки, которые сервер умеет выполнять
+const RUNNABLE_LANGUAGES = ['javascript', 'typescript', 'python'];
+const MAX_RUN_INPUT_LENGTH = 64 * 1024;
+
 // Константы для размеров шрифта
 const LINE_HEIGHT = 21; // 14px * 1.5 line-height
 const CHAR_WIDTH = 8.4; // Примерная ширина моноширинного символа
 
-export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
+export const CodeEditor: React.FC<CodeEditorProps> = ({
+  roomId,
+  isHistoryOpen,
+  onToggleHistory,
+  isNotesOpen,
+  onToggleNotes,
+  isChatOpen,
+  onToggleChat,
+  problemPanel,
+}) => {
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
-  const { currentFile, users, isInRoom, currentUserId } = useAppSelector((state) => state.code);
-  const { sendCodeUpdate, sendLanguageChange, sendCursorUpdate, leaveRoom } = useSocket();
+  const {
+    currentFile,
+    users,
+    isInRoom,
+    currentUserId,
+    reconnectState,
+    reconnectAttempt,
+    pendingEditCount,
+    files,
+    isSwitchingFile,
+    isOwner,
+    role,
+    expiresAt,
+    isLocked,
+    mode,
+    interviewRole,
+    commentThreads,
+    followingUserId,
+    presenterId,
+    codePings,
+  } = useAppSelector((state) => state.code);
+  const isViewer = role === 'viewer';
+  const isInterviewer = mode === 'interview' && interviewRole === 'interviewer';
+  const isCandidate = mode === 'interview' && interviewRole === 'candidate';
+  const {
+    sendCodeOperations,
+    sendLanguageChange,
+    sendCursorUpdate,
+    leaveRoom,
+    openFile,
+    createFileEntry,
+    moveFileEntry,
+    deleteFileEntry,
+    kickUser,
+    banUser,
+    setRoomLock,
+    reportCandidateEvent,
+    runCode,
+    stopRun,
+    sendViewportUpdate,
+    setPresenterMode,
+    sendCodePing,
+  } = useSocket();
+  // Прогон тестов занимает комнату так же, как обычный запуск, и останавливается той же кнопкой
+  const isRunning = useAppSelector((state) => state.run.isRunning || state.tests.isRunning);
+  const testCaseCount = useAppSelector((state) => state.tests.testCases.length);
+  const unreadChatCount = useAppSelector((state) => state.chat.unreadCount);
+  const openCommentCount = commentThreads.filter(thread => !thread.isResolved).length;
 
   const [code, setCode] = useState<string>(currentFile?.code || '');
   const [language, setLanguage] = useState<string>(currentFile?.language || 'typescript');
+  const [isTemplatePanelOpen, setIsTemplatePanelOpen] = useState(false);
+  const [isTestsPanelOpen, setIsTestsPanelOpen] = useState(false);
+  const [isCommentsPanelOpen, setIsCommentsPanelOpen] = useState(false);
+  const [commentDraft, setCommentDraft] = useState<CommentAnchor | null>(null);
+  const [activeCommentThreadId, setActiveCommentThreadId] = useState<string | null>(null);
+  // Ввод программы у каждого участника свой и уходит на сервер только вместе с запуском
+  const [isRunInputOpen, setIsRunInputOpen] = useState(false);
+  const [runInput, setRunInput] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const overlayRef = useRef<HTMLDivElement | null>(null);
+  // Прокрутка textarea: подсветка, курсоры и метки сдвигаются вместе с текстом
+  const [scrollOffset, setScrollOffset] = useState({ top: 0, left: 0 });
+  const sentTopLineRef = useRef<number | null>(null);
+  // Выделение, которое нужно восстановить после применения чужих правок
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null);
 
   const debouncedCodeUpdate = useCallback(
-    debounce((newCode: string, currentIsInRoom: boolean) => {
-      if (currentIsInRoom) {
-        sendCodeUpdate(roomId, newCode);
-      }
+    debounce(() => {
+      // Операции вычисляются из store относительно последней подтвержденной ревизии.
+      // Без связи правки попадают в офлайн очередь
+      sendCodeOperations(roomId);
     }, 300),
-    [roomId, sendCodeUpdate]
+    [roomId, sendCodeOperations]
+  );
+
+  const debouncedViewportUpdate = useMemo(
+    () => debounce((topLine: number) => {
+      sendViewportUpdate(roomId, topLine);
+    }, 150),
+    [roomId, sendViewportUpdate]
   );
 
   const debouncedCursorUpdate = useCallback(
-    debounce((position: number, currentIsInRoom: boolean) => {
+    debounce((position: number, currentIsInRoom: boolean, anchor?: number) => {
       if (currentIsInRoom) {
-        sendCursorUpdate(roomId, position);
+        sendCursorUpdate(roomId, position, anchor);
       }
     }, 300),
     [roomId, sendCursorUpdate]
@@ -59,12 +166,74 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
 
   useEffect(() => {
     if (currentFile) {
+      const textarea = textareaRef.current;
+      if (textarea && document.activeElement === textarea && textarea.value !== currentFile.code) {
+        // Текст изменился не из этого textarea - сохраняем свое выделение на месте
+        const operations = diffToOperations(textarea.value, currentFile.code);
+        pendingSelectionRef.current = {
+          start: transformPositionThroughOperations(textarea.selectionStart, operations, textarea.value),
+          end: transformPositionThroughOperations(textarea.selectionEnd, operations, textarea.value),
+        };
+      }
       setCode(currentFile.code);
       setLanguage(currentFile.language);
       dispatch(updateCode({ code: currentFile.code, language: currentFile.language }));
     }
   }, [currentFile, dispatch]);
 
+  // Во время показа редактор следует за ведущим, иначе - за выбранным участником
+  const isPresenting = presenterId !== null && presenterId === currentUserId;
+  const followedUserId = presenterId && !isPresenting ? presenterId : followingUserId;
+  const followedUser = users.find(user => user.id === followedUserId);
+  const followedFileId = followedUser?.fileId;
+  const followedTopLine = followedUser?.viewportTopLine;
+
+  useEffect(() => {
+    if (!isInRoom || isSwitchingFile || !followedFileId || followedFileId === currentFile?.id) return;
+    openFile(roomId, followedFileId);
+  }, [followedFileId, currentFile?.id, isInRoom, isSwitchingFile, roomId, openFile]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || followedTopLine === undefined || followedFileId !== currentFile?.id) return;
+    textarea.scrollTop = followedTopLine * LINE_HEIGHT;
+  }, [followedTopLine, followedFileId, currentFile?.id, code]);
+
+  // Черновик и выбранная ветка относятся к строкам прежнего файла
+  const currentFileId = currentFile?.id;
+  useEffect(() => {
+    setCommentDraft(null);
+    setActiveCommentThreadId(null);
+  }, [currentFileId]);
+
+  // На собеседовании интервьюеры видят, когда кандидат уходит со вкладки и возвращается
+  useEffect(() => {
+    if (!isCandidate || !isInRoom) return;
+
+    const handleBlur = () => reportCandidateEvent(roomId, 'blur');
+    const handleFocus = () => reportCandidateEvent(roomId, 'focus');
+    window.addEventListener('blur', handleBlur);
+    window.addEventListener('focus', handleFocus);
+    return () => {
+      window.removeEventListener('blur', handleBlur);
+      window.removeEventListener('focus', handleFocus);
+    };
+  }, [isCandidate, isInRoom, roomId, reportCandidateEvent]);
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (isCandidate && isInRoom) {
+      reportCandidateEvent(roomId, 'paste', event.clipboardData.getData('text').length);
+    }
+  };
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (selection && textareaRef.current) {
+      textareaRef.current.setSelectionRange(selection.start, selection.end);
+      pendingSelectionRef.current = null;
+    }
+  }, [code]);
+
   const handleCodeChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newCode = event.target.value;
     const oldCode = code;
@@ -91,7 +260,23 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
       dispatch(updateCode({ code: newCode }));
     }
 
-    debouncedCodeUpdate(newCode, isInRoom);
+    debouncedCodeUpdate();
+  };
+
+  const handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    const { scrollTop, scrollLeft } = event.currentTarget;
+    if (overlayRef.current) {
+      overlayRef.current.scrollTop = scrollTop;
+      overlayRef.current.scrollLeft = scrollLeft;
+    }
+    setScrollOffset({ top: scrollTop, left: scrollLeft });
+
+    // Первая видимая строка нужна тем, кто следует за этим редактором
+    const topLine = Math.floor(scrollTop / LINE_HEIGHT);
+    if (isInRoom && topLine !== sentTopLineRef.current) {
+      sentTopLineRef.current = topLine;
+      debouncedViewportUpdate(topLine);
+    }
   };
 
   const handleLanguageChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
@@ -104,9 +289,12 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
 
   const handleCursorChange = (event: React.SyntheticEvent<HTMLTextAreaElement>) => {
     const textarea = event.currentTarget;
-    const position = textarea.selectionStart;
+    // Курсор - активный конец выделения: при выделении назад он в начале, иначе в конце
+    const isBackward = textarea.selectionDirection === 'backward';
+    const position = isBackward ? textarea.selectionStart : textarea.selectionEnd;
+    const anchor = isBackward ? textarea.selectionEnd : textarea.selectionStart;
     console.log(`Cursor position changed: ${position}, isInRoom: ${isInRoom}`);
-    debouncedCursorUpdate(position, isInRoom);
+    debouncedCursorUpdate(position, isInRoom, anchor !== position ? anchor : undefined);
   };
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -129,7 +317,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
           const newValue = code.substring(0, lineStart) + currentLine.substring(tabChar.length) + afterCursor;
           setCode(newValue);
           dispatch(updateCode({ code: newValue }));
-          debouncedCodeUpdate(newValue, isInRoom);
+          debouncedCodeUpdate();
 
           setTimeout(() => {
             const newPosition = Math.max(lineStart, start - tabChar.length);
@@ -142,7 +330,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
 
         setCode(newValue);
         dispatch(updateCode({ code: newValue }));
-        debouncedCodeUpdate(newValue, isInRoom);
+        debouncedCodeUpdate();
 
         setTimeout(() => {
           const newPosition = start + tabChar.length;
@@ -155,6 +343,36 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
     }
   };
 
+  // Панели тестов и комментариев занимают одно место справа
+  const openCommentsPanel = () => {
+    setIsCommentsPanelOpen(true);
+    setIsTestsPanelOpen(false);
+  };
+
+  const startCommentThread = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    setCommentDraft(getSelectedLinesAnchor(code, textarea.selectionStart, textarea.selectionEnd));
+    setActiveCommentThreadId(null);
+    openCommentsPanel();
+  };
+
+  // Пинг выделенного фрагмента, а без выделения - строки с кареткой
+  const pingSelection = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !isInRoom || isSwitchingFile) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const range = selectionStart === selectionEnd
+      ? getSelectedLinesAnchor(code, selectionStart, selectionEnd)
+      : { startPosition: selectionStart, endPosition: selectionEnd };
+    sendCodePing(roomId, range.startPosition, range.endPosition);
+  };
+
+  const showCommentThread = (threadId: string) => {
+    setActiveCommentThreadId(threadId);
+    openCommentsPanel();
+  };
+
   const getCursorCoordinates = (position: number) => {
     if (!textareaRef.current) return { line: 0, column: 0 };
 
@@ -175,7 +393,32 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
     navigate('/welcome');
   };
 
-  if (!isInRoom) {
+  const handleKick = (user: User) => {
+    if (!window.confirm(`Выгнать ${user.nickname} из комнаты?`)) return;
+    kickUser(roomId, user.id);
+  };
+
+  const handleBan = (user: User) => {
+    if (!window.confirm(`Забанить ${user.nickname}? Участник не сможет вернуться в комнату до её удаления.`)) return;
+    banUser(roomId, user.id);
+  };
+
+  const handleFork = async () => {
+    if (!window.confirm('Создать независимую копию комнаты вместе с историей изменений?')) return;
+
+    // Накопленные правки отправляем до копирования, чтобы они попали в копию
+    sendCodeOperations(roomId);
+    const result = await dispatch(forkCodeFile({ id: roomId, includeHistory: true }));
+    if (forkCodeFile.fulfilled.match(result)) {
+      leaveRoom();
+      navigate(`/room/${result.payload.id}`);
+    } else {
+      console.error('Failed to fork room:', result.error);
+    }
+  };
+
+  // Во время переподключения редактор остается доступным, правки отправятся после восстановления связи
+  if (!isInRoom && reconnectState === 'none') {
     return (
       <div className="code-editor">
         <div className="editor-header">
@@ -196,6 +439,7 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
             value={language}
             onChange={handleLanguageChange}
             className="language-select"
+            disabled={isViewer}
           >
             {SUPPORTED_LANGUAGES.map((lang) => (
               <option key={lang.value} value={lang.value}>
@@ -203,13 +447,170 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
               </option>
             ))}
           </select>
+          {!isViewer && (isRunning ? (
+            <button onClick={() => stopRun(roomId)} className="run-btn run-btn-stop" title="Остановить программу">
+              ■ Стоп
+            </button>
+          ) : (
+            <button
+              onClick={() => currentFile && runCode(roomId, currentFile.id, isRunInputOpen ? runInput : '')}
+              className="run-btn"
+              disabled={!isInRoom || isSwitchingFile || !RUNNABLE_LANGUAGES.includes(language)}
+              title={RUNNABLE_LANGUAGES.includes(language)
+                ? 'Выполнить открытый файл на сервере, вывод увидят все участники'
+                : 'Запуск поддерживается для JavaScript, TypeScript и Python'}
+            >
+              ▶ Запустить
+            </button>
+          ))}
+          {!isViewer && (
+            <button
+              onClick={() => setIsRunInputOpen(!isRunInputOpen)}
+              className={`run-btn run-btn-input ${isRunInputOpen ? 'active' : ''}`}
+              title="Данные, которые программа получит на стандартный ввод"
+            >
+              Ввод
+            </button>
+          )}
         </div>
 
         <div className="room-info">
           <span>Комната: {roomId}</span>
+          {isViewer && (
+            <span className="viewer-badge" title="Вы вошли как наблюдатель и не можете редактировать код">
+              👁 Только просмотр
+            </span>
+          )}
+          {currentFile?.path && <span className="current-file-path">📄 {currentFile.path}</span>}
+          {expiresAt && (
+            <span className="room-expiry" title="После этого комната будет удалена">
+              ⌛ до {new Date(expiresAt).toLocaleString()}
+            </span>
+          )}
+          {pendingEditCount > 0 && (
+            <span className="pending-edits" title="Правки, сделанные без связи с сервером">
+              ⏳ Не отправлено правок: {pendingEditCount}
+            </span>
+          )}
         </div>
 
         <div className="header-actions">
+          {isOwner && <RoomOwnerControls roomId={roomId} />}
+          <button
+            onClick={handleFork}
+            className="history-toggle-btn"
+            title="Создать копию комнаты и перейти в неё"
+            disabled={!isInRoom}
+          >
+            Форк
+          </button>
+          {isOwner && (
+            <button
+              onClick={() => setIsTemplatePanelOpen(open => !open)}
+              className={`history-toggle-btn${isTemplatePanelOpen ? ' active' : ''}`}
+              title="Сохранить комнату в библиотеку шаблонов"
+              disabled={!isInRoom}
+            >
+              В шаблоны
+            </button>
+          )}
+          {isTemplatePanelOpen && <SaveTemplatePanel roomId={roomId} onClose={() => setIsTemplatePanelOpen(false)} />}
+          {(isOwner || testCaseCount > 0) && (
+            <button
+              onClick={() => {
+                setIsTestsPanelOpen(open => !open);
+                setIsCommentsPanelOpen(false);
+              }}
+              className={`history-toggle-btn${isTestsPanelOpen ? ' active' : ''}`}
+              title="Тесты задачи и результаты их прогона"
+            >
+              Тесты{testCaseCount > 0 && ` (${testCaseCount})`}
+            </button>
+          )}
+          {isTestsPanelOpen && (
+            <TestsPanel
+              roomId={roomId}
+              fileId={currentFile?.id || null}
+              canRun={!isViewer && isInRoom && !isSwitchingFile && RUNNABLE_LANGUAGES.includes(language)}
+              onClose={() => setIsTestsPanelOpen(false)}
+            />
+          )}
+          <button
+            onClick={pingSelection}
+            className="history-toggle-btn"
+            title="Подсветить выделенный фрагмент у всех участников. Alt+клик - указать на строку"
+            disabled={!isInRoom || isSwitchingFile}
+          >
+            📍 Указать
+          </button>
+          <button
+            onClick={startCommentThread}
+            className="history-toggle-btn"
+            title="Оставить комментарий к выделенным строкам"
+            disabled={!isInRoom || isSwitchingFile}
+          >
+            💬 Комментировать
+          </button>
+          <button
+            onClick={() => (isCommentsPanelOpen ? setIsCommentsPanelOpen(false) : openCommentsPanel())}
+            className={`history-toggle-btn${isCommentsPanelOpen ? ' active' : ''}`}
+            title="Ветки комментариев к открытому файлу"
+          >
+            Комментарии{openCommentCount > 0 && ` (${openCommentCount})`}
+          </button>
+          {isCommentsPanelOpen && (
+            <CommentsPanel
+              roomId={roomId}
+              fileId={currentFile?.id || null}
+              code={code}
+              draftAnchor={commentDraft}
+              activeThreadId={activeCommentThreadId}
+              onSelectThread={setActiveCommentThreadId}
+              onDraftClose={() => setCommentDraft(null)}
+              onClose={() => setIsCommentsPanelOpen(false)}
+            />
+          )}
+          <button
+            onClick={() => dispatch(downloadRoomArchive(roomId))}
+            className="history-toggle-btn"
+            title="Скачать все файлы комнаты zip архивом"
+          >
+            Скачать
+          </button>
+          <button
+            onClick={() => window.open(`/room/${roomId}/replay${currentFile ? `?file=${currentFile.id}` : ''}`, '_blank')}
+            className="history-toggle-btn"
+            title="Воспроизвести сессию в новой вкладке"
+          >
+            Запись
+          </button>
+          {onToggleHistory && (
+            <button
+              onClick={onToggleHistory}
+              className={`history-toggle-btn${isHistoryOpen ? ' active' : ''}`}
+              title="История изменений"
+            >
+              История
+            </button>
+          )}
+          {onToggleChat && (
+            <button
+              onClick={onToggleChat}
+              className={`history-toggle-btn${isChatOpen ? ' active' : ''}`}
+              title="Чат комнаты"
+            >
+              Чат{unreadChatCount > 0 && ` (${unreadChatCount})`}
+            </button>
+          )}
+          {isInterviewer && onToggleNotes && (
+            <button
+              onClick={onToggleNotes}
+              className={`history-toggle-btn${isNotesOpen ? ' active' : ''}`}
+              title="Заметки и оценка кандидата"
+            >
+              Заметки
+            </button>
+          )}
           <button 
             onClick={handleLeaveRoom}
             className="leave-room-btn"
@@ -220,6 +621,50 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
         </div>
       </div>
 
+      {reconnectState !== 'none' && (
+        <div className={`connection-banner connection-banner-${reconnectState}`}>
+          {reconnectState === 'reconnecting'
+            ? `🔴 Соединение потеряно. Переподключение${reconnectAttempt > 0 ? ` (попытка ${reconnectAttempt})` : ''}... Правки сохраняются локально.`
+            : '🟡 Соединение восстановлено. Синхронизация документа...'}
+        </div>
+      )}
+
+      {(followedUser || isPresenting) && (
+        <div className="follow-banner">
+          {isPresenting
+            ? '📢 Вы ведете показ: редакторы участников следуют за вашим'
+            : presenterId
+              ? `📢 Показ ведет ${followedUser!.nickname}, редактор следует за ведущим`
+              : `👁 Редактор следует за ${followedUser!.nickname}`}
+          {isPresenting ? (
+            <button onClick={() => setPresenterMode(roomId, false)} className="history-btn">
+              Завершить показ
+            </button>
+          ) : !presenterId && (
+            <button onClick={() => dispatch(setFollowingUser(null))} className="history-btn">
+              Перестать следовать
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="editor-body">
+      <FileTree
+        files={files}
+        activeFileId={currentFile?.id}
+        mainFileId={roomId}
+        users={users}
+        currentUserId={currentUserId}
+        disabled={!isInRoom || isSwitchingFile}
+        readOnly={isViewer}
+        onOpen={(fileId) => fileId !== currentFile?.id && openFile(roomId, fileId)}
+        onCreate={(path, entryType) => createFileEntry(roomId, path, entryType)}
+        onMove={(fileId, path) => moveFileEntry(roomId, fileId, path)}
+        onDelete={(fileId) => deleteFileEntry(roomId, fileId)}
+      />
+
+      {problemPanel}
+
       <div className="editor-container">
         <textarea
           ref={textareaRef}
@@ -228,14 +673,18 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
           onSelect={handleCursorChange}
           onKeyUp={handleCursorChange}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           onClick={handleCursorChange}
+          onMouseUp={(e) => e.altKey && pingSelection()}
           onFocus={handleCursorChange}
+          onScroll={handleScroll}
           className="code-textarea"
-          placeholder="Начните писать код..."
+          placeholder={isViewer ? '' : 'Начните писать код...'}
           spellCheck={false}
+          readOnly={isSwitchingFile || isViewer}
         />
 
-        <div className="syntax-highlight-overlay">
+        <div ref={overlayRef} className="syntax-highlight-overlay">
           <SyntaxHighlighter
             language={language}
             style={vscDarkPlus}
@@ -257,41 +706,146 @@ export const CodeEditor: React.FC<CodeEditorProps> = ({ roomId }) => {
           </SyntaxHighlighter>
         </div>
 
+        <div
+          className="editor-decorations"
+          style={{ transform: `translate(${-scrollOffset.left}px, ${-scrollOffset.top}px)` }}
+        >
+        {commentThreads.map(thread => {
+          // Метка на полях тянется через все строки ветки
+          const { startLine, endLine } = getAnchorLines(code, thread);
+          const firstComment = thread.comments[0];
+          return (
+            <button
+              key={thread.id}
+              className={`comment-marker${thread.isResolved ? ' resolved' : ''}${thread.id === activeCommentThreadId ? ' active' : ''}`}
+              style={{
+                top: `${(startLine - 1) * LINE_HEIGHT + 15}px`,
+                height: `${(endLine - startLine + 1) * LINE_HEIGHT}px`,
+              }}
+              title={firstComment ? `${firstComment.nickname}: ${firstComment.text}` : undefined}
+              onClick={() => showCommentThread(thread.id)}
+            />
+          );
+        })}
+
+        {codePings.map(ping => (
+          <CodePingHighlight key={ping.id} ping={ping} code={code} lineHeight={LINE_HEIGHT} charWidth={CHAR_WIDTH} />
+        ))}
+
         {(() => {
+          // Курсоры показываются только у тех, кто открыл тот же файл
           const otherUsers = users.filter(user =>
+            user.fileId === currentFile?.id &&
             user.cursorPosition !== undefined &&
             user.id !== currentUserId &&
             user.cursorPosition >= 0 &&
             user.cursorPosition <= code.length
           );
           return otherUsers.map(user => (
-            <UserCursor
-              key={`${user.id}-${user.cursorPosition}`}
-              nickname={user.nickname}
-              position={user.cursorPosition!}
-              code={code}
-              lineHeight={LINE_HEIGHT}
-              charWidth={CHAR_WIDTH}
-              preserveVisual={(user as any).preserveVisual || false}
-            />
+            <React.Fragment key={user.id}>
+              {user.selectionAnchor !== undefined && (
+                <UserSelection
+                  nickname={user.nickname}
+                  anchor={user.selectionAnchor}
+                  head={user.cursorPosition!}
+                  code={code}
+                  lineHeight={LINE_HEIGHT}
+                  charWidth={CHAR_WIDTH}
+                />
+              )}
+              <UserCursor
+                key={`${user.id}-${user.cursorPosition}`}
+                nickname={user.nickname}
+                position={user.cursorPosition!}
+                code={code}
+                lineHeight={LINE_HEIGHT}
+                charWidth={CHAR_WIDTH}
+                preserveVisual={(user as any).preserveVisual || false}
+              />
+            </React.Fragment>
           ));
         })()}
+        </div>
+      </div>
       </div>
 
+      {!isViewer && isRunInputOpen && (
+        <div className="run-input">
+          <textarea
+            value={runInput}
+            onChange={(e) => setRunInput(e.target.value)}
+            placeholder="stdin программы: в Python читается через input(), в JavaScript — через readline()"
+            maxLength={MAX_RUN_INPUT_LENGTH}
+            spellCheck={false}
+          />
+        </div>
+      )}
+
+      <OutputPanel />
+
       <div className="users-list">
-        <h4>Пользователи ({users.length})</h4>
+        <div className="users-list-header">
+          <h4>Пользователи ({users.length})</h4>
+          {isOwner && (
+            <button
+              onClick={() => setPresenterMode(roomId, !isPresenting)}
+              className={`room-lock-btn ${isPresenting ? 'active' : ''}`}
+              title={isPresenting ? 'Отпустить участников' : 'Все участники будут следовать за вашим редактором'}
+              disabled={!isInRoom}
+            >
+              📢 {isPresenting ? 'Показ' : 'Показать'}
+            </button>
+          )}
+          {isOwner ? (
+            <button
+              onClick={() => setRoomLock(roomId, !isLocked)}
+              className={`room-lock-btn ${isLocked ? 'active' : ''}`}
+              title={isLocked ? 'Снова пускать новых участников' : 'Не пускать новых участников'}
+            >
+              {isLocked ? '🔒 Закрыта' : '🔓 Открыта'}
+            </button>
+          ) : (
+            isLocked && <span className="room-lock-tag" title="Владелец закрыл вход новым участникам">🔒</span>
+          )}
+        </div>
         <ul>
           {users.map((user) => {
-            const cursorCoords = user.cursorPosition !== undefined
+            const inCurrentFile = user.fileId === currentFile?.id;
+            const cursorCoords = inCurrentFile && user.cursorPosition !== undefined
               ? getCursorCoordinates(user.cursorPosition)
               : null;
+            const userFile = files.find(file => file.id === user.fileId);
 
             return (
               <li key={user.id}>
+                {user.isOwner && <span title="Владелец комнаты">👑 </span>}
                 {user.nickname}
+                {user.role === 'viewer' && <span className="viewer-tag" title="Наблюдатель"> 👁 смотрит</span>}
+                {user.interviewRole === 'interviewer' && <span className="viewer-tag" title="Интервьюер"> 🎤 интервьюер</span>}
+                {userFile && !inCurrentFile && (
+                  <span className="cursor-info"> ({userFile.path})</span>
+                )}
                 {cursorCoords && (
                   <span className="cursor-info"> (Line {cursorCoords.line}, Col {cursorCoords.column})</span>
                 )}
+                {user.id !== currentUserId && (
+                  <button
+                    onClick={() => dispatch(setFollowingUser(followingUserId === user.id ? null : user.id))}
+                    className={`follow-btn ${followedUserId === user.id ? 'active' : ''}`}
+                    title={presenterId
+                      ? 'Во время показа редактор следует за ведущим'
+                      : followingUserId === user.id ? 'Перестать следовать' : 'Следовать за прокруткой и файлом участника'}
+                    disabled={Boolean(presenterId) || !user.fileId}
+                  >
+                    👁
+                  </button>
+                )}
+                {isOwner && !user.isOwner && user.id !== currentUserId && (
+                  <span className="user-moderation">
+                    <button onClick={() => handleKick(user)} title="Выгнать из комнаты">✕</button>
+                    <button onClick={() => handleBan(user)} title="Забанить до удаления комнаты">⛔</button>
+                  </span>
+                )}
               </li>
             );
           })}
@@ -0,0 +1,60 @@
+import React from 'react';
+import { getUserHue } from './UserCursor';
+import { getSelectionLineSpans } from '../utils/selectionRanges';
+import { CodePing } from '../types';
+import './CodePingHighlight.css';
+
+interface CodePingHighlightProps {
+  ping: CodePing;
+  code: string;
+  lineHeight: number;
+  charWidth: number;
+}
+
+/**
+ * Вспышка над фрагментом, на который указал участник. Пустой фрагмент (например,
+ * пустая строка) подсвечивается полосой во всю ширину строки
+ */
+export const CodePingHighlight: React.FC<CodePingHighlightProps> = ({ ping, code, lineHeight, charWidth }) => {
+  const hue = getUserHue(ping.nickname);
+  const spans = getSelectionLineSpans(code, ping.startPosition, ping.endPosition);
+  const firstLine = code.slice(0, Math.min(ping.startPosition, code.length)).split('\n').length - 1;
+
+  return (
+    <>
+      {spans.length === 0 && (
+        <div
+          className="code-ping code-ping-line"
+          style={{
+            top: `${firstLine * lineHeight + 15}px`, // +15 for padding
+            height: `${lineHeight}px`,
+            backgroundColor: `hsla(${hue}, 80%, 60%, 0.35)`,
+          }}
+        />
+      )}
+      {spans.map(span => (
+        <div
+          key={span.line}
+          className="code-ping"
+          style={{
+            top: `${span.line * lineHeight + 15}px`,
+            left: `${span.startColumn * charWidth + 15}px`,
+            width: `${Math.max(span.endColumn - span.startColumn, 1) * charWidth}px`,
+            height: `${lineHeight}px`,
+            backgroundColor: `hsla(${hue}, 80%, 60%, 0.35)`,
+            borderColor: `hsl(${hue}, 80%, 60%)`,
+          }}
+        />
+      ))}
+      <div
+        className="code-ping-label"
+        style={{
+          top: `${firstLine * lineHeight + 15}px`,
+          backgroundColor: `hsl(${hue}, 70%, 45%)`,
+        }}
+      >
+        📍 {ping.nickname}
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAppSelector } from '../hooks/redux';
+import { useSocket } from '../hooks/useSocket';
+import { CommentAnchor, getAnchorLines } from '../utils/commentAnchors';
+import { parseInline } from '../utils/markdown';
+import { renderInline } from './ProblemPanel';
+import { CommentThread } from '../types';
+import './CommentsPanel.css';
+
+interface CommentsPanelProps {
+  roomId: string;
+  fileId: string | null;
+  code: string;
+  draftAnchor: CommentAnchor | null; // Строки, для которых пишется новая ветка
+  activeThreadId: string | null;
+  onSelectThread: (threadId: string | null) => void;
+  onDraftClose: () => void;
+  onClose: () => void;
+}
+
+const MAX_COMMENT_LENGTH = 2000;
+// Сколько строк прокомментированного кода показывать в ветке
+const QUOTE_LINES = 3;
+
+const formatTime = (createdAt: string) =>
+  new Date(createdAt).toLocaleString([], { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const formatLines = (code: string, anchor: CommentAnchor) => {
+  const { startLine, endLine } = getAnchorLines(code, anchor);
+  return startLine === endLine ? `Строка ${startLine}` : `Строки ${startLine}–${endLine}`;
+};
+
+const quoteCode = (code: string, anchor: CommentAnchor) => {
+  const lines = code.slice(anchor.startPosition, anchor.endPosition).split('\n');
+  return lines.length > QUOTE_LINES ? [...lines.slice(0, QUOTE_LINES), '…'].join('\n') : lines.join('\n');
+};
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  disabled: boolean;
+  autoFocus?: boolean;
+  onSubmit: (text: string) => void;
+  onCancel?: () => void;
+}
+
+// Ctrl+Enter отправляет комментарий, обычный Enter переносит строку
+const CommentForm: React.FC<CommentFormProps> = ({ placeholder, submitLabel, disabled, autoFocus, onSubmit, onCancel }) => {
+  const [text, setText] = useState('');
+
+  const submit = () => {
+    if (!text.trim()) return;
+    onSubmit(text);
+    setText('');
+  };
+
+  return (
+    <div className="comments-form">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder={placeholder}
+        maxLength={MAX_COMMENT_LENGTH}
+        autoFocus={autoFocus}
+        disabled={disabled}
+      />
+      <div className="comments-form-actions">
+        {onCancel && (
+          <button onClick={onCancel} className="history-btn">
+            Отмена
+          </button>
+        )}
+        <button onClick={submit} className="history-btn" disabled={disabled || !text.trim()}>
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Ветки комментариев к строкам открытого файла: ревью кода прямо в комнате.
+ * Ветку можно закрыть как решенную и переоткрыть, удаляет ветки только владелец
+ */
+export const CommentsPanel: React.FC<CommentsPanelProps> = ({
+  roomId,
+  fileId,
+  code,
+  draftAnchor,
+  activeThreadId,
+  onSelectThread,
+  onDraftClose,
+  onClose,
+}) => {
+  const { createCommentThread, replyToCommentThread, setCommentThreadResolved, deleteCommentThread } = useSocket();
+  const threads = useAppSelector((state) => state.code.commentThreads);
+  const isOwner = useAppSelector((state) => state.code.isOwner);
+  const isInRoom = useAppSelector((state) => state.code.isInRoom);
+  const [showResolved, setShowResolved] = useState(false);
+  const activeItemRef = useRef<HTMLLIElement | null>(null);
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+  // Решенную ветку, выбранную по метке на полях, показываем даже при скрытых решенных
+  const visibleThreads = [...threads]
+    .filter(thread => showResolved || !thread.isResolved || thread.id === activeThreadId)
+    .sort((a, b) => a.startPosition - b.startPosition);
+  const openCount = threads.filter(thread => !thread.isResolved).length;
+
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeThreadId, activeThread?.comments.length]);
+
+  const renderThread = (thread: CommentThread) => {
+    const isActive = thread.id === activeThreadId;
+
+    return (
+      <li
+        key={thread.id}
+        ref={isActive ? activeItemRef : undefined}
+        className={`comments-thread${isActive ? ' active' : ''}${thread.isResolved ? ' resolved' : ''}`}
+      >
+        <div className="comments-thread-header" onClick={() => onSelectThread(isActive ? null : thread.id)}>
+          <span className="comments-lines">{formatLines(code, thread)}</span>
+          <span className="comments-thread-actions" onClick={(e) => e.stopPropagation()}>
+            {thread.isResolved && (
+              <span className="comments-resolved" title={thread.resolvedBy ? `Решено: ${thread.resolvedBy}` : undefined}>
+                ✓ решено
+              </span>
+            )}
+            <button
+              onClick={() => setCommentThreadResolved(roomId, thread.id, !thread.isResolved)}
+              className="history-btn"
+              disabled={!isInRoom}
+            >
+              {thread.isResolved ? 'Открыть снова' : 'Решено'}
+            </button>
+            {isOwner && (
+              <button
+                onClick={() => window.confirm('Удалить ветку вместе со всеми ответами?') && deleteCommentThread(roomId, thread.id)}
+                className="history-btn"
+                title="Удалить ветку"
+                disabled={!isInRoom}
+              >
+                ✕
+              </button>
+            )}
+          </span>
+        </div>
+
+        <pre className="comments-quote">{quoteCode(code, thread) || ' '}</pre>
+
+        <ul className="comments-list">
+          {(isActive ? thread.comments : thread.comments.slice(0, 1)).map(comment => (
+            <li key={comment.id} className="comments-comment">
+              <div className="comments-comment-header">
+                <span className="comments-nickname">{comment.nickname}</span>
+                <span className="comments-time">{formatTime(comment.createdAt)}</span>
+              </div>
+              <div className="comments-text">
+                {comment.text.split('\n').map((line, index) => (
+                  <div key={index}>{line.length > 0 ? renderInline(parseInline(line)) : <br />}</div>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {isActive ? (
+          <CommentForm
+            placeholder="Ответ. Ctrl+Enter - отправить"
+            submitLabel="Ответить"
+            disabled={!isInRoom}
+            onSubmit={(text) => replyToCommentThread(roomId, thread.id, text)}
+          />
+        ) : thread.comments.length > 1 && (
+          <button className="comments-more" onClick={() => onSelectThread(thread.id)}>
+            Ответов: {thread.comments.length - 1}
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="comments-panel">
+      <div className="comments-header">
+        <h4>Комментарии ({openCount})</h4>
+        <button onClick={onClose} className="history-btn" title="Закрыть">
+          ✕
+        </button>
+      </div>
+
+      {draftAnchor && fileId && (
+        <div className="comments-draft">
+          <span className="comments-lines">Новая ветка · {formatLines(code, draftAnchor)}</span>
+          <pre className="comments-quote">{quoteCode(code, draftAnchor) || ' '}</pre>
+          <CommentForm
+            placeholder="Комментарий к выделенным строкам. Ctrl+Enter - отправить"
+            submitLabel="Добавить"
+            disabled={!isInRoom}
+            autoFocus
+            onSubmit={(text) => {
+              createCommentThread(roomId, fileId, draftAnchor, text);
+              onDraftClose();
+            }}
+            onCancel={onDraftClose}
+          />
+        </div>
+      )}
+
+      <label className="comments-filter">
+        <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+        Показывать решенные ({threads.length - openCount})
+      </label>
+
+      <ul className="comments-threads">
+        {visibleThreads.map(renderThread)}
+        {visibleThreads.length === 0 && (
+          <li className="comments-empty">Выделите строки в редакторе и нажмите «Комментировать»</li>
+        )}
+      </ul>
+    </div>
+  );
+};
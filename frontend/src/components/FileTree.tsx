@@ -0,0 +1,125 @@
+import React, { useMemo } from 'react';
+import { RoomFileEntry, User, FileEntryType } from '../types';
+import { buildFileTree, FileTreeNode, getParentPath, joinPath } from '../utils/fileTree';
+import './FileTree.css';
+
+interface FileTreeProps {
+  files: RoomFileEntry[];
+  activeFileId?: string;
+  mainFileId: string;
+  users: User[];
+  currentUserId: string | null;
+  disabled?: boolean;
+  readOnly?: boolean; // Наблюдатель может открывать файлы, но не менять дерево
+  onOpen: (fileId: string) => void;
+  onCreate: (path: string, entryType: FileEntryType) => void;
+  onMove: (fileId: string, path: string) => void;
+  onDelete: (fileId: string) => void;
+}
+
+const userColor = (nickname: string) => `hsl(${nickname.charCodeAt(0) * 7 % 360}, 70%, 60%)`;
+
+export const FileTree: React.FC<FileTreeProps> = ({
+  files,
+  activeFileId,
+  mainFileId,
+  users,
+  currentUserId,
+  disabled = false,
+  readOnly = false,
+  onOpen,
+  onCreate,
+  onMove,
+  onDelete,
+}) => {
+  const tree = useMemo(() => buildFileTree(files), [files]);
+
+  // Новые записи по умолчанию создаются рядом с открытым файлом
+  const activePath = files.find(file => file.id === activeFileId)?.path || '';
+
+  const handleCreate = (entryType: FileEntryType) => {
+    const defaultPath = joinPath(getParentPath(activePath), entryType === 'file' ? 'new-file.ts' : 'new-folder');
+    const path = window.prompt(entryType === 'file' ? 'Путь нового файла:' : 'Путь новой папки:', defaultPath);
+    if (path && path.trim()) {
+      onCreate(path.trim(), entryType);
+    }
+  };
+
+  const handleMove = (node: FileTreeNode) => {
+    const path = window.prompt('Новый путь (переименование или перемещение):', node.path);
+    if (node.id && path && path.trim() && path.trim() !== node.path) {
+      onMove(node.id, path.trim());
+    }
+  };
+
+  const handleDelete = (node: FileTreeNode) => {
+    const message = node.entryType === 'folder'
+      ? `Удалить папку ${node.path} со всем содержимым?`
+      : `Удалить файл ${node.path}?`;
+    if (node.id && window.confirm(message)) {
+      onDelete(node.id);
+    }
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const isActive = node.id === activeFileId;
+    const usersInFile = node.entryType === 'file'
+      ? users.filter(user => user.fileId === node.id && user.id !== currentUserId)
+      : [];
+
+    return (
+      <li key={node.path}>
+        <div
+          className={`file-tree-item${isActive ? ' file-tree-item-active' : ''}`}
+          style={{ paddingLeft: 10 + depth * 14 }}
+          onClick={() => node.entryType === 'file' && node.id && !disabled && onOpen(node.id)}
+          title={node.path}
+        >
+          <span className="file-tree-name">
+            {node.entryType === 'folder' ? '📁' : '📄'} {node.name}
+          </span>
+          <span className="file-tree-presence">
+            {usersInFile.map(user => (
+              <span
+                key={user.id}
+                className="file-tree-user"
+                style={{ backgroundColor: userColor(user.nickname) }}
+                title={user.nickname}
+              >
+                {user.nickname.charAt(0).toUpperCase()}
+              </span>
+            ))}
+          </span>
+          {node.id && !disabled && !readOnly && (
+            <span className="file-tree-actions" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => handleMove(node)} title="Переименовать или переместить">✏️</button>
+              {node.id !== mainFileId && (
+                <button onClick={() => handleDelete(node)} title="Удалить">🗑</button>
+              )}
+            </span>
+          )}
+        </div>
+        {node.children.length > 0 && (
+          <ul>{node.children.map(child => renderNode(child, depth + 1))}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="file-tree">
+      <div className="file-tree-header">
+        <span>Файлы</span>
+        {!readOnly && (
+          <span className="file-tree-header-actions">
+            <button onClick={() => handleCreate('file')} disabled={disabled} title="Новый файл">+📄</button>
+            <button onClick={() => handleCreate('folder')} disabled={disabled} title="Новая папка">+📁</button>
+          </span>
+        )}
+      </div>
+      <ul className="file-tree-list">
+        {tree.map(node => renderNode(node, 0))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect } from 'react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { fetchHistory, fetchRevision, clearSelectedRevision } from '../store/historySlice';
+import { useSocket } from '../hooks/useSocket';
+import './HistoryPanel.css';
+
+interface HistoryPanelProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+const formatTime = (createdAt: string) => new Date(createdAt).toLocaleString();
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ roomId, onClose }) => {
+  const dispatch = useAppDispatch();
+  const { restoreRevision } = useSocket();
+  const {
+    revisions,
+    currentRevision,
+    hasMore,
+    selectedRevision,
+    isLoading,
+    isPreviewLoading,
+    error,
+  } = useAppSelector((state) => state.history);
+  // История ведется отдельно для каждого файла комнаты
+  const fileId = useAppSelector((state) => state.code.currentFile?.id) || roomId;
+  const isViewer = useAppSelector((state) => state.code.role) === 'viewer';
+
+  useEffect(() => {
+    dispatch(clearSelectedRevision());
+    dispatch(fetchHistory({ roomId, fileId }));
+  }, [roomId, fileId, dispatch]);
+
+  const handleSelect = (revision: number) => {
+    dispatch(fetchRevision({ roomId, fileId, revision }));
+  };
+
+  const handleLoadMore = () => {
+    const oldest = revisions[revisions.length - 1];
+    if (oldest) {
+      dispatch(fetchHistory({ roomId, fileId, before: oldest.revision }));
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selectedRevision) return;
+    if (!window.confirm(`Восстановить ревизию ${selectedRevision.revision} для всех участников комнаты?`)) return;
+
+    restoreRevision(roomId, selectedRevision.revision);
+    dispatch(clearSelectedRevision());
+  };
+
+  return (
+    <div className="history-panel">
+      <div className="history-header">
+        <h4>История изменений</h4>
+        <div className="history-header-actions">
+          <button
+            onClick={() => dispatch(fetchHistory({ roomId, fileId }))}
+            className="history-btn"
+            disabled={isLoading}
+            title="Обновить"
+          >
+            ⟳
+          </button>
+          <button onClick={onClose} className="history-btn" title="Закрыть">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="history-error">{error}</div>}
+
+      <ul className="history-list">
+        {revisions.map((entry) => (
+          <li
+            key={entry.revision}
+            className={`history-item${selectedRevision?.revision === entry.revision ? ' history-item-selected' : ''}`}
+            onClick={() => handleSelect(entry.revision)}
+          >
+            <div className="history-item-title">
+              <span>#{entry.revision}</span>
+              {entry.revision === currentRevision && <span className="history-current">текущая</span>}
+            </div>
+            <div className="history-item-meta">
+              {entry.authorNickname || 'система'} · {formatTime(entry.createdAt)}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {hasMore && (
+        <button onClick={handleLoadMore} className="history-btn history-load-more" disabled={isLoading}>
+          Загрузить ранние ревизии
+        </button>
+      )}
+
+      {(selectedRevision || isPreviewLoading) && (
+        <div className="history-preview">
+          {isPreviewLoading || !selectedRevision ? (
+            <div className="history-preview-loading">Загрузка...</div>
+          ) : (
+            <>
+              <div className="history-preview-header">
+                <span>Ревизия {selectedRevision.revision}</span>
+                {!isViewer && (
+                  <button
+                    onClick={handleRestore}
+                    className="history-restore-btn"
+                    disabled={selectedRevision.revision === currentRevision}
+                  >
+                    Восстановить
+                  </button>
+                )}
+              </div>
+              <SyntaxHighlighter
+                language={selectedRevision.language}
+                style={vscDarkPlus}
+                customStyle={{ margin: 0, fontSize: '12px', maxHeight: '100%' }}
+              >
+                {selectedRevision.code || ' '}
+              </SyntaxHighlighter>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useRef } from 'react';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { notesEdited, scorecardEdited } from '../store/interviewSlice';
+import { useSocket } from '../hooks/useSocket';
+import { CandidateEvent, Recommendation, ScorecardCriterion } from '../types';
+import './InterviewPanel.css';
+
+interface InterviewPanelProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+const NOTES_SAVE_DELAY = 700;
+
+const CRITERIA: { key: ScorecardCriterion; label: string }[] = [
+  { key: 'problemSolving', label: 'Решение задачи' },
+  { key: 'codeQuality', label: 'Качество кода' },
+  { key: 'communication', label: 'Коммуникация' },
+  { key: 'testing', label: 'Тестирование' },
+];
+
+const SCORES = [1, 2, 3, 4];
+
+const RECOMMENDATIONS: { value: Recommendation; label: string }[] = [
+  { value: 'strong_no', label: 'Точно нет' },
+  { value: 'no', label: 'Скорее нет' },
+  { value: 'yes', label: 'Скорее да' },
+  { value: 'strong_yes', label: 'Точно да' },
+];
+
+const describeEvent = (event: CandidateEvent) => {
+  switch (event.type) {
+    case 'paste':
+      return `вставка текста${event.length !== undefined ? `: ${event.length} симв.` : ''}`;
+    case 'blur':
+      return 'вкладка редактора неактивна';
+    case 'focus':
+      return 'вкладка редактора снова активна';
+  }
+};
+
+/**
+ * Панель интервьюера: приватные заметки, оценка кандидата и его действия.
+ * Кандидаты эту панель не видят, а сервер не присылает им ее данные.
+ */
+export const InterviewPanel: React.FC<InterviewPanelProps> = ({ roomId, onClose }) => {
+  const dispatch = useAppDispatch();
+  const { saveInterviewNotes } = useSocket();
+  const { notes, scorecard, updatedBy, updatedAt, events } = useAppSelector((state) => state.interview);
+
+  const notesTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Заметки сохраняются после паузы в наборе, оценки - сразу.
+  // Таймер не сбрасывается при закрытии панели, чтобы последние правки не потерялись
+  const handleNotesChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value;
+    dispatch(notesEdited(value));
+    if (notesTimerRef.current) clearTimeout(notesTimerRef.current);
+    notesTimerRef.current = setTimeout(() => saveInterviewNotes(roomId, { notes: value }), NOTES_SAVE_DELAY);
+  };
+
+  const handleRatingChange = (criterion: ScorecardCriterion, value: string) => {
+    const ratings = { ...scorecard.ratings };
+    if (value) {
+      ratings[criterion] = Number(value);
+    } else {
+      delete ratings[criterion];
+    }
+    const next = { ...scorecard, ratings };
+    dispatch(scorecardEdited(next));
+    saveInterviewNotes(roomId, { scorecard: next });
+  };
+
+  const handleRecommendationChange = (value: string) => {
+    const next = { ...scorecard, recommendation: (value || null) as Recommendation | null };
+    dispatch(scorecardEdited(next));
+    saveInterviewNotes(roomId, { scorecard: next });
+  };
+
+  return (
+    <div className="interview-panel">
+      <div className="history-header">
+        <h4>Собеседование</h4>
+        <button onClick={onClose} className="history-btn" title="Закрыть">
+          ✕
+        </button>
+      </div>
+
+      <div className="interview-section">
+        <div className="interview-section-title">Заметки (видят только интервьюеры)</div>
+        <textarea
+          value={notes}
+          onChange={handleNotesChange}
+          className="interview-notes"
+          placeholder="Впечатления, вопросы, сильные и слабые стороны..."
+          spellCheck={false}
+        />
+        {updatedBy && updatedAt && (
+          <div className="interview-meta">
+            Изменено: {updatedBy}, {new Date(updatedAt).toLocaleTimeString()}
+          </div>
+        )}
+      </div>
+
+      <div className="interview-section">
+        <div className="interview-section-title">Оценка</div>
+        {CRITERIA.map(({ key, label }) => (
+          <label key={key} className="interview-score-row">
+            <span>{label}</span>
+            <select
+              value={scorecard.ratings[key] ?? ''}
+              onChange={(e) => handleRatingChange(key, e.target.value)}
+              className="language-select"
+            >
+              <option value="">—</option>
+              {SCORES.map(score => (
+                <option key={score} value={score}>{score}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="interview-score-row">
+          <span>Рекомендация</span>
+          <select
+            value={scorecard.recommendation ?? ''}
+            onChange={(e) => handleRecommendationChange(e.target.value)}
+            className="language-select"
+          >
+            <option value="">—</option>
+            {RECOMMENDATIONS.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="interview-section interview-events">
+        <div className="interview-section-title">Действия кандидата</div>
+        <ul>
+          {[...events].reverse().map((event, index) => (
+            <li key={`${event.timestamp}-${index}`} className={`interview-event interview-event-${event.type}`}>
+              <span className="interview-meta">{new Date(event.timestamp).toLocaleTimeString()}</span>
+              {' '}{event.nickname}: {describeEvent(event)}
+            </li>
+          ))}
+          {events.length === 0 && <li className="interview-meta">Пока ничего не произошло</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
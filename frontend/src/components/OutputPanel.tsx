@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { resetRun } from '../store/runSlice';
+import { RunStatus } from '../types';
+import './OutputPanel.css';
+
+export const STATUS_LABELS: Record<RunStatus, string> = {
+  success: 'завершено',
+  error: 'ошибка',
+  timeout: 'превышено время выполнения',
+  memory_limit: 'превышен лимит памяти',
+  output_limit: 'слишком большой вывод',
+  stopped: 'остановлено',
+};
+
+/**
+ * Общий для комнаты вывод последнего запуска под редактором
+ */
+export const OutputPanel: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { runId, isRunning, path, startedBy, output, result } = useAppSelector((state) => state.run);
+  const outputRef = useRef<HTMLPreElement | null>(null);
+
+  // Новый вывод прокручивается в конец, как в терминале
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [output]);
+
+  if (!runId) {
+    return null;
+  }
+
+  return (
+    <div className="output-panel">
+      <div className="output-header">
+        <span>
+          Вывод: {path}
+          {startedBy && <span className="output-meta"> · запуск: {startedBy}</span>}
+        </span>
+        <span className="output-header-actions">
+          {isRunning && <span className="output-status output-status-running">выполняется...</span>}
+          {result && (
+            <span className={`output-status output-status-${result.status}`}>
+              {STATUS_LABELS[result.status]}
+              {result.exitCode !== null && result.status !== 'success' && `, код ${result.exitCode}`}
+              {`, ${result.durationMs} мс`}
+            </span>
+          )}
+          <button onClick={() => dispatch(resetRun())} className="history-btn" title="Скрыть вывод" disabled={isRunning}>
+            ✕
+          </button>
+        </span>
+      </div>
+      <pre ref={outputRef} className="output-content">
+        {output.map((chunk, index) => (
+          <span key={index} className={`output-${chunk.stream}`}>{chunk.text}</span>
+        ))}
+        {!isRunning && output.length === 0 && <span className="output-meta">Программа ничего не вывела</span>}
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { useAppSelector } from '../hooks/redux';
+import { useSocket } from '../hooks/useSocket';
+import { BlockNode, InlineNode, parseMarkdown } from '../utils/markdown';
+import './ProblemPanel.css';
+
+interface ProblemPanelProps {
+  roomId: string;
+}
+
+const MAX_PROBLEM_LENGTH = 20000;
+
+const renderInlineNode = (node: InlineNode, key: number): React.ReactNode => {
+  switch (node.type) {
+    case 'text':
+      return <React.Fragment key={key}>{node.text}</React.Fragment>;
+    case 'code':
+      return <code key={key}>{node.text}</code>;
+    case 'strong':
+      return <strong key={key}>{renderInline(node.children)}</strong>;
+    case 'em':
+      return <em key={key}>{renderInline(node.children)}</em>;
+    case 'link':
+      return (
+        <a key={key} href={node.href} target="_blank" rel="noopener noreferrer">
+          {renderInline(node.children)}
+        </a>
+      );
+  }
+};
+
+export const renderInline = (nodes: InlineNode[]) => nodes.map(renderInlineNode);
+
+const renderBlock = (block: BlockNode, key: number): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return React.createElement(`h${block.level}`, { key }, renderInline(block.children));
+    case 'paragraph':
+      return <p key={key}>{renderInline(block.children)}</p>;
+    case 'code':
+      return <pre key={key}><code>{block.text}</code></pre>;
+    case 'list': {
+      const items = block.items.map((item, index) => <li key={index}>{renderInline(item)}</li>);
+      return block.ordered ? <ol key={key}>{items}</ol> : <ul key={key}>{items}</ul>;
+    }
+    case 'quote':
+      return <blockquote key={key}>{renderBlocks(block.children)}</blockquote>;
+    case 'rule':
+      return <hr key={key} />;
+  }
+};
+
+const renderBlocks = (blocks: BlockNode[]): React.ReactNode[] => blocks.map(renderBlock);
+
+/**
+ * Условие задачи рядом с редактором. Текст меняет только владелец комнаты,
+ * остальные участники видят его без возможности случайно отредактировать.
+ */
+export const ProblemPanel: React.FC<ProblemPanelProps> = ({ roomId }) => {
+  const { problemStatement, isOwner, isInRoom } = useAppSelector((state) => state.code);
+  const { updateProblemStatement } = useSocket();
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  // null - панель в режиме просмотра
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const blocks = useMemo(() => parseMarkdown(problemStatement), [problemStatement]);
+
+  if (!problemStatement && !isOwner) {
+    return null;
+  }
+
+  if (isCollapsed) {
+    return (
+      <div className="problem-panel problem-panel-collapsed">
+        <button onClick={() => setIsCollapsed(false)} className="problem-toggle-btn" title="Показать условие задачи">
+          Условие ▸
+        </button>
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    if (draft === null) return;
+    updateProblemStatement(roomId, draft);
+    setDraft(null);
+  };
+
+  return (
+    <div className="problem-panel">
+      <div className="problem-header">
+        <h4>Условие задачи</h4>
+        <div className="problem-header-actions">
+          {isOwner && draft === null && (
+            <button
+              onClick={() => setDraft(problemStatement)}
+              className="history-btn"
+              disabled={!isInRoom}
+              title="Редактировать условие (Markdown)"
+            >
+              Изменить
+            </button>
+          )}
+          <button onClick={() => setIsCollapsed(true)} className="history-btn" title="Свернуть">
+            ◂
+          </button>
+        </div>
+      </div>
+
+      {draft !== null ? (
+        <div className="problem-editor">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="problem-textarea"
+            placeholder={'# Название задачи\n\nОписание, примеры и ограничения в Markdown...'}
+            maxLength={MAX_PROBLEM_LENGTH}
+            spellCheck={false}
+            autoFocus
+          />
+          <div className="problem-editor-actions">
+            <button onClick={() => setDraft(null)} className="history-btn">
+              Отмена
+            </button>
+            <button onClick={handleSave} className="history-btn" disabled={!isInRoom || draft === problemStatement}>
+              Сохранить
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="problem-content">
+          {problemStatement
+            ? renderBlocks(blocks)
+            : <p className="problem-empty">Условие пока не задано. Нажмите «Изменить», чтобы добавить его.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAppDispatch } from '../hooks/redux';
+import { deleteRoom, resetRoomState, updateRoomExpiry } from '../store/codeSlice';
+import { useSocket } from '../hooks/useSocket';
+import { ShareLinksPanel } from './ShareLinksPanel';
+
+interface RoomOwnerControlsProps {
+  roomId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { hours: 1, label: '1 час' },
+  { hours: 24, label: '24 часа' },
+  { hours: 72, label: '3 дня' },
+  { hours: 168, label: '7 дней' },
+];
+
+/**
+ * Действия, доступные только владельцу комнаты
+ */
+export const RoomOwnerControls: React.FC<RoomOwnerControlsProps> = ({ roomId }) => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { leaveRoom } = useSocket();
+  const [isBusy, setIsBusy] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+
+  const handleExpiryChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const expiresInHours = Number(event.target.value);
+    if (!expiresInHours) return;
+
+    setIsBusy(true);
+    const result = await dispatch(updateRoomExpiry({ roomId, expiresInHours }));
+    if (updateRoomExpiry.rejected.match(result)) {
+      console.error('Failed to update room expiry:', result.error);
+    }
+    setIsBusy(false);
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm('Удалить комнату со всеми файлами для всех участников? Это действие необратимо.')) return;
+
+    setIsBusy(true);
+    const result = await dispatch(deleteRoom(roomId));
+    if (deleteRoom.fulfilled.match(result)) {
+      leaveRoom();
+      dispatch(resetRoomState());
+      navigate('/welcome');
+    } else {
+      console.error('Failed to delete room:', result.error);
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsShareOpen(open => !open)}
+        className={`history-toggle-btn${isShareOpen ? ' active' : ''}`}
+        title="Ссылки-приглашения для редакторов и наблюдателей"
+      >
+        Доступ
+      </button>
+      {isShareOpen && <ShareLinksPanel roomId={roomId} onClose={() => setIsShareOpen(false)} />}
+      <select
+        value=""
+        onChange={handleExpiryChange}
+        className="language-select"
+        disabled={isBusy}
+        title="Новый срок жизни комнаты, отсчитывается от текущего момента"
+      >
+        <option value="" disabled>Срок жизни...</option>
+        {EXPIRY_OPTIONS.map(option => (
+          <option key={option.hours} value={option.hours}>{option.label}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleDelete}
+        className="leave-room-btn"
+        disabled={isBusy}
+        title="Удалить комнату"
+      >
+        Удалить
+      </button>
+    </>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { deleteTemplate, fetchTemplates, saveRoomAsTemplate } from '../store/codeSlice';
+import { useSocket } from '../hooks/useSocket';
+import { RoomTemplate } from '../types';
+import './SaveTemplatePanel.css';
+
+interface SaveTemplatePanelProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Сохранение комнаты в библиотеку шаблонов: основной файл, условие задачи и файл с тестами.
+ * Панель доступна владельцу комнаты, ниже формы - сохраненные им из этой комнаты шаблоны
+ */
+export const SaveTemplatePanel: React.FC<SaveTemplatePanelProps> = ({ roomId, onClose }) => {
+  const dispatch = useAppDispatch();
+  const { sendCodeOperations } = useSocket();
+  const files = useAppSelector((state) => state.code.files);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [testsFileId, setTestsFileId] = useState('');
+  const [savedName, setSavedName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [ownTemplates, setOwnTemplates] = useState<RoomTemplate[]>([]);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      const result = await dispatch(fetchTemplates(roomId));
+      if (fetchTemplates.fulfilled.match(result)) {
+        setOwnTemplates(result.payload.filter(template => template.canDelete));
+      } else {
+        setError('Не удалось загрузить шаблоны');
+      }
+    };
+
+    loadTemplates();
+  }, [roomId, dispatch]);
+
+  const testFileOptions = files.filter(file => file.entryType === 'file' && file.id !== roomId);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setIsBusy(true);
+    setError(null);
+    // Накопленные правки отправляем до сохранения, чтобы они попали в шаблон
+    sendCodeOperations(roomId);
+    const result = await dispatch(saveRoomAsTemplate({
+      roomId,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      testsFileId: testsFileId || undefined,
+    }));
+    if (saveRoomAsTemplate.fulfilled.match(result)) {
+      const template = result.payload;
+      setSavedName(template.name);
+      setOwnTemplates(current => [...current, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setName('');
+      setDescription('');
+    } else {
+      setError('Не удалось сохранить шаблон');
+    }
+    setIsBusy(false);
+  };
+
+  const handleDelete = async (template: RoomTemplate) => {
+    if (!window.confirm(`Удалить шаблон «${template.name}»? Созданные из него комнаты останутся.`)) return;
+
+    const result = await dispatch(deleteTemplate({ roomId, templateId: template.id }));
+    if (deleteTemplate.fulfilled.match(result)) {
+      setOwnTemplates(current => current.filter(item => item.id !== template.id));
+    } else {
+      setError('Не удалось удалить шаблон');
+    }
+  };
+
+  return (
+    <div className="template-panel">
+      <div className="template-header">
+        <h4>Сохранить как шаблон</h4>
+        <button onClick={onClose} className="history-btn" title="Закрыть">
+          ✕
+        </button>
+      </div>
+
+      {error && <div className="history-error">{error}</div>}
+      {savedName && <div className="template-saved">Шаблон «{savedName}» доступен при создании комнаты</div>}
+
+      <form onSubmit={handleSubmit} className="template-form">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Название"
+          maxLength={MAX_NAME_LENGTH}
+          disabled={isBusy}
+          autoFocus
+        />
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Описание (необязательно)"
+          maxLength={MAX_DESCRIPTION_LENGTH}
+          disabled={isBusy}
+        />
+        <label>
+          Тесты:
+          <select
+            value={testsFileId}
+            onChange={(e) => setTestsFileId(e.target.value)}
+            className="language-select"
+            disabled={isBusy}
+          >
+            <option value="">без тестов</option>
+            {testFileOptions.map(file => (
+              <option key={file.id} value={file.id}>{file.path}</option>
+            ))}
+          </select>
+        </label>
+        <span className="template-hint">В шаблон попадут основной файл комнаты и условие задачи</span>
+        <button type="submit" className="history-btn" disabled={isBusy || !name.trim()}>
+          Сохранить
+        </button>
+      </form>
+
+      {ownTemplates.length > 0 && (
+        <ul className="template-list">
+          {ownTemplates.map(template => (
+            <li key={template.id}>
+              <span className="template-name" title={template.description || undefined}>{template.name}</span>
+              <button onClick={() => handleDelete(template)} className="history-btn" title="Удалить шаблон">
+                Удалить
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
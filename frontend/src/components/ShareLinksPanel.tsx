@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { createShareLink, fetchShareLinks, revokeShareLink, updateDefaultRole } from '../store/codeSlice';
+import { InterviewRole, RoomRole, ShareLink } from '../types';
+import './ShareLinksPanel.css';
+
+interface ShareLinksPanelProps {
+  roomId: string;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<RoomRole, string> = {
+  editor: 'Редактор',
+  viewer: 'Наблюдатель',
+};
+
+const buildInviteUrl = (roomId: string, token: string) => `${window.location.origin}/room/${roomId}?invite=${token}`;
+
+/**
+ * Панель владельца: ссылки-приглашения с ролью и доступ по обычной ссылке
+ */
+export const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({ roomId, onClose }) => {
+  const dispatch = useAppDispatch();
+  const mode = useAppSelector((state) => state.code.mode);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [defaultRole, setDefaultRole] = useState<RoomRole>('editor');
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    const loadLinks = async () => {
+      const result = await dispatch(fetchShareLinks(roomId));
+      if (fetchShareLinks.fulfilled.match(result)) {
+        setLinks(result.payload.links);
+        setDefaultRole(result.payload.defaultRole);
+      } else {
+        setError('Не удалось загрузить ссылки');
+      }
+    };
+
+    loadLinks();
+  }, [roomId, dispatch]);
+
+  const handleCreate = async (role: RoomRole, interviewRole?: InterviewRole) => {
+    setIsBusy(true);
+    setError(null);
+    const result = await dispatch(createShareLink({ roomId, role, interviewRole }));
+    if (createShareLink.fulfilled.match(result)) {
+      const { token, ...link } = result.payload;
+      setLinks(current => [...current, link]);
+      setCreatedUrl(token ? buildInviteUrl(roomId, token) : null);
+    } else {
+      setError('Не удалось создать ссылку');
+    }
+    setIsBusy(false);
+  };
+
+  const handleRevoke = async (linkId: string) => {
+    if (!window.confirm('Отозвать ссылку? Вошедшие по ней участники получат доступ по умолчанию.')) return;
+
+    const result = await dispatch(revokeShareLink({ roomId, linkId }));
+    if (revokeShareLink.fulfilled.match(result)) {
+      setLinks(current => current.filter(link => link.id !== linkId));
+    } else {
+      setError('Не удалось отозвать ссылку');
+    }
+  };
+
+  const handleDefaultRoleChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const role = event.target.value as RoomRole;
+    const result = await dispatch(updateDefaultRole({ roomId, defaultRole: role }));
+    if (updateDefaultRole.fulfilled.match(result)) {
+      setDefaultRole(role);
+    } else {
+      setError('Не удалось изменить доступ');
+    }
+  };
+
+  const handleCopy = () => {
+    if (createdUrl) {
+      navigator.clipboard?.writeText(createdUrl).catch(err => console.error('Failed to copy link:', err));
+    }
+  };
+
+  return (
+    <div className="share-panel">
+      <div className="share-header">
+        <h4>Доступ к комнате</h4>
+        <button onClick={onClose} className="history-btn" title="Закрыть">
+          ✕
+        </button>
+      </div>
+
+      {error && <div className="history-error">{error}</div>}
+
+      <label className="share-default-role">
+        По обычной ссылке:
+        <select value={defaultRole} onChange={handleDefaultRoleChange} className="language-select">
+          <option value="editor">редактирование</option>
+          <option value="viewer">только просмотр</option>
+        </select>
+      </label>
+
+      <div className="share-actions">
+        <button onClick={() => handleCreate('editor')} className="history-btn" disabled={isBusy}>
+          + Ссылка для редактора
+        </button>
+        <button onClick={() => handleCreate('viewer')} className="history-btn" disabled={isBusy}>
+          + Ссылка для наблюдателя
+        </button>
+        {mode === 'interview' && (
+          <button onClick={() => handleCreate('editor', 'interviewer')} className="history-btn" disabled={isBusy}>
+            + Ссылка для интервьюера
+          </button>
+        )}
+      </div>
+
+      {createdUrl && (
+        <div className="share-created">
+          <span>Ссылка показывается один раз:</span>
+          <div className="share-created-row">
+            <input value={createdUrl} readOnly onFocus={(e) => e.target.select()} />
+            <button onClick={handleCopy} className="history-btn">Копировать</button>
+          </div>
+        </div>
+      )}
+
+      <ul className="share-list">
+        {links.map(link => (
+          <li key={link.id}>
+            <span>{link.interviewRole === 'interviewer' ? 'Интервьюер' : ROLE_LABELS[link.role]}</span>
+            <span className="share-date">{new Date(link.createdAt).toLocaleString()}</span>
+            <button onClick={() => handleRevoke(link.id)} className="history-btn" title="Отозвать ссылку">
+              Отозвать
+            </button>
+          </li>
+        ))}
+        {links.length === 0 && <li className="share-empty">Приглашений пока нет</li>}
+      </ul>
+    </div>
+  );
+};
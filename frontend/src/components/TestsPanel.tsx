@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { useAppSelector } from '../hooks/redux';
+import { useSocket } from '../hooks/useSocket';
+import { STATUS_LABELS } from './OutputPanel';
+import { TestCase, TestCaseResult, TestRunSummary } from '../types';
+import './TestsPanel.css';
+
+interface TestsPanelProps {
+  roomId: string;
+  fileId: string | null;
+  canRun: boolean;
+  onClose: () => void;
+}
+
+const MAX_TEST_CASE_LENGTH = 64 * 1024;
+
+interface TestCaseDraft {
+  input: string;
+  expectedOutput: string;
+  isHidden: boolean;
+}
+
+const SUMMARY_NOTES: Record<TestRunSummary['status'], string> = {
+  completed: '',
+  stopped: ' · остановлено',
+  error: ' · ошибка запуска',
+};
+
+const EMPTY_DRAFT: TestCaseDraft = { input: '', expectedOutput: '', isHidden: false };
+
+interface TestCaseFormProps {
+  initial: TestCaseDraft;
+  submitLabel: string;
+  onSubmit: (draft: TestCaseDraft) => void;
+  onCancel?: () => void;
+}
+
+const TestCaseForm: React.FC<TestCaseFormProps> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [draft, setDraft] = useState<TestCaseDraft>(initial);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(draft);
+    if (!onCancel) {
+      setDraft(EMPTY_DRAFT);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="tests-form">
+      <textarea
+        value={draft.input}
+        onChange={(e) => setDraft({ ...draft, input: e.target.value })}
+        placeholder="Ввод (stdin)"
+        maxLength={MAX_TEST_CASE_LENGTH}
+        spellCheck={false}
+      />
+      <textarea
+        value={draft.expectedOutput}
+        onChange={(e) => setDraft({ ...draft, expectedOutput: e.target.value })}
+        placeholder="Ожидаемый вывод"
+        maxLength={MAX_TEST_CASE_LENGTH}
+        spellCheck={false}
+      />
+      <div className="tests-form-actions">
+        <label title="Кандидат увидит только результат теста, но не ввод и ожидаемый вывод">
+          <input
+            type="checkbox"
+            checked={draft.isHidden}
+            onChange={(e) => setDraft({ ...draft, isHidden: e.target.checked })}
+          />
+          Скрытый
+        </label>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="history-btn">
+            Отмена
+          </button>
+        )}
+        <button type="submit" className="history-btn">
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const renderResult = (result: TestCaseResult | undefined, isPending: boolean) => {
+  if (!result) {
+    return isPending ? <span className="tests-badge tests-badge-pending">…</span> : null;
+  }
+  if (result.passed) {
+    return <span className="tests-badge tests-badge-passed">✓ {result.durationMs} мс</span>;
+  }
+  return (
+    <span className="tests-badge tests-badge-failed">
+      ✗ {result.status === 'success' ? 'неверный ответ' : STATUS_LABELS[result.status]}
+    </span>
+  );
+};
+
+/**
+ * Тесты задачи: владелец добавляет открытые и скрытые тесты, участники запускают их на открытом файле.
+ * Программа получает ввод теста на stdin, ее вывод сравнивается с ожидаемым
+ */
+export const TestsPanel: React.FC<TestsPanelProps> = ({ roomId, fileId, canRun, onClose }) => {
+  const { runTests, saveTestCase, deleteTestCase } = useSocket();
+  const isOwner = useAppSelector((state) => state.code.isOwner);
+  const isCodeRunning = useAppSelector((state) => state.run.isRunning);
+  const { testCases, runId, isRunning, path, startedBy, testIds, results, summary } = useAppSelector(
+    (state) => state.tests,
+  );
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const renderTestCase = (testCase: TestCase, index: number) => {
+    const result = results[testCase.id];
+    const isEditing = editingId === testCase.id;
+
+    return (
+      <li key={testCase.id} className="tests-item">
+        <div className="tests-item-header">
+          <span>
+            Тест {index + 1}
+            {testCase.isHidden && <span className="tests-hidden" title="Содержимое видит только владелец"> 🔒 скрытый</span>}
+          </span>
+          <span className="tests-item-actions">
+            {renderResult(result, isRunning && testIds.includes(testCase.id))}
+            {isOwner && !isEditing && (
+              <>
+                <button onClick={() => setEditingId(testCase.id)} className="history-btn" title="Изменить тест">
+                  ✎
+                </button>
+                <button onClick={() => deleteTestCase(roomId, testCase.id)} className="history-btn" title="Удалить тест">
+                  ✕
+                </button>
+              </>
+            )}
+          </span>
+        </div>
+
+        {isEditing ? (
+          <TestCaseForm
+            initial={{
+              input: testCase.input || '',
+              expectedOutput: testCase.expectedOutput || '',
+              isHidden: testCase.isHidden,
+            }}
+            submitLabel="Сохранить"
+            onSubmit={(draft) => {
+              saveTestCase(roomId, draft, testCase.id);
+              setEditingId(null);
+            }}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : testCase.input !== undefined && (
+          <div className="tests-io">
+            <span className="tests-label">Ввод</span>
+            <pre>{testCase.input || ' '}</pre>
+            <span className="tests-label">Ожидается</span>
+            <pre>{testCase.expectedOutput || ' '}</pre>
+          </div>
+        )}
+
+        {result && !result.passed && (result.actualOutput !== undefined || result.errorOutput) && (
+          <div className="tests-io">
+            <span className="tests-label">Получено</span>
+            <pre>{result.actualOutput || ' '}</pre>
+            {result.errorOutput && <pre className="tests-stderr">{result.errorOutput}</pre>}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="tests-panel">
+      <div className="tests-header">
+        <h4>Тесты ({testCases.length})</h4>
+        <button onClick={onClose} className="history-btn" title="Закрыть">
+          ✕
+        </button>
+      </div>
+
+      <div className="tests-run">
+        {canRun && (
+          <button
+            onClick={() => fileId && runTests(roomId, fileId)}
+            className="run-btn"
+            disabled={!fileId || isRunning || isCodeRunning || testCases.length === 0}
+            title="Запустить открытый файл на всех тестах, результаты увидят все участники"
+          >
+            ▶ Запустить тесты
+          </button>
+        )}
+        {runId && (
+          <span className="tests-summary">
+            {isRunning
+              ? `Выполняется: ${Object.keys(results).length} из ${testIds.length}`
+              : summary && `Пройдено ${summary.passed} из ${summary.total}${SUMMARY_NOTES[summary.status]}`}
+            <span className="output-meta"> · {path}{startedBy && `, запуск: ${startedBy}`}</span>
+          </span>
+        )}
+      </div>
+
+      <ul className="tests-list">
+        {testCases.map(renderTestCase)}
+        {testCases.length === 0 && <li className="tests-empty">Тестов пока нет</li>}
+      </ul>
+
+      {isOwner && (
+        <div className="tests-add">
+          <span className="tests-label">Новый тест</span>
+          <TestCaseForm
+            initial={EMPTY_DRAFT}
+            submitLabel="Добавить"
+            onSubmit={(draft) => saveTestCase(roomId, draft)}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -10,6 +10,9 @@ interface UserCursorProps {
   preserveVisual?: boolean;
 }
 
+// Цвет пользователя зависит от ника: курсор и выделение одного участника совпадают по цвету
+export const getUserHue = (nickname: string) => nickname.charCodeAt(0) * 7 % 360;
+
 export const UserCursor: React.FC<UserCursorProps> = ({ 
   nickname, 
   position, 
@@ -47,7 +50,7 @@ export const UserCursor: React.FC<UserCursorProps> = ({
 
   const { top, left } = getCursorPosition();
 
-  const cursorColor = `hsl(${nickname.charCodeAt(0) * 7 % 360}, 70%, 60%)`;
+  const cursorColor = `hsl(${getUserHue(nickname)}, 70%, 60%)`;
 
   return (
     <div
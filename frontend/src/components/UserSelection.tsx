@@ -0,0 +1,43 @@
+import React from 'react';
+import { getUserHue } from './UserCursor';
+import { getSelectionLineSpans } from '../utils/selectionRanges';
+import './UserSelection.css';
+
+interface UserSelectionProps {
+  nickname: string;
+  anchor: number;
+  head: number;
+  code: string;
+  lineHeight: number;
+  charWidth: number;
+}
+
+/**
+ * Полупрозрачная подсветка текста, выделенного другим участником.
+ * Рисуется под курсором участника отдельным прямоугольником на каждую строку
+ */
+export const UserSelection: React.FC<UserSelectionProps> = ({ nickname, anchor, head, code, lineHeight, charWidth }) => {
+  const background = `hsla(${getUserHue(nickname)}, 70%, 60%, 0.25)`;
+
+  return (
+    <>
+      {getSelectionLineSpans(code, anchor, head).map(span => {
+        // Выделенный перевод строки показываем как полсимвола после конца строки
+        const width = (span.endColumn - span.startColumn) * charWidth + (span.includesLineBreak ? charWidth / 2 : 0);
+        return (
+          <div
+            key={span.line}
+            className="user-selection"
+            style={{
+              top: `${span.line * lineHeight + 15}px`, // +15 for padding
+              left: `${span.startColumn * charWidth + 15}px`,
+              width: `${width}px`,
+              height: `${lineHeight}px`,
+              backgroundColor: background,
+            }}
+          />
+        );
+      })}
+    </>
+  );
+};
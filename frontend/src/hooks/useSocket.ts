@@ -1,16 +1,445 @@
 import { useEffect, useRef } from 'react';
 import { useAppDispatch, useAppSelector } from './redux';
 import { io, Socket } from 'socket.io-client';
-import { setConnected, setInRoom, setUsers, setCurrentUserId, updateUserCursor, updateCode, updateLanguage, setError } from '../store/codeSlice';
-import { User, ServerCursor } from '../types';
-import { calculateTextOperation } from '../utils/cursorTransform';
+import {
+  setConnected,
+  setInRoom,
+  setUsers,
+  setCurrentUserId,
+  updateUserCursor,
+  updateCode,
+  updateLanguage,
+  setError,
+  operationsSent,
+  operationsAcknowledged,
+  applyRemoteOperations,
+  applyCrdtUpdate,
+  outstandingOperationsDropped,
+  localChangesDiscarded,
+  documentResynced,
+  setReconnectState,
+  setPendingEditCount,
+  setFiles,
+  setSwitchingFile,
+  fileOpened,
+  setCommentThreads,
+  commentThreadUpdated,
+  commentThreadDeleted,
+  codePingReceived,
+  codePingExpired,
+  setUserFile,
+  updateUserViewport,
+  setPresenter,
+  updateFileLanguage,
+  setRoomAccess,
+  setRole,
+  setRoomExpiry,
+  setPasswordStatus,
+  setRoomLocked,
+  setInterviewRole,
+  setProblemStatement,
+} from '../store/codeSlice';
+import { fetchHistory } from '../store/historySlice';
+import {
+  candidateEventReceived,
+  interviewNotesLoaded,
+  interviewNotesUpdated,
+  resetInterview,
+} from '../store/interviewSlice';
+import { runFinished, runOutputReceived, runStarted } from '../store/runSlice';
+import { setTestCases, testResultReceived, testsFinished, testsStarted } from '../store/testsSlice';
+import { chatHistoryLoaded, chatMessageReceived } from '../store/chatSlice';
+import type { AppDispatch, RootState } from '../store';
+import {
+  User,
+  ServerCursor,
+  RoomFileEntry,
+  FileEntryType,
+  SyncEngine,
+  RoomRole,
+  PasswordStatus,
+  RoomMode,
+  InterviewRole,
+  InterviewState,
+  CandidateEvent,
+  Scorecard,
+  RunOutputChunk,
+  RunResult,
+  TestCase,
+  TestCaseResult,
+  TestRunSummary,
+  ChatMessage,
+  CommentThread,
+  CodePing,
+} from '../types';
+import { calculateTextOperation, TextOperation } from '../utils/cursorTransform';
+import { diffToOperations, hashText } from '../utils/textOperations';
+import { CrdtDocument, CrdtOperation, rebaseCrdtOperations, SerializedCrdtState } from '../utils/crdtDocument';
+import { getClientId } from '../utils/session';
+import { appendOfflineEdit, clearOfflineQueue, loadOfflineQueue, rebaseOfflineQueue } from '../utils/offlineQueue';
+import {
+  getInviteToken,
+  getOwnerToken,
+  getParticipantToken,
+  getRoomPassword,
+  removeOwnerToken,
+  removeRoomPassword,
+  saveParticipantToken,
+} from '../utils/roomTokens';
+import { v4 as uuidv4 } from 'uuid';
 
 const SOCKET_URL = process.env.REACT_APP_SOCKET_URL || 'http://localhost:3001';
+// Сколько подсвечивается фрагмент, на который указал участник
+const CODE_PING_DURATION_MS = 3000;
 
 // Глобальный socket instance
 let globalSocket: Socket | null = null;
 let globalDispatch: any = null;
 let globalState: any = null;
+// Последняя комната, в которую вошел пользователь - в нее возвращаемся после переподключения
+let lastJoinedRoom: {
+  roomId: string;
+  nickname?: string;
+  ownerToken?: string;
+  inviteToken?: string;
+  password?: string;
+} | null = null;
+
+// Ошибки join_room для комнаты с паролем, текст совпадает с ответами REST API
+const PASSWORD_ERRORS: Record<string, PasswordStatus> = {
+  'Password required': 'required',
+  'Invalid password': 'invalid',
+  'Too many password attempts, try again later': 'blocked',
+};
+
+// CRDT документ открытого файла (только для комнат с syncEngine = 'crdt')
+let crdtDocument: CrdtDocument | null = null;
+let crdtFileId: string | null = null;
+// Номер документа от сервера: по нему сервер отличает операции по замененному документу
+let crdtEpoch: number | undefined;
+// Локальные CRDT операции, еще не подтвержденные сервером
+let unacknowledgedCrdtOperations: CrdtOperation[] = [];
+// Предел операций в одном сообщении, совпадает с проверкой на сервере
+const MAX_CRDT_OPERATIONS_PER_MESSAGE = 1000;
+// Файл, который нужно открыть после подтверждения правок текущего файла
+let pendingFileSwitch: string | null = null;
+
+/**
+ * Перенос локальных изменений текста в CRDT документ
+ */
+const captureCrdtChanges = (code: string): CrdtOperation[] => {
+  if (!crdtDocument) return [];
+  return crdtDocument.localEdit(diffToOperations(crdtDocument.getText(), code));
+};
+
+// Большие правки (например, вставка файла) отправляются несколькими сообщениями, сервер подтверждает каждое
+const sendCrdtOperations = (roomId: string, fileId: string, operations: CrdtOperation[]) => {
+  for (let start = 0; start < operations.length; start += MAX_CRDT_OPERATIONS_PER_MESSAGE) {
+    globalSocket?.emit('crdt_ops', {
+      roomId,
+      fileId,
+      epoch: crdtEpoch,
+      operations: operations.slice(start, start + MAX_CRDT_OPERATIONS_PER_MESSAGE),
+    });
+  }
+};
+
+const emitCrdtOperations = (roomId: string, fileId: string, operations: CrdtOperation[]) => {
+  if (operations.length === 0) return;
+  unacknowledgedCrdtOperations.push(...operations);
+  sendCrdtOperations(roomId, fileId, operations);
+};
+
+/**
+ * Документ от сервера заменяет локальную копию. Неподтвержденные правки переносятся в него,
+ * после чего вызывающий отправляет их заново: пакеты по прежнему документу сервер отбрасывает
+ */
+const loadCrdtDocument = (fileId: string, state: SerializedCrdtState | undefined, epoch: number | undefined) => {
+  const previous = crdtFileId === fileId ? crdtDocument : null;
+  const document = CrdtDocument.fromState(state, getClientId());
+
+  unacknowledgedCrdtOperations = previous
+    ? rebaseCrdtOperations(previous, document, unacknowledgedCrdtOperations)
+    : [];
+  crdtDocument = document;
+  crdtFileId = fileId;
+  crdtEpoch = epoch;
+};
+
+/**
+ * Отправка накопленных локальных правок в виде операций.
+ * Одновременно на сервере может находиться только одна пачка операций,
+ * следующая отправляется после подтверждения (code_ops_ack).
+ */
+const flushCodeOperations = (roomId: string) => {
+  if (!globalDispatch) return;
+
+  globalDispatch((dispatch: AppDispatch, getState: () => RootState) => {
+    const { currentFile, syncedCode, revision, outstandingOperations, isInRoom, reconnectState } = getState().code;
+    if (!currentFile) return;
+
+    if (!isInRoom || !globalSocket?.connected) {
+      // Без связи сохраняем правки в очередь, чтобы они пережили перезагрузку страницы
+      if (reconnectState !== 'none') {
+        const queue = appendOfflineEdit(currentFile.id, revision, syncedCode, currentFile.code);
+        dispatch(setPendingEditCount(queue.edits.length));
+      }
+      return;
+    }
+
+    // В CRDT режиме операции не ждут подтверждения - порядок применения не важен
+    if (currentFile.syncEngine === 'crdt') {
+      emitCrdtOperations(roomId, currentFile.id, captureCrdtChanges(currentFile.code));
+      return;
+    }
+
+    if (outstandingOperations) return;
+
+    const operations = diffToOperations(syncedCode, currentFile.code);
+    if (operations.length === 0) return;
+
+    const operationId = uuidv4();
+    globalSocket.emit('code_ops', { roomId, fileId: currentFile.id, baseRevision: revision, operations, operationId });
+    dispatch(operationsSent({ operations, operationId }));
+  });
+};
+
+/**
+ * Открытие другого файла комнаты. Сначала на сервер уходят все правки текущего файла:
+ * в OT режиме переключение ждет их подтверждения, чтобы не потерять неотправленный остаток.
+ */
+const openRoomFile = (roomId: string, fileId: string) => {
+  if (!globalDispatch) return;
+
+  pendingFileSwitch = fileId;
+  globalDispatch(setSwitchingFile(true));
+  flushCodeOperations(roomId);
+  completeFileSwitch();
+};
+
+const completeFileSwitch = () => {
+  if (!pendingFileSwitch || !globalDispatch) return;
+
+  globalDispatch((dispatch: AppDispatch, getState: () => RootState) => {
+    const { roomId, currentFile, syncedCode, outstandingOperations } = getState().code;
+    if (!roomId || !currentFile || !pendingFileSwitch) return;
+
+    if (currentFile.syncEngine === 'crdt') {
+      emitCrdtOperations(roomId, currentFile.id, captureCrdtChanges(currentFile.code));
+    } else if (outstandingOperations || syncedCode !== currentFile.code) {
+      return;
+    }
+
+    globalSocket?.emit('open_file', { roomId, fileId: pendingFileSwitch });
+    pendingFileSwitch = null;
+  });
+};
+
+/**
+ * Повторный вход в комнату после восстановления соединения.
+ * Сервер по ревизии и хешу решает, прислать пропущенные операции или полный снимок.
+ */
+const rejoinLastRoom = () => {
+  if (!lastJoinedRoom || !globalDispatch) return;
+  const room = lastJoinedRoom;
+
+  globalDispatch((dispatch: AppDispatch, getState: () => RootState) => {
+    const { syncedCode, revision, currentFile, roomId } = getState().code;
+    // Возвращаемся в тот же файл, который был открыт до разрыва связи
+    const fileId = roomId === room.roomId ? currentFile?.id : undefined;
+    const resync = fileId && currentFile?.syncEngine !== 'crdt'
+      ? { revision, hash: hashText(syncedCode) }
+      : undefined;
+
+    dispatch(setReconnectState({ reconnectState: 'resyncing' }));
+    const participantToken = getParticipantToken(room.roomId) || undefined;
+    globalSocket?.emit('join_room', { ...room, participantToken, fileId, resync });
+  });
+};
+
+// Снимок или догоняющие операции файла (ответ на join_room и open_file)
+interface FilePayload {
+  roomId: string;
+  fileId: string;
+  path: string;
+  language: string;
+  revision: number;
+  hash: string;
+  syncEngine?: string;
+  // Полный снимок документа
+  code?: string;
+  crdtState?: SerializedCrdtState;
+  crdtEpoch?: number;
+  // Только пропущенные операции (при переподключении)
+  missingOperations?: Array<{ revision: number; operations: TextOperation[]; operationId?: string }>;
+  allCursors?: ServerCursor[];
+}
+
+interface JoinedRoomData extends FilePayload {
+  files: RoomFileEntry[];
+  isOwner?: boolean;
+  role?: RoomRole;
+  participantToken?: string;
+  expiresAt?: string;
+  isLocked?: boolean;
+  mode?: RoomMode;
+  interviewRole?: InterviewRole;
+  problemStatement?: string;
+  presenterId?: string | null;
+}
+
+const toCodeFile = (data: FilePayload, code: string) => ({
+  id: data.fileId,
+  roomId: data.roomId,
+  path: data.path,
+  code,
+  language: data.language,
+  revision: data.revision,
+  syncEngine: data.syncEngine as SyncEngine | undefined,
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Правки из очереди, сохраненной до перезагрузки страницы, переносим на актуальный текст файла
+ */
+const replayOfflineQueue = (fileId: string) => (dispatch: AppDispatch, getState: () => RootState) => {
+  const offlineQueue = loadOfflineQueue(fileId);
+  if (offlineQueue && offlineQueue.edits.length > 0) {
+    const serverCode = getState().code.currentFile?.code || '';
+    dispatch(updateCode({ code: rebaseOfflineQueue(offlineQueue, serverCode) }));
+    dispatch(setPendingEditCount(offlineQueue.edits.length));
+  }
+};
+
+/**
+ * Применение ответа на join_room: снимок документа или догоняющие операции
+ */
+const handleJoinedRoom = (data: JoinedRoomData) => (dispatch: AppDispatch, getState: () => RootState) => {
+  const { currentFile, reconnectState } = getState().code;
+  const isRejoin = reconnectState !== 'none' && currentFile?.id === data.fileId;
+  // Сервер мог вернуть другой файл, например если открытый файл удалили, пока не было связи
+  const isOtherFile = currentFile?.id !== data.fileId;
+
+  if (data.participantToken) {
+    saveParticipantToken(data.roomId, data.participantToken);
+  }
+  dispatch(setFiles(data.files));
+  dispatch(setRoomAccess({
+    isOwner: data.isOwner === true,
+    role: data.role,
+    expiresAt: data.expiresAt,
+    isLocked: data.isLocked,
+    mode: data.mode,
+    interviewRole: data.interviewRole,
+    problemStatement: data.problemStatement,
+    presenterId: data.presenterId,
+  }));
+
+  // Документ разошелся с сервером после догоняющих операций - ждем полный снимок
+  let isDesynced = false;
+  if (data.syncEngine === 'crdt') {
+    // Правки, сделанные без связи, фиксируем до загрузки нового состояния
+    if (isRejoin && crdtFileId === data.fileId) {
+      unacknowledgedCrdtOperations.push(...captureCrdtChanges(currentFile!.code));
+    }
+    loadCrdtDocument(data.fileId, data.crdtState, data.crdtEpoch);
+    const code = crdtDocument!.getText();
+
+    if (isOtherFile) {
+      dispatch(fileOpened({ file: toCodeFile(data, code) }));
+    } else {
+      dispatch(updateCode({ code, language: data.language }));
+      dispatch(documentResynced({ code, language: data.language, revision: data.revision }));
+    }
+  } else if (data.missingOperations) {
+    data.missingOperations.forEach(entry => {
+      const { outstandingOperationId } = getState().code;
+      if (entry.operationId && entry.operationId === outstandingOperationId) {
+        // Наши операции дошли до сервера, потерялось только подтверждение
+        dispatch(operationsAcknowledged({ revision: entry.revision }));
+      } else {
+        dispatch(applyRemoteOperations({ operations: entry.operations, revision: entry.revision }));
+      }
+    });
+    dispatch(outstandingOperationsDropped());
+    dispatch(updateLanguage(data.language));
+
+    if (hashText(getState().code.syncedCode) !== data.hash) {
+      isDesynced = true;
+      globalSocket?.emit('request_resync', { roomId: data.roomId, fileId: data.fileId });
+    }
+  } else {
+    crdtDocument = null;
+    crdtFileId = null;
+    unacknowledgedCrdtOperations = [];
+
+    const code = data.code || '';
+    if (isOtherFile) {
+      dispatch(fileOpened({ file: toCodeFile(data, code) }));
+    } else {
+      if (!isRejoin) {
+        dispatch(updateCode({ code, language: data.language }));
+      }
+      dispatch(documentResynced({
+        code,
+        language: data.language,
+        revision: data.revision,
+        rebaseLocalChanges: isRejoin,
+      }));
+    }
+  }
+
+  // При переподключении без перезагрузки офлайн правки уже есть в store
+  if (!isRejoin) {
+    dispatch(replayOfflineQueue(data.fileId));
+  }
+
+  dispatch(setInRoom(true));
+  dispatch(setReconnectState({ reconnectState: isDesynced ? 'resyncing' : 'none' }));
+
+  if (crdtDocument && unacknowledgedCrdtOperations.length > 0) {
+    sendCrdtOperations(data.roomId, data.fileId, unacknowledgedCrdtOperations);
+  }
+  // Отправляем правки, накопленные за время отсутствия связи
+  flushCodeOperations(data.roomId);
+};
+
+/**
+ * Ответ на open_file: в редакторе открывается другой файл комнаты
+ */
+const handleFileOpened = (data: FilePayload) => (dispatch: AppDispatch) => {
+  let code = data.code || '';
+  if (data.syncEngine === 'crdt') {
+    loadCrdtDocument(data.fileId, data.crdtState, data.crdtEpoch);
+    code = crdtDocument!.getText();
+    sendCrdtOperations(data.roomId, data.fileId, unacknowledgedCrdtOperations);
+  } else {
+    crdtDocument = null;
+    crdtFileId = null;
+    unacknowledgedCrdtOperations = [];
+  }
+
+  dispatch(fileOpened({ file: toCodeFile(data, code), serverCursors: data.allCursors }));
+  dispatch(replayOfflineQueue(data.fileId));
+  flushCodeOperations(data.roomId);
+};
+
+/**
+ * Очередь офлайн правок больше не нужна, когда сервер подтвердил все локальные изменения
+ */
+const clearOfflineQueueIfSynced = (fileId: string) => (dispatch: AppDispatch, getState: () => RootState) => {
+  const { currentFile, syncedCode, outstandingOperations, pendingEditCount } = getState().code;
+  if (!currentFile || pendingEditCount === 0) return;
+
+  const isSynced = currentFile.syncEngine === 'crdt'
+    ? unacknowledgedCrdtOperations.length === 0 && crdtDocument?.getText() === currentFile.code
+    : !outstandingOperations && syncedCode === currentFile.code;
+
+  if (isSynced) {
+    clearOfflineQueue(fileId);
+    dispatch(setPendingEditCount(0));
+  }
+};
 
 export const useSocket = () => {
   const dispatch = useAppDispatch();
@@ -48,17 +477,185 @@ export const useSocket = () => {
       if (socket.id) {
         globalDispatch(setCurrentUserId(socket.id));
       }
+      rejoinLastRoom();
     });
 
-    socket.on('disconnect', () => {
+    socket.on('disconnect', (reason: string) => {
       globalDispatch(setConnected(false));
       globalDispatch(setInRoom(false));
+      // Незавершенное переключение файла отменяется - после переподключения вернемся в текущий файл
+      pendingFileSwitch = null;
+      globalDispatch(setSwitchingFile(false));
+
+      // После отключения сервером socket.io не переподключается сам
+      if (reason === 'io server disconnect') {
+        lastJoinedRoom = null;
+        globalDispatch(setReconnectState({ reconnectState: 'none' }));
+      } else if (lastJoinedRoom) {
+        globalDispatch(setReconnectState({ reconnectState: 'reconnecting' }));
+      }
+    });
+
+    socket.io.on('reconnect_attempt', (attempt: number) => {
+      if (lastJoinedRoom) {
+        globalDispatch(setReconnectState({ reconnectState: 'reconnecting', attempt }));
+      }
+    });
+
+    socket.on('joined_room', (data: JoinedRoomData) => {
+      globalDispatch(handleJoinedRoom(data));
+    });
+
+    socket.on('file_opened', (data: FilePayload) => {
+      globalDispatch(handleFileOpened(data));
+    });
+
+    socket.on('file_tree_updated', (data: {
+      files: RoomFileEntry[];
+      action: 'created' | 'moved' | 'deleted';
+      fileId: string;
+      userId: string;
+    }) => {
+      globalDispatch((dispatch: AppDispatch, getState: () => RootState) => {
+        dispatch(setFiles(data.files));
+
+        const { roomId, currentFile, currentUserId } = getState().code;
+        if (!roomId || !currentFile) return;
+
+        if (!data.files.some(file => file.id === currentFile.id)) {
+          // Открытый файл удален - возвращаемся к основному файлу комнаты
+          openRoomFile(roomId, roomId);
+          return;
+        }
+
+        const created = data.files.find(file => file.id === data.fileId);
+        if (data.action === 'created' && data.userId === currentUserId && created?.entryType === 'file') {
+          openRoomFile(roomId, created.id);
+        }
+      });
+    });
+
+    socket.on('user_file_changed', (data: { userId: string; fileId: string }) => {
+      globalDispatch(setUserFile(data));
+    });
+
+    socket.on('viewport_updated', (data: { fileId?: string; userId: string; topLine: number }) => {
+      globalDispatch(updateUserViewport(data));
+    });
+
+    socket.on('presenter_changed', (data: { roomId: string; presenterId: string | null; fileId?: string; topLine?: number }) => {
+      globalDispatch(setPresenter(data));
+    });
+
+    socket.on('room_deleted', (data: { roomId: string }) => {
+      lastJoinedRoom = null;
+      removeOwnerToken(data.roomId);
+      globalDispatch(setInRoom(false));
+      globalDispatch(setError('This room has been deleted by its owner'));
+    });
+
+    socket.on('role_changed', (data: { role: RoomRole }) => {
+      globalDispatch(setRole(data.role));
+    });
+
+    socket.on('users_updated', (data: { users: User[] }) => {
+      globalDispatch(setUsers(data.users));
+    });
+
+    socket.on('room_expiry_changed', (data: { roomId: string; expiresAt: string }) => {
+      globalDispatch(setRoomExpiry(data.expiresAt));
+    });
+
+    socket.on('room_lock_changed', (data: { roomId: string; isLocked: boolean }) => {
+      globalDispatch(setRoomLocked(data.isLocked));
+    });
+
+    socket.on('problem_updated', (data: { roomId: string; problemStatement: string }) => {
+      globalDispatch(setProblemStatement(data.problemStatement));
+    });
+
+    // Данные собеседования приходят только интервьюерам
+    socket.on('interview_notes', (data: InterviewState) => {
+      globalDispatch(interviewNotesLoaded(data));
+    });
+
+    socket.on('interview_notes_updated', (data: Omit<InterviewState, 'events'>) => {
+      globalDispatch(interviewNotesUpdated(data));
+    });
+
+    socket.on('candidate_event', (data: CandidateEvent) => {
+      globalDispatch(candidateEventReceived(data));
+    });
+
+    socket.on('interview_role_changed', (data: { interviewRole: InterviewRole }) => {
+      globalDispatch(setInterviewRole(data.interviewRole));
+      if (data.interviewRole === 'candidate') {
+        globalDispatch(resetInterview());
+      }
     });
 
-    socket.on('joined_room', (data: { roomId: string; code: string; language: string }) => {
-      console.log('✅ Successfully joined room:', data.roomId, 'with code length:', data.code.length);
-      globalDispatch(updateCode({ code: data.code, language: data.language }));
-      globalDispatch(setInRoom(true));
+    // Запуски кода видят все участники комнаты
+    socket.on('run_started', (data: { runId: string; path: string; language: string; startedBy?: string }) => {
+      globalDispatch(runStarted(data));
+    });
+
+    socket.on('run_output', (data: RunOutputChunk & { runId: string }) => {
+      globalDispatch(runOutputReceived(data));
+    });
+
+    socket.on('run_finished', (data: RunResult & { runId: string }) => {
+      globalDispatch(runFinished(data));
+    });
+
+    socket.on('test_cases', (data: { roomId: string; testCases: TestCase[] }) => {
+      globalDispatch(setTestCases(data.testCases));
+    });
+
+    socket.on('tests_started', (data: { runId: string; path: string; startedBy?: string; testIds: string[] }) => {
+      globalDispatch(testsStarted(data));
+    });
+
+    socket.on('test_result', (data: TestCaseResult & { runId: string }) => {
+      globalDispatch(testResultReceived(data));
+    });
+
+    socket.on('tests_finished', (data: TestRunSummary & { runId: string }) => {
+      globalDispatch(testsFinished(data));
+    });
+
+    // После переподключения история приходит заново и заменяет накопленную
+    socket.on('chat_history', (data: { roomId: string; messages: ChatMessage[] }) => {
+      globalDispatch(chatHistoryLoaded(data.messages));
+    });
+
+    socket.on('chat_message', (data: { roomId: string; message: ChatMessage }) => {
+      globalDispatch(chatMessageReceived(data.message));
+    });
+
+    socket.on('comment_threads', (data: { roomId: string; fileId: string; threads: CommentThread[] }) => {
+      globalDispatch(setCommentThreads(data));
+    });
+
+    socket.on('comment_thread_updated', (data: { roomId: string; thread: CommentThread }) => {
+      globalDispatch(commentThreadUpdated(data.thread));
+    });
+
+    socket.on('comment_thread_deleted', (data: { roomId: string; fileId: string; threadId: string }) => {
+      globalDispatch(commentThreadDeleted(data.threadId));
+    });
+
+    socket.on('code_pinged', (ping: CodePing) => {
+      globalDispatch(codePingReceived(ping));
+      setTimeout(() => globalDispatch(codePingExpired(ping.id)), CODE_PING_DURATION_MS);
+    });
+
+    // Владелец выгнал или забанил текущего пользователя
+    socket.on('removed_from_room', (data: { roomId: string; reason: 'kicked' | 'banned' }) => {
+      lastJoinedRoom = null;
+      globalDispatch(setInRoom(false));
+      globalDispatch(setError(data.reason === 'banned'
+        ? 'You have been banned from this room by its owner'
+        : 'You have been removed from this room by its owner'));
     });
 
     socket.on('user_joined', (data: { user: User; users: User[] }) => {
@@ -69,14 +666,17 @@ export const useSocket = () => {
       globalDispatch(setUsers(data.users));
     });
 
-    socket.on('code_updated', (data: { 
-      code: string; 
-      language?: string; 
+    socket.on('code_updated', (data: {
+      fileId?: string;
+      code: string;
+      language?: string;
+      revision: number;
       userId: string; 
       userNickname: string;
       oldCode?: string;
       allCursors?: ServerCursor[];
     }) => {
+      if (data.fileId && data.fileId !== globalState?.currentFile?.id) return;
       console.log('📨 Received code_updated event from user:', data.userNickname);
       console.log('📨 New code length:', data.code.length);
       console.log('📨 Old code provided:', !!data.oldCode, 'length:', data.oldCode?.length);
@@ -103,21 +703,162 @@ export const useSocket = () => {
         operation: operation || undefined,
         serverCursors: data.allCursors
       }));
+      globalDispatch(documentResynced({ code: data.code, language: data.language, revision: data.revision }));
+    });
+
+    socket.on('code_ops_applied', (data: {
+      fileId: string;
+      operations: TextOperation[];
+      revision: number;
+      userId: string;
+      userNickname: string;
+      allCursors?: ServerCursor[];
+    }) => {
+      globalDispatch((dispatch: AppDispatch, getState: () => RootState) => {
+        const { revision, currentFile, roomId } = getState().code;
+        // Правки других файлов комнаты придут в снимке, когда файл будет открыт
+        if (!currentFile || data.fileId !== currentFile.id) return;
+
+        // Пропущена ревизия - запрашиваем полный документ
+        if (data.revision !== revision + 1) {
+          if (roomId) {
+            dispatch(setReconnectState({ reconnectState: 'resyncing' }));
+            socket.emit('request_resync', { roomId, fileId: currentFile.id });
+          }
+          return;
+        }
+
+        dispatch(applyRemoteOperations({
+          operations: data.operations,
+          revision: data.revision,
+          serverCursors: data.allCursors,
+        }));
+      });
+    });
+
+    socket.on('code_ops_ack', (data: { fileId: string; revision: number; operationId?: string }) => {
+      if (data.fileId !== globalState?.currentFile?.id) return;
+
+      globalDispatch(operationsAcknowledged({ revision: data.revision, operationId: data.operationId }));
+      // Пока ждали подтверждения, могли накопиться новые правки
+      const roomId = globalState?.roomId;
+      if (roomId) {
+        flushCodeOperations(roomId);
+        globalDispatch(clearOfflineQueueIfSynced(data.fileId));
+        completeFileSwitch();
+      }
+    });
+
+    socket.on('code_resync', (data: {
+      fileId: string;
+      code: string;
+      language: string;
+      revision: number;
+      crdtState?: SerializedCrdtState;
+      crdtEpoch?: number;
+    }) => {
+      const { currentFile, roomId } = globalState || {};
+      if (!currentFile || data.fileId !== currentFile.id) return;
+
+      globalDispatch(setReconnectState({ reconnectState: 'none' }));
+      if (data.crdtState && crdtDocument && crdtFileId === data.fileId) {
+        // Правки из редактора, еще не перенесенные в документ, тоже переносятся в новый
+        unacknowledgedCrdtOperations.push(...captureCrdtChanges(currentFile.code));
+        loadCrdtDocument(data.fileId, data.crdtState, data.crdtEpoch);
+        globalDispatch(documentResynced({ code: crdtDocument.getText(), language: data.language, revision: data.revision }));
+        if (roomId) {
+          sendCrdtOperations(roomId, data.fileId, unacknowledgedCrdtOperations);
+        }
+        return;
+      }
+      globalDispatch(documentResynced({ ...data, rebaseLocalChanges: true }));
+      if (roomId) {
+        flushCodeOperations(roomId);
+        completeFileSwitch();
+      }
+    });
+
+    socket.on('crdt_ops_applied', (data: {
+      fileId: string;
+      operations: CrdtOperation[];
+      userId: string;
+      userNickname: string;
+      allCursors?: ServerCursor[];
+    }) => {
+      globalDispatch((dispatch: AppDispatch, getState: () => RootState) => {
+        const { currentFile, roomId } = getState().code;
+        if (!crdtDocument || !currentFile || !roomId || data.fileId !== crdtFileId) return;
+
+        // Сначала фиксируем собственные неотправленные правки, чтобы не потерять их
+        emitCrdtOperations(roomId, currentFile.id, captureCrdtChanges(currentFile.code));
+
+        if (crdtDocument.applyRemote(data.operations)) {
+          dispatch(applyCrdtUpdate({ code: crdtDocument.getText(), serverCursors: data.allCursors }));
+        }
+      });
+    });
+
+    socket.on('crdt_ops_ack', (data: { fileId: string; epoch?: number; count: number }) => {
+      // Подтверждение пакета по замененному документу: его операции уже отправлены заново
+      if (data.fileId !== crdtFileId || data.epoch !== crdtEpoch) return;
+
+      unacknowledgedCrdtOperations.splice(0, data.count);
+      globalDispatch(clearOfflineQueueIfSynced(data.fileId));
     });
 
-    socket.on('language_changed', (data: { language: string; userId: string; userNickname: string }) => {
-      globalDispatch(updateLanguage(data.language));
+    socket.on('revision_restored', (data: { fileId: string; revision: number; userId: string; userNickname: string }) => {
+      globalDispatch((dispatch: AppDispatch, getState: () => RootState) => {
+        // Обновляем историю, только если панель истории уже открывалась в этой комнате
+        const { roomId, currentFile } = getState().code;
+        if (roomId && currentFile && getState().history.fileId === currentFile.id) {
+          dispatch(fetchHistory({ roomId, fileId: currentFile.id }));
+        }
+      });
+    });
+
+    socket.on('language_changed', (data: { fileId: string; language: string; userId: string; userNickname: string }) => {
+      globalDispatch(updateFileLanguage({ fileId: data.fileId, language: data.language }));
     });
 
-    socket.on('cursor_updated', (data: { userId: string; position: number; userNickname: string }) => {
+    socket.on('cursor_updated', (data: { fileId?: string; userId: string; position: number; anchor?: number; userNickname: string }) => {
       console.log(`Received cursor_updated:`, data);
-      globalDispatch(updateUserCursor({ userId: data.userId, position: data.position }));
+      globalDispatch(updateUserCursor({
+        userId: data.userId,
+        position: data.position,
+        anchor: data.anchor,
+        fileId: data.fileId,
+      }));
     });
 
     socket.on('error', (data: { message: string }) => {
       console.error('Socket error:', data.message);
-      // Не показываем ошибку "Not in room" пользователю, так как это может быть временная проблема
-      if (data.message !== 'Not in room') {
+      if (data.message === 'File not found') {
+        pendingFileSwitch = null;
+        globalDispatch(setSwitchingFile(false));
+      }
+      const passwordStatus = PASSWORD_ERRORS[data.message];
+      if (passwordStatus) {
+        // Вместо ошибки RoomPage снова спросит пароль
+        if (lastJoinedRoom && passwordStatus === 'invalid') {
+          removeRoomPassword(lastJoinedRoom.roomId);
+        }
+        lastJoinedRoom = null;
+        globalDispatch(setPasswordStatus(passwordStatus));
+        return;
+      }
+      if (data.message === 'Read-only access') {
+        // Правки отклонены - откатываем их и берем актуальное состояние файла с сервера
+        const { roomId, currentFile } = globalState || {};
+        unacknowledgedCrdtOperations = [];
+        globalDispatch(localChangesDiscarded());
+        if (roomId && currentFile) {
+          clearOfflineQueue(currentFile.id);
+          globalSocket?.emit('request_resync', { roomId, fileId: currentFile.id });
+        }
+      }
+      // Не показываем ошибку "Not in room" пользователю, так как это может быть временная проблема.
+      // Отказ в правке наблюдателю тоже не повод закрывать редактор
+      if (data.message !== 'Not in room' && data.message !== 'Read-only access') {
         globalDispatch(setError(data.message));
       }
     });
@@ -125,32 +866,183 @@ export const useSocket = () => {
 
   const joinRoom = (roomId: string, nickname?: string) => {
     console.log('🚀 Attempting to join room:', roomId, 'with nickname:', nickname);
-    globalSocket?.emit('join_room', { roomId, nickname });
+    // Токен владельца, если комната создана в этом браузере, приглашение, по которому ее открыли,
+    // введенный ранее пароль комнаты и токен участника от прошлого входа
+    const ownerToken = getOwnerToken(roomId) || undefined;
+    const inviteToken = getInviteToken(roomId) || undefined;
+    const password = getRoomPassword(roomId) || undefined;
+    const participantToken = getParticipantToken(roomId) || undefined;
+    lastJoinedRoom = { roomId, nickname, ownerToken, inviteToken, password };
+    globalSocket?.emit('join_room', { roomId, nickname, ownerToken, inviteToken, password, participantToken });
   };
 
   const leaveRoom = () => {
     console.log('🚪 Leaving room');
+    lastJoinedRoom = null;
+    pendingFileSwitch = null;
     globalSocket?.emit('leave_room');
   };
 
-  const sendCodeUpdate = (roomId: string, code: string, language?: string) => {
-    globalSocket?.emit('code_update', { roomId, code, language });
+  const sendCodeOperations = (roomId: string) => {
+    flushCodeOperations(roomId);
+  };
+
+  const restoreRevision = (roomId: string, revision: number) => {
+    // Перед восстановлением отправляем накопленные правки, чтобы они попали в историю
+    flushCodeOperations(roomId);
+    globalSocket?.emit('restore_revision', { roomId, fileId: globalState?.currentFile?.id, revision });
   };
 
   const sendLanguageChange = (roomId: string, language: string) => {
-    globalSocket?.emit('language_change', { roomId, language });
+    globalSocket?.emit('language_change', { roomId, fileId: globalState?.currentFile?.id, language });
+  };
+
+  const openFile = (roomId: string, fileId: string) => {
+    openRoomFile(roomId, fileId);
+  };
+
+  const createFileEntry = (roomId: string, path: string, entryType: FileEntryType) => {
+    globalSocket?.emit('file_create', { roomId, path, entryType });
+  };
+
+  const moveFileEntry = (roomId: string, fileId: string, path: string) => {
+    globalSocket?.emit('file_move', { roomId, fileId, path });
+  };
+
+  const deleteFileEntry = (roomId: string, fileId: string) => {
+    globalSocket?.emit('file_delete', { roomId, fileId });
+  };
+
+  // Модерация: события принимаются сервером только от владельца комнаты
+  const kickUser = (roomId: string, userId: string) => {
+    globalSocket?.emit('kick_user', { roomId, userId });
+  };
+
+  const banUser = (roomId: string, userId: string) => {
+    globalSocket?.emit('ban_user', { roomId, userId });
+  };
+
+  const setRoomLock = (roomId: string, locked: boolean) => {
+    globalSocket?.emit('set_room_lock', { roomId, locked });
+  };
+
+  const updateProblemStatement = (roomId: string, problemStatement: string) => {
+    globalSocket?.emit('problem_update', { roomId, problemStatement });
+  };
+
+  const runCode = (roomId: string, fileId: string, stdin: string) => {
+    // Сервер запускает код из БД, поэтому накопленные правки уходят первыми
+    flushCodeOperations(roomId);
+    globalSocket?.emit('run_code', { roomId, fileId, stdin });
+  };
+
+  const stopRun = (roomId: string) => {
+    globalSocket?.emit('stop_run', { roomId });
+  };
+
+  const runTests = (roomId: string, fileId: string) => {
+    flushCodeOperations(roomId);
+    globalSocket?.emit('run_tests', { roomId, fileId });
+  };
+
+  const saveTestCase = (
+    roomId: string,
+    testCase: { input: string; expectedOutput: string; isHidden: boolean },
+    testId?: string,
+  ) => {
+    if (testId) {
+      globalSocket?.emit('test_case_update', { roomId, testId, ...testCase });
+    } else {
+      globalSocket?.emit('test_case_create', { roomId, ...testCase });
+    }
+  };
+
+  const deleteTestCase = (roomId: string, testId: string) => {
+    globalSocket?.emit('test_case_delete', { roomId, testId });
+  };
+
+  const sendChatMessage = (roomId: string, text: string) => {
+    globalSocket?.emit('chat_message', { roomId, text });
+  };
+
+  const createCommentThread = (
+    roomId: string,
+    fileId: string,
+    anchor: { startPosition: number; endPosition: number },
+    text: string,
+  ) => {
+    // Границы посчитаны по локальному тексту, поэтому накопленные правки уходят первыми
+    flushCodeOperations(roomId);
+    globalSocket?.emit('comment_thread_create', { roomId, fileId, ...anchor, text });
+  };
+
+  const replyToCommentThread = (roomId: string, threadId: string, text: string) => {
+    globalSocket?.emit('comment_reply', { roomId, threadId, text });
+  };
+
+  const setCommentThreadResolved = (roomId: string, threadId: string, isResolved: boolean) => {
+    globalSocket?.emit('comment_thread_resolve', { roomId, threadId, isResolved });
+  };
+
+  const deleteCommentThread = (roomId: string, threadId: string) => {
+    globalSocket?.emit('comment_thread_delete', { roomId, threadId });
+  };
+
+  const saveInterviewNotes = (roomId: string, update: { notes?: string; scorecard?: Scorecard }) => {
+    globalSocket?.emit('interview_notes_update', { roomId, ...update });
+  };
+
+  const reportCandidateEvent = (roomId: string, type: CandidateEvent['type'], length?: number) => {
+    globalSocket?.emit('candidate_event', { roomId, type, length });
+  };
+
+  const sendViewportUpdate = (roomId: string, topLine: number) => {
+    globalSocket?.emit('viewport_update', { roomId, topLine });
+  };
+
+  const setPresenterMode = (roomId: string, enabled: boolean) => {
+    globalSocket?.emit('set_presenter', { roomId, enabled });
+  };
+
+  const sendCodePing = (roomId: string, startPosition: number, endPosition: number) => {
+    globalSocket?.emit('code_ping', { roomId, startPosition, endPosition });
   };
 
-  const sendCursorUpdate = (roomId: string, position: number) => {
+  // anchor - второй конец выделения, без него выделение считается пустым
+  const sendCursorUpdate = (roomId: string, position: number, anchor?: number) => {
     console.log(`Emitting cursor_update: roomId=${roomId}, position=${position}, socket connected=${globalSocket?.connected}`);
-    globalSocket?.emit('cursor_update', { roomId, position });
+    globalSocket?.emit('cursor_update', { roomId, position, anchor });
   };
 
   return {
     joinRoom,
     leaveRoom,
-    sendCodeUpdate,
+    sendCodeOperations,
+    restoreRevision,
     sendLanguageChange,
+    openFile,
+    createFileEntry,
+    moveFileEntry,
+    deleteFileEntry,
+    kickUser,
+    banUser,
+    setRoomLock,
+    updateProblemStatement,
+    runCode,
+    stopRun,
+    runTests,
+    saveTestCase,
+    deleteTestCase,
+    sendChatMessage,
+    createCommentThread,
+    replyToCommentThread,
+    setCommentThreadResolved,
+    deleteCommentThread,
+    saveInterviewNotes,
+    reportCandidateEvent,
     sendCursorUpdate,
+    sendViewportUpdate,
+    setPresenterMode,
+    sendCodePing,
   };
 };
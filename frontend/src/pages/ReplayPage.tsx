@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
+import { fetchReplay, resetReplay } from '../store/replaySlice';
+import { UserCursor } from '../components/UserCursor';
+import { buildCheckpoints, buildPlaybackTimes, countEventsUntil, getFrameAt } from '../utils/replayTimeline';
+import '../components/CodeEditor.css';
+import './RoomPage.css';
+import './ReplayPage.css';
+
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8];
+
+// Те же размеры, что и в редакторе, чтобы курсоры совпадали с текстом
+const LINE_HEIGHT = 21;
+const CHAR_WIDTH = 8.4;
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const ReplayPage: React.FC = () => {
+  const { roomId } = useParams<{ roomId: string }>();
+  // Запись ведется по файлам, без параметра показывается основной файл комнаты
+  const [searchParams] = useSearchParams();
+  const fileId = searchParams.get('file') || roomId;
+  const navigate = useNavigate();
+  const dispatch = useAppDispatch();
+  const { timeline, isLoading, error } = useAppSelector((state) => state.replay);
+
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    if (!roomId || !fileId) {
+      navigate('/');
+      return;
+    }
+
+    dispatch(resetReplay());
+    dispatch(fetchReplay({ roomId, fileId }));
+    setPlaybackTime(0);
+    setIsPlaying(false);
+  }, [roomId, fileId, dispatch, navigate]);
+
+  const times = useMemo(() => (timeline ? buildPlaybackTimes(timeline.events) : []), [timeline]);
+  const checkpoints = useMemo(() => (timeline ? buildCheckpoints(timeline) : []), [timeline]);
+  const duration = times.length > 0 ? times[times.length - 1] : 0;
+
+  // Проигрывание: двигаем время воспроизведения на каждом кадре анимации
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frameId = 0;
+    let lastTick = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - lastTick) * speed;
+      lastTick = now;
+      setPlaybackTime(time => {
+        const next = Math.min(time + elapsed, duration);
+        if (next >= duration) {
+          setIsPlaying(false);
+        }
+        return next;
+      });
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, speed, duration]);
+
+  const eventCount = countEventsUntil(times, playbackTime);
+  const frame = useMemo(
+    () => (timeline ? getFrameAt(timeline, checkpoints, eventCount) : null),
+    [timeline, checkpoints, eventCount]
+  );
+
+  const handlePlayPause = () => {
+    if (!isPlaying && playbackTime >= duration) {
+      setPlaybackTime(0);
+    }
+    setIsPlaying(playing => !playing);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="room-page">
+        <div className="loading">
+          <h2>Loading replay...</h2>
+          <div className="spinner"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !timeline || !frame) {
+    return (
+      <div className="room-page">
+        <div className="error">
+          <h2>Replay not available</h2>
+          <p>{error || "This room may have expired or doesn't exist."}</p>
+          <button onClick={() => navigate('/welcome')} className="home-button">
+            Create New Room
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="code-editor replay-page">
+      <div className="editor-header">
+        <div className="replay-controls">
+          <button onClick={handlePlayPause} className="replay-button" disabled={timeline.events.length === 0}>
+            {isPlaying ? '⏸ Pause' : '▶ Play'}
+          </button>
+          <select
+            value={speed}
+            onChange={(e) => setSpeed(Number(e.target.value))}
+            className="language-select"
+            title="Playback speed"
+          >
+            {PLAYBACK_SPEEDS.map((value) => (
+              <option key={value} value={value}>
+                {value}x
+              </option>
+            ))}
+          </select>
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={10}
+            value={playbackTime}
+            onChange={(e) => setPlaybackTime(Number(e.target.value))}
+            className="replay-scrubber"
+            disabled={timeline.events.length === 0}
+          />
+          <span className="replay-time">
+            {formatDuration(playbackTime)} / {formatDuration(duration)}
+          </span>
+        </div>
+
+        <div className="room-info">
+          <span>Replay: {roomId}</span>
+          <span>Events: {eventCount} / {timeline.events.length}</span>
+        </div>
+
+        <div className="header-actions">
+          <button onClick={() => navigate(`/room/${roomId}`)} className="leave-room-btn">
+            Back to room
+          </button>
+        </div>
+      </div>
+
+      <div className="editor-container">
+        <div className="syntax-highlight-overlay">
+          <SyntaxHighlighter
+            language={frame.language}
+            style={vscDarkPlus}
+            customStyle={{
+              background: 'transparent',
+              padding: 0,
+              margin: 0,
+              fontSize: '14px',
+              fontFamily: 'monospace',
+              lineHeight: '1.5',
+            }}
+            codeTagProps={{
+              style: {
+                fontFamily: 'monospace',
+              },
+            }}
+          >
+            {frame.code || ' '}
+          </SyntaxHighlighter>
+        </div>
+
+        {frame.cursors.map(cursor => (
+          <UserCursor
+            key={cursor.userId}
+            nickname={cursor.nickname}
+            position={cursor.position}
+            code={frame.code}
+            lineHeight={LINE_HEIGHT}
+            charWidth={CHAR_WIDTH}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
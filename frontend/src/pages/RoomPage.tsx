@@ -1,22 +1,44 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../hooks/redux';
 import { getCodeFile, clearError, resetRoomState } from '../store/codeSlice';
+import { resetHistory } from '../store/historySlice';
+import { resetInterview } from '../store/interviewSlice';
+import { resetRun } from '../store/runSlice';
+import { resetTests } from '../store/testsSlice';
+import { resetChat } from '../store/chatSlice';
 import { useSocket } from '../hooks/useSocket';
 import { CodeEditor } from '../components/CodeEditor';
+import { HistoryPanel } from '../components/HistoryPanel';
+import { InterviewPanel } from '../components/InterviewPanel';
+import { ProblemPanel } from '../components/ProblemPanel';
+import { ChatPanel } from '../components/ChatPanel';
 import { getSession, saveSession, updateSessionTimestamp } from '../utils/session';
+import { saveInviteToken, saveRoomPassword } from '../utils/roomTokens';
+import { PasswordStatus } from '../types';
 import './RoomPage.css';
 
+const PASSWORD_MESSAGES: Record<PasswordStatus, string> = {
+  required: 'This room is protected by a password.',
+  invalid: 'Wrong password, please try again.',
+  blocked: 'Too many wrong attempts. Please wait a few minutes and try again.',
+};
+
 export const RoomPage: React.FC = () => {
   const { roomId } = useParams<{ roomId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const dispatch = useAppDispatch();
-  const { currentFile, isLoading, error, isConnected } = useAppSelector((state) => state.code);
+  const { currentFile, isLoading, error, isConnected, passwordStatus, mode, interviewRole } = useAppSelector((state) => state.code);
   const { joinRoom, leaveRoom } = useSocket();
 
   const [nickname, setNickname] = useState('');
   const [hasJoined, setHasJoined] = useState(false);
   const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const [password, setPassword] = useState('');
 
   const handleJoinRoom = useCallback(() => {
     if (roomId && isConnected) {
@@ -41,6 +63,11 @@ export const RoomPage: React.FC = () => {
 
     // Сбрасываем состояние комнаты при загрузке
     dispatch(resetRoomState());
+    dispatch(resetHistory());
+    dispatch(resetInterview());
+    dispatch(resetRun());
+    dispatch(resetTests());
+    dispatch(resetChat());
 
     const fetchRoom = async () => {
       try {
@@ -56,6 +83,15 @@ export const RoomPage: React.FC = () => {
     fetchRoom();
   }, [roomId, dispatch, navigate]);
 
+  // Приглашение из ссылки запоминаем и убираем из адреса, чтобы его случайно не переслали дальше
+  useEffect(() => {
+    const inviteToken = searchParams.get('invite');
+    if (roomId && inviteToken) {
+      saveInviteToken(roomId, inviteToken);
+      setSearchParams({}, { replace: true });
+    }
+  }, [roomId, searchParams, setSearchParams]);
+
   // Проверяем сессию при загрузке компонента
   useEffect(() => {
     // Сначала проверяем никнейм из WelcomePage
@@ -102,9 +138,17 @@ export const RoomPage: React.FC = () => {
     };
   }, []);
 
+  // Сервер отказал во входе из-за пароля - возвращаемся к форме ввода пароля
+  useEffect(() => {
+    if (passwordStatus) {
+      setHasJoined(false);
+    }
+  }, [passwordStatus]);
+
   // Отдельный эффект для обработки изменения комнаты
   useEffect(() => {
     setHasJoined(false);
+    setIsHistoryOpen(false);
   }, [roomId]);
 
   const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
@@ -115,6 +159,16 @@ export const RoomPage: React.FC = () => {
     }
   };
 
+  const handlePasswordSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!roomId || !password) return;
+
+    // Пароль запоминается для этой комнаты и уходит заголовком во все запросы к ней
+    saveRoomPassword(roomId, password);
+    setPassword('');
+    dispatch(getCodeFile(roomId));
+  };
+
   const handleClearError = () => {
     dispatch(clearError());
   };
@@ -149,6 +203,40 @@ export const RoomPage: React.FC = () => {
     );
   }
 
+  if (passwordStatus) {
+    return (
+      <div className="room-page">
+        <div className="join-form">
+          <h2>🔒 Password Required</h2>
+          <p>Room ID: <code>{roomId}</code></p>
+          <p className={passwordStatus === 'required' ? undefined : 'password-error'}>
+            {PASSWORD_MESSAGES[passwordStatus]}
+          </p>
+          <form className="join-form-container" onSubmit={handlePasswordSubmit}>
+            <div className="form-group">
+              <label htmlFor="room-password">Room password:</label>
+              <input
+                type="password"
+                id="room-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter the room password"
+                maxLength={128}
+                autoFocus
+              />
+            </div>
+            <button type="submit" disabled={!password} className="join-button">
+              Unlock Room
+            </button>
+          </form>
+          <button onClick={() => navigate('/welcome')} className="home-button">
+            Create New Room
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!currentFile) {
     return (
       <div className="room-page">
@@ -204,7 +292,36 @@ export const RoomPage: React.FC = () => {
 
   return (
     <div className="room-page">
-      <CodeEditor roomId={roomId!} />
+      <CodeEditor
+        roomId={roomId!}
+        isHistoryOpen={isHistoryOpen}
+        onToggleHistory={() => {
+          // Панели занимают одно место справа, открыта только одна
+          setIsNotesOpen(false);
+          setIsChatOpen(false);
+          setIsHistoryOpen(open => !open);
+        }}
+        problemPanel={<ProblemPanel roomId={roomId!} />}
+        isNotesOpen={isNotesOpen}
+        onToggleNotes={() => {
+          setIsHistoryOpen(false);
+          setIsChatOpen(false);
+          setIsNotesOpen(open => !open);
+        }}
+        isChatOpen={isChatOpen}
+        onToggleChat={() => {
+          setIsHistoryOpen(false);
+          setIsNotesOpen(false);
+          setIsChatOpen(open => !open);
+        }}
+      />
+      {isHistoryOpen && (
+        <HistoryPanel roomId={roomId!} onClose={() => setIsHistoryOpen(false)} />
+      )}
+      {isNotesOpen && mode === 'interview' && interviewRole === 'interviewer' && (
+        <InterviewPanel roomId={roomId!} onClose={() => setIsNotesOpen(false)} />
+      )}
+      {isChatOpen && <ChatPanel roomId={roomId!} onClose={() => setIsChatOpen(false)} />}
     </div>
   );
 };
@@ -1,9 +1,12 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '../hooks/redux';
-import { createCodeFile, clearError } from '../store/codeSlice';
+import { createCodeFile, importCodeFile, clearError, fetchTemplates } from '../store/codeSlice';
 import './WelcomePage.css';
 import {saveSession} from "../utils/session";
+import { RoomMode, RoomTemplate, SyncEngine } from '../types';
+
+const MIN_ROOM_PASSWORD_LENGTH = 4;
 
 export const WelcomePage: React.FC = () => {
   const navigate = useNavigate();
@@ -11,16 +14,38 @@ export const WelcomePage: React.FC = () => {
   const { isLoading, error } = useAppSelector((state) => state.code);
 
   const [nickname, setNickname] = useState('');
+  const [syncEngine, setSyncEngine] = useState<SyncEngine>('ot');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<RoomMode>('collaborative');
+  const [templates, setTemplates] = useState<RoomTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('');
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  // Пароль необязателен, но слишком короткий сервер не примет
+  const isPasswordValid = !password || password.length >= MIN_ROOM_PASSWORD_LENGTH;
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      const result = await dispatch(fetchTemplates());
+      if (fetchTemplates.fulfilled.match(result)) {
+        setTemplates(result.payload);
+      } else {
+        // Без шаблонов комнату все равно можно создать с пустым файлом
+        console.error('Failed to load templates:', result.error);
+      }
+    };
+
+    loadTemplates();
+  }, [dispatch]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!nickname.trim()) {
+    if (!nickname.trim() || !isPasswordValid) {
       return;
     }
 
     try {
-      const result = await dispatch(createCodeFile());
+      const result = await dispatch(createCodeFile({ syncEngine, password, mode, templateId }));
       if (createCodeFile.fulfilled.match(result)) {
         saveSession(nickname);
         navigate(`/room/${result.payload.id}`);
@@ -30,6 +55,24 @@ export const WelcomePage: React.FC = () => {
     }
   };
 
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !nickname.trim()) {
+      return;
+    }
+
+    try {
+      const result = await dispatch(importCodeFile({ file, syncEngine, password }));
+      if (importCodeFile.fulfilled.match(result)) {
+        saveSession(nickname);
+        navigate(`/room/${result.payload.id}`);
+      }
+    } catch (err) {
+      console.error('Failed to import room:', err);
+    }
+  };
+
   const handleClearError = () => {
     dispatch(clearError());
   };
@@ -77,10 +120,79 @@ export const WelcomePage: React.FC = () => {
               />
             </div>
 
+            <div className="form-group">
+              <select
+                id="roomTemplate"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className="form-input"
+                disabled={isLoading}
+                title="Стартовый код, условие задачи и тесты для новой комнаты"
+              >
+                <option value="">Шаблон: пустой файл</option>
+                {(['builtin', 'team'] as const).map(source => {
+                  const group = templates.filter(template => template.source === source);
+                  return group.length > 0 && (
+                    <optgroup key={source} label={source === 'builtin' ? 'Встроенные' : 'Шаблоны команды'}>
+                      {group.map(template => (
+                        <option key={template.id} value={template.id} title={template.description || undefined}>
+                          {template.name} ({template.language}{template.hasTests ? ', с тестами' : ''})
+                        </option>
+                      ))}
+                    </optgroup>
+                  );
+                })}
+              </select>
+            </div>
+
+            <div className="form-group">
+              <select
+                id="syncEngine"
+                value={syncEngine}
+                onChange={(e) => setSyncEngine(e.target.value as SyncEngine)}
+                className="form-input"
+                disabled={isLoading}
+                title="Способ синхронизации правок между участниками"
+              >
+                <option value="ot">Синхронизация: OT (по умолчанию)</option>
+                <option value="crdt">Синхронизация: CRDT (офлайн-правки)</option>
+              </select>
+            </div>
+
+            <div className="form-group">
+              <select
+                id="roomMode"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as RoomMode)}
+                className="form-input"
+                disabled={isLoading}
+                title="На собеседовании владелец комнаты - интервьюер, остальные участники - кандидаты"
+              >
+                <option value="collaborative">Режим: совместное редактирование</option>
+                <option value="interview">Режим: собеседование</option>
+              </select>
+            </div>
+
+            <div className="form-group">
+              <input
+                id="roomPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Пароль комнаты (необязательно)"
+                className="form-input"
+                minLength={MIN_ROOM_PASSWORD_LENGTH}
+                maxLength={128}
+                disabled={isLoading}
+                autoComplete="new-password"
+                title="Без пароля войти в комнату по ссылке не получится"
+              />
+            </div>
+
             <button
               type="submit"
               className="btn btn-primary"
-              disabled={!nickname.trim() || isLoading}
+              disabled={!nickname.trim() || !isPasswordValid || isLoading}
             >
               {isLoading ? (
                 <>
@@ -91,6 +203,23 @@ export const WelcomePage: React.FC = () => {
                 'Создать комнату'
               )}
             </button>
+
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".zip,.js,.jsx,.ts,.tsx,.py,.java,.cpp,.cc,.h,.hpp,.css,.html,.json,.md,.txt"
+              onChange={handleImport}
+              hidden
+            />
+            <button
+              type="button"
+              className="btn btn-secondary import-btn"
+              onClick={() => importInputRef.current?.click()}
+              disabled={!nickname.trim() || !isPasswordValid || isLoading}
+              title="Создать комнату из zip архива или исходного файла"
+            >
+              Импортировать из файла
+            </button>
           </form>
         </div>
       </div>
@@ -0,0 +1,46 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { ChatMessage, ChatState } from '../types';
+
+// Старые сообщения убираются из памяти, история целиком хранится на сервере
+const MAX_MESSAGES = 500;
+
+const initialState: ChatState = {
+  messages: [],
+  isOpen: false,
+  unreadCount: 0,
+};
+
+/**
+ * Чат комнаты: история приходит при входе, новые сообщения - по мере отправки.
+ * Пока панель закрыта, считаются непрочитанные
+ */
+const chatSlice = createSlice({
+  name: 'chat',
+  initialState,
+  reducers: {
+    chatHistoryLoaded: (state, action: PayloadAction<ChatMessage[]>) => {
+      state.messages = action.payload.slice(-MAX_MESSAGES);
+    },
+    chatMessageReceived: (state, action: PayloadAction<ChatMessage>) => {
+      if (state.messages.some(message => message.id === action.payload.id)) return;
+
+      state.messages.push(action.payload);
+      if (state.messages.length > MAX_MESSAGES) {
+        state.messages.splice(0, state.messages.length - MAX_MESSAGES);
+      }
+      if (!state.isOpen) {
+        state.unreadCount++;
+      }
+    },
+    setChatOpen: (state, action: PayloadAction<boolean>) => {
+      state.isOpen = action.payload;
+      if (action.payload) {
+        state.unreadCount = 0;
+      }
+    },
+    resetChat: () => initialState,
+  },
+});
+
+export const { chatHistoryLoaded, chatMessageReceived, setChatOpen, resetChat } = chatSlice.actions;
+export default chatSlice.reducer;
@@ -1,40 +1,230 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import axios from 'axios';
-import { CodeFile, CodeState, User, ServerCursor } from '../types';
-import { transformMultipleCursors, calculateTextOperation, TextOperation } from '../utils/cursorTransform';
+import {
+  CodeFile,
+  CodeState,
+  User,
+  ServerCursor,
+  SyncEngine,
+  ReconnectState,
+  RoomFileEntry,
+  RoomRole,
+  ShareLink,
+  PasswordStatus,
+  RoomMode,
+  InterviewRole,
+  RoomTemplate,
+  CommentThread,
+  CodePing,
+} from '../types';
+import { transformMultipleCursors, TextOperation } from '../utils/cursorTransform';
+import { applyOperation, applyOperations, diffToOperations, transformOperations } from '../utils/textOperations';
+import { transformCommentAnchors } from '../utils/commentAnchors';
+import {
+  getOwnerToken,
+  getRoomAccessHeaders,
+  removeOwnerToken,
+  removeRoomPassword,
+  saveOwnerToken,
+} from '../utils/roomTokens';
 
 console.log({'=========env========': process.env })
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
+// Токен владельца новой комнаты сохраняется в браузере создателя и в store не попадает
+const keepOwnerToken = ({ ownerToken, ...codeFile }: CodeFile & { ownerToken?: string }): CodeFile => {
+  if (ownerToken) {
+    saveOwnerToken(codeFile.id, ownerToken);
+  }
+  return codeFile;
+};
+
+const ownerHeaders = (roomId: string) => ({ Authorization: `Bearer ${getOwnerToken(roomId) || ''}` });
+
+// Ответы сервера на запрос к комнате с паролем
+const PASSWORD_STATUS_BY_HTTP_STATUS: Record<number, PasswordStatus> = {
+  401: 'required',
+  403: 'invalid',
+  429: 'blocked',
+};
+
 export const createCodeFile = createAsyncThunk(
   'code/createCodeFile',
-  async () => {
-    const response = await axios.post(`${API_BASE_URL}/api/code`);
-    return response.data;
+  async (options: { syncEngine?: SyncEngine; password?: string; mode?: RoomMode; templateId?: string } | undefined) => {
+    const response = await axios.post(`${API_BASE_URL}/api/code`, {
+      syncEngine: options?.syncEngine,
+      password: options?.password || undefined,
+      mode: options?.mode,
+      templateId: options?.templateId || undefined,
+    });
+    return keepOwnerToken(response.data);
   }
 );
 
-export const getCodeFile = createAsyncThunk(
-  'code/getCodeFile',
-  async (id: string) => {
-    const response = await axios.get(`${API_BASE_URL}/api/code/${id}`);
-    return response.data;
+// С комнатой владельца сервер отмечает шаблоны, сохраненные из нее, как доступные для удаления
+export const fetchTemplates = createAsyncThunk(
+  'code/fetchTemplates',
+  async (roomId: string | undefined) => {
+    const response = await axios.get(`${API_BASE_URL}/api/templates`, roomId ? { headers: ownerHeaders(roomId) } : undefined);
+    return response.data.templates as RoomTemplate[];
+  }
+);
+
+// Основной файл, условие задачи и, при желании, файл с тестами становятся шаблоном команды
+export const saveRoomAsTemplate = createAsyncThunk(
+  'code/saveRoomAsTemplate',
+  async ({ roomId, name, description, testsFileId }: { roomId: string; name: string; description?: string; testsFileId?: string }) => {
+    const response = await axios.post(
+      `${API_BASE_URL}/api/code/${roomId}/template`,
+      { name, description, testsFileId },
+      { headers: ownerHeaders(roomId) },
+    );
+    return response.data as RoomTemplate;
+  }
+);
+
+export const deleteTemplate = createAsyncThunk(
+  'code/deleteTemplate',
+  async ({ roomId, templateId }: { roomId: string; templateId: string }) => {
+    await axios.delete(`${API_BASE_URL}/api/templates/${templateId}`, { headers: ownerHeaders(roomId) });
+    return templateId;
+  }
+);
+
+// Новая комната из zip архива или одного исходного файла
+export const importCodeFile = createAsyncThunk(
+  'code/importCodeFile',
+  async ({ file, syncEngine, password }: { file: File; syncEngine?: SyncEngine; password?: string }) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (syncEngine) {
+      formData.append('syncEngine', syncEngine);
+    }
+    if (password) {
+      formData.append('password', password);
+    }
+    const response = await axios.post(`${API_BASE_URL}/api/code/import`, formData);
+    return keepOwnerToken(response.data);
+  }
+);
+
+// Независимая копия комнаты. Текущую комнату не затрагивает, поэтому без reducer'ов
+export const forkCodeFile = createAsyncThunk(
+  'code/forkCodeFile',
+  async ({ id, includeHistory }: { id: string; includeHistory?: boolean }) => {
+    const response = await axios.post(
+      `${API_BASE_URL}/api/code/${id}/fork`,
+      { includeHistory },
+      { headers: getRoomAccessHeaders(id) },
+    );
+    return keepOwnerToken(response.data);
   }
 );
 
-export const updateCodeFile = createAsyncThunk(
-  'code/updateCodeFile',
-  async ({ id, code, language }: { id: string; code: string; language?: string }) => {
-    const response = await axios.put(`${API_BASE_URL}/api/code/${id}`, {
-      code,
-      language,
+export const deleteRoom = createAsyncThunk(
+  'code/deleteRoom',
+  async (roomId: string) => {
+    await axios.delete(`${API_BASE_URL}/api/code/${roomId}`, { headers: ownerHeaders(roomId) });
+    removeOwnerToken(roomId);
+    return roomId;
+  }
+);
+
+export const updateRoomExpiry = createAsyncThunk(
+  'code/updateRoomExpiry',
+  async ({ roomId, expiresInHours }: { roomId: string; expiresInHours: number }) => {
+    const response = await axios.put(
+      `${API_BASE_URL}/api/code/${roomId}/expiry`,
+      { expiresInHours },
+      { headers: ownerHeaders(roomId) },
+    );
+    return response.data as { id: string; expiresAt: string };
+  }
+);
+
+// Ссылки-приглашения нужны только панели владельца, поэтому хранятся в ее локальном состоянии
+export const fetchShareLinks = createAsyncThunk(
+  'code/fetchShareLinks',
+  async (roomId: string) => {
+    const response = await axios.get(`${API_BASE_URL}/api/code/${roomId}/share-links`, { headers: ownerHeaders(roomId) });
+    return response.data as { id: string; defaultRole: RoomRole; links: ShareLink[] };
+  }
+);
+
+export const createShareLink = createAsyncThunk(
+  'code/createShareLink',
+  async ({ roomId, role, interviewRole }: { roomId: string; role: RoomRole; interviewRole?: InterviewRole }) => {
+    const response = await axios.post(
+      `${API_BASE_URL}/api/code/${roomId}/share-links`,
+      { role, interviewRole },
+      { headers: ownerHeaders(roomId) },
+    );
+    return response.data as ShareLink;
+  }
+);
+
+export const revokeShareLink = createAsyncThunk(
+  'code/revokeShareLink',
+  async ({ roomId, linkId }: { roomId: string; linkId: string }) => {
+    await axios.delete(`${API_BASE_URL}/api/code/${roomId}/share-links/${linkId}`, { headers: ownerHeaders(roomId) });
+    return linkId;
+  }
+);
+
+export const updateDefaultRole = createAsyncThunk(
+  'code/updateDefaultRole',
+  async ({ roomId, defaultRole }: { roomId: string; defaultRole: RoomRole }) => {
+    await axios.put(`${API_BASE_URL}/api/code/${roomId}/access`, { defaultRole }, { headers: ownerHeaders(roomId) });
+    return defaultRole;
+  }
+);
+
+// Архив скачивается запросом, а не обычной ссылкой, чтобы передать пароль комнаты в заголовке
+export const downloadRoomArchive = createAsyncThunk(
+  'code/downloadRoomArchive',
+  async (roomId: string) => {
+    const response = await axios.get(`${API_BASE_URL}/api/code/${roomId}/export`, {
+      headers: getRoomAccessHeaders(roomId),
+      responseType: 'blob',
     });
-    return response.data;
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `room-${roomId.slice(0, 8)}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+);
+
+export const getCodeFile = createAsyncThunk(
+  'code/getCodeFile',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      const response = await axios.get(`${API_BASE_URL}/api/code/${id}`, { headers: getRoomAccessHeaders(id) });
+      return response.data;
+    } catch (error) {
+      const passwordStatus = axios.isAxiosError(error) && error.response
+        ? PASSWORD_STATUS_BY_HTTP_STATUS[error.response.status]
+        : undefined;
+      if (!passwordStatus) {
+        throw error;
+      }
+
+      // Неверный сохраненный пароль забываем, чтобы не отправлять его повторно
+      if (passwordStatus === 'invalid') {
+        removeRoomPassword(id);
+      }
+      return rejectWithValue(passwordStatus);
+    }
   }
 );
 
 const initialState: CodeState = {
+  roomId: null,
+  files: [],
   currentFile: null,
+  isSwitchingFile: false,
   isConnected: false,
   isInRoom: false,
   users: [],
@@ -42,6 +232,132 @@ const initialState: CodeState = {
   isLoading: false,
   error: null,
   previousCode: '', // Track previous code for text operation calculation
+  revision: 0,
+  syncedCode: '',
+  outstandingOperations: null,
+  outstandingOperationId: null,
+  reconnectState: 'none',
+  reconnectAttempt: 0,
+  pendingEditCount: 0,
+  isOwner: false,
+  role: 'editor',
+  expiresAt: null,
+  passwordStatus: null,
+  isLocked: false,
+  mode: 'collaborative',
+  interviewRole: null,
+  problemStatement: '',
+  commentThreads: [],
+  followingUserId: null,
+  presenterId: null,
+  codePings: [],
+};
+
+/**
+ * Трансформация курсоров других пользователей через последовательность операций
+ */
+const transformCursorsThroughOperations = (
+  state: CodeState,
+  operations: TextOperation[],
+  oldCode: string,
+  serverCursors?: ServerCursor[]
+) => {
+  let cursors = serverCursors && serverCursors.length > 0
+    ? serverCursors.map(c => ({ userId: c.userId, position: c.position }))
+    : state.users
+      .filter(user => user.cursorPosition !== undefined && user.id !== state.currentUserId)
+      // Курсоры в других файлах комнаты эти операции не затрагивают
+      .filter(user => !user.fileId || user.fileId === state.currentFile?.id)
+      .map(user => ({ userId: user.id, position: user.cursorPosition! }));
+  const unchanged = new Map(cursors.map(c => [c.userId, true]));
+  const deleted = new Set<string>();
+
+  let text = oldCode;
+  operations.forEach(operation => {
+    const nextText = applyOperation(text, operation);
+    const transformed = transformMultipleCursors(cursors, operation, text, nextText);
+
+    cursors = [];
+    transformed.forEach(({ userId, position, wasUnchanged }) => {
+      if (position === null) {
+        deleted.add(userId);
+        return;
+      }
+      unchanged.set(userId, (unchanged.get(userId) ?? true) && wasUnchanged);
+      cursors.push({ userId, position });
+    });
+    text = nextText;
+  });
+
+  state.users.forEach(user => {
+    if (user.id === state.currentUserId) return;
+    if (deleted.has(user.id)) {
+      delete user.cursorPosition;
+      return;
+    }
+    const cursor = cursors.find(c => c.userId === user.id);
+    if (cursor) {
+      user.cursorPosition = cursor.position;
+      // Preserve visual position if cursor was logically unchanged
+      user.preserveVisual = unchanged.get(user.id) ?? false;
+    }
+  });
+};
+
+/**
+ * Трансформация вторых концов выделений других пользователей (первый конец - позиция курсора).
+ * Выделения из снимка сервера заменяют локальные
+ */
+const transformSelectionsThroughOperations = (
+  state: CodeState,
+  operations: TextOperation[],
+  oldCode: string,
+  serverCursors?: ServerCursor[]
+) => {
+  if (serverCursors && serverCursors.length > 0) {
+    serverCursors.forEach(cursor => {
+      const user = state.users.find(u => u.id === cursor.userId);
+      if (user && user.id !== state.currentUserId) {
+        user.selectionAnchor = cursor.anchor;
+      }
+    });
+  }
+
+  let anchors = state.users
+    .filter(user => user.selectionAnchor !== undefined && user.id !== state.currentUserId)
+    .filter(user => !user.fileId || user.fileId === state.currentFile?.id)
+    .map(user => ({ userId: user.id, position: user.selectionAnchor! }));
+  if (anchors.length === 0) return;
+
+  let text = oldCode;
+  operations.forEach(operation => {
+    const nextText = applyOperation(text, operation);
+    anchors = transformMultipleCursors(anchors, operation, text, nextText).map(({ userId, position }) => ({
+      userId,
+      position: position ?? Math.min(operation.position, nextText.length),
+    }));
+    text = nextText;
+  });
+
+  anchors.forEach(({ userId, position }) => {
+    const user = state.users.find(u => u.id === userId);
+    if (user) {
+      user.selectionAnchor = position;
+    }
+  });
+};
+
+/**
+ * Перенос границ веток комментариев открытого файла через те же операции, что и курсоры
+ */
+const transformCommentThreadsThroughOperations = (state: CodeState, operations: TextOperation[], oldCode: string) => {
+  if (state.commentThreads.length === 0 || operations.length === 0) return;
+
+  const anchors = transformCommentAnchors(state.commentThreads, operations, oldCode);
+  state.commentThreads.forEach((thread, index) => {
+    thread.startPosition = anchors[index].startPosition;
+    thread.endPosition = anchors[index].endPosition;
+  });
 };
 
 const codeSlice = createSlice({
@@ -59,16 +375,30 @@ const codeSlice = createSlice({
     },
     setUsers: (state, action: PayloadAction<User[]>) => {
       state.users = action.payload;
+      // Участник, за которым следовали, вышел из комнаты
+      if (state.followingUserId && !action.payload.some(user => user.id === state.followingUserId)) {
+        state.followingUserId = null;
+      }
     },
     setCurrentUserId: (state, action: PayloadAction<string>) => {
       state.currentUserId = action.payload;
     },
-    updateUserCursor: (state, action: PayloadAction<{ userId: string; position: number; preserveVisual?: boolean }>) => {
+    updateUserCursor: (state, action: PayloadAction<{
+      userId: string;
+      position: number;
+      anchor?: number;
+      fileId?: string;
+      preserveVisual?: boolean;
+    }>) => {
       const user = state.users.find(u => u.id === action.payload.userId);
       if (user) {
+        if (action.payload.fileId) {
+          user.fileId = action.payload.fileId;
+        }
         const oldPosition = user.cursorPosition;
         console.log(`📍 Direct cursor update: ${user.nickname} ${oldPosition} -> ${action.payload.position}`);
         user.cursorPosition = action.payload.position;
+        user.selectionAnchor = action.payload.anchor;
         // Add flag to preserve visual position if needed
         if (action.payload.preserveVisual !== undefined) {
           (user as any).preserveVisual = action.payload.preserveVisual;
@@ -89,6 +419,8 @@ const codeSlice = createSlice({
         // Update previous code BEFORE changing current code
         state.previousCode = oldCode;
         state.currentFile.code = action.payload.code;
+        // Операция в payload приблизительная (только чистое изменение длины), для комментариев нужен точный diff
+        transformCommentThreadsThroughOperations(state, diffToOperations(oldCode, action.payload.code), oldCode);
 
         if (action.payload.language) {
           state.currentFile.language = action.payload.language;
@@ -99,6 +431,11 @@ const codeSlice = createSlice({
           const isFromOtherUser = action.payload.fromOtherUser;
           const isFromLocalUser = action.payload.fromLocalUser;
 
+          // Второй конец выделения переносится той же операцией, что и курсор
+          if (action.payload.operation) {
+            transformSelectionsThroughOperations(state, [action.payload.operation], oldCode, action.payload.serverCursors);
+          }
+
           console.log(`🔄 REDUX: Processing ${isFromOtherUser ? 'remote' : 'local'} update`);
 
           // If server provided cursor positions, use them directly
@@ -138,7 +475,8 @@ const codeSlice = createSlice({
             // For remote changes, transform all cursors except current user
             const cursorsToTransform = state.users
               .filter(user => {
-                const hasPosition = user.cursorPosition !== undefined;
+                const hasPosition = user.cursorPosition !== undefined &&
+                  (!user.fileId || user.fileId === state.currentFile?.id);
                 const isCurrentUser = user.id === state.currentUserId;
 
                 if (isFromLocalUser) {
@@ -176,11 +514,301 @@ const codeSlice = createSlice({
         }
       }
     },
+    // Операции отправлены на сервер и ждут подтверждения
+    operationsSent: (state, action: PayloadAction<{ operations: TextOperation[]; operationId: string }>) => {
+      state.outstandingOperations = action.payload.operations;
+      state.outstandingOperationId = action.payload.operationId;
+    },
+    // Сервер применил наши операции и присвоил им ревизию
+    operationsAcknowledged: (state, action: PayloadAction<{ revision: number; operationId?: string }>) => {
+      // Подтверждение операций, которые уже были отброшены при переподключении
+      if (action.payload.operationId && action.payload.operationId !== state.outstandingOperationId) {
+        return;
+      }
+      if (state.outstandingOperations) {
+        state.syncedCode = applyOperations(state.syncedCode, state.outstandingOperations);
+      }
+      state.outstandingOperations = null;
+      state.outstandingOperationId = null;
+      state.revision = action.payload.revision;
+    },
+    // Подтверждение для отправленных операций потеряно (например, при разрыве связи).
+    // Они остаются в тексте и будут отправлены заново вместе с остальными локальными правками
+    outstandingOperationsDropped: (state) => {
+      state.outstandingOperations = null;
+      state.outstandingOperationId = null;
+    },
+    // Сервер отклонил правки (например, у наблюдателя) - возвращаемся к подтвержденному тексту
+    localChangesDiscarded: (state) => {
+      if (state.currentFile) {
+        const oldCode = state.currentFile.code;
+        transformCommentThreadsThroughOperations(state, diffToOperations(oldCode, state.syncedCode), oldCode);
+        state.previousCode = oldCode;
+        state.currentFile.code = state.syncedCode;
+      }
+      state.outstandingOperations = null;
+      state.outstandingOperationId = null;
+      state.pendingEditCount = 0;
+    },
+    /**
+     * Применение чужих операций с учетом собственных неподтвержденных правок:
+     * входящие операции трансформируются относительно отправленных (outstanding)
+     * и еще не отправленных локальных изменений, а отправленные - относительно входящих.
+     */
+    applyRemoteOperations: (state, action: PayloadAction<{
+      operations: TextOperation[];
+      revision: number;
+      serverCursors?: ServerCursor[];
+    }>) => {
+      if (!state.currentFile) return;
+
+      const { operations, revision, serverCursors } = action.payload;
+      const oldCode = state.currentFile.code;
+
+      let remoteOperations = operations;
+      const outstanding = state.outstandingOperations || [];
+      const bufferedOperations = diffToOperations(applyOperations(state.syncedCode, outstanding), oldCode);
+
+      // Операции сервера имеют приоритет при вставке в одну позицию - так же решает сервер
+      if (outstanding.length > 0) {
+        const [transformedRemote, transformedOutstanding] = transformOperations(remoteOperations, outstanding, true);
+        remoteOperations = transformedRemote;
+        state.outstandingOperations = transformedOutstanding;
+      }
+      if (bufferedOperations.length > 0) {
+        [remoteOperations] = transformOperations(remoteOperations, bufferedOperations, true);
+      }
+
+      transformCursorsThroughOperations(state, remoteOperations, oldCode, serverCursors);
+      transformSelectionsThroughOperations(state, remoteOperations, oldCode, serverCursors);
+      transformCommentThreadsThroughOperations(state, remoteOperations, oldCode);
+
+      state.previousCode = oldCode;
+      state.currentFile.code = applyOperations(oldCode, remoteOperations);
+      state.syncedCode = applyOperations(state.syncedCode, operations);
+      state.revision = revision;
+    },
+    // Новый текст CRDT документа после применения чужих операций
+    applyCrdtUpdate: (state, action: PayloadAction<{ code: string; serverCursors?: ServerCursor[] }>) => {
+      if (!state.currentFile) return;
+
+      const oldCode = state.currentFile.code;
+      const operations = diffToOperations(oldCode, action.payload.code);
+
+      transformCursorsThroughOperations(state, operations, oldCode, action.payload.serverCursors);
+      transformSelectionsThroughOperations(state, operations, oldCode, action.payload.serverCursors);
+      transformCommentThreadsThroughOperations(state, operations, oldCode);
+
+      state.previousCode = oldCode;
+      state.currentFile.code = action.payload.code;
+      state.syncedCode = action.payload.code;
+    },
+    /**
+     * Полная синхронизация документа с сервером.
+     * С rebaseLocalChanges локальные неподтвержденные правки переносятся на новый снимок,
+     * иначе они отбрасываются.
+     */
+    documentResynced: (state, action: PayloadAction<{
+      code: string;
+      language?: string;
+      revision: number;
+      rebaseLocalChanges?: boolean;
+    }>) => {
+      if (state.currentFile) {
+        const oldCode = state.currentFile.code;
+        let newCode = action.payload.code;
+
+        if (action.payload.rebaseLocalChanges) {
+          const localOperations = diffToOperations(state.syncedCode, oldCode);
+          const remoteOperations = diffToOperations(state.syncedCode, newCode);
+          const [, transformedRemote] = transformOperations(localOperations, remoteOperations, false);
+
+          transformCursorsThroughOperations(state, transformedRemote, oldCode);
+          transformSelectionsThroughOperations(state, transformedRemote, oldCode);
+          newCode = applyOperations(oldCode, transformedRemote);
+        }
+        transformCommentThreadsThroughOperations(state, diffToOperations(oldCode, newCode), oldCode);
+
+        state.previousCode = oldCode;
+        state.currentFile.code = newCode;
+        if (action.payload.language) {
+          state.currentFile.language = action.payload.language;
+        }
+      }
+      state.syncedCode = action.payload.code;
+      state.revision = action.payload.revision;
+      state.outstandingOperations = null;
+      state.outstandingOperationId = null;
+    },
+    setReconnectState: (state, action: PayloadAction<{ reconnectState: ReconnectState; attempt?: number }>) => {
+      state.reconnectState = action.payload.reconnectState;
+      state.reconnectAttempt = action.payload.attempt ?? 0;
+    },
+    setPendingEditCount: (state, action: PayloadAction<number>) => {
+      state.pendingEditCount = action.payload;
+    },
     updateLanguage: (state, action: PayloadAction<string>) => {
       if (state.currentFile) {
         state.currentFile.language = action.payload;
       }
     },
+    updateFileLanguage: (state, action: PayloadAction<{ fileId: string; language: string }>) => {
+      const entry = state.files.find(file => file.id === action.payload.fileId);
+      if (entry) {
+        entry.language = action.payload.language;
+      }
+      if (state.currentFile?.id === action.payload.fileId) {
+        state.currentFile.language = action.payload.language;
+      }
+    },
+    setFiles: (state, action: PayloadAction<RoomFileEntry[]>) => {
+      state.files = action.payload;
+      // Открытый файл могли переименовать или сменить ему язык
+      const entry = action.payload.find(file => file.id === state.currentFile?.id);
+      if (entry && state.currentFile) {
+        state.currentFile.path = entry.path;
+        state.currentFile.language = entry.language;
+      }
+    },
+    setSwitchingFile: (state, action: PayloadAction<boolean>) => {
+      state.isSwitchingFile = action.payload;
+    },
+    // В редакторе открыт другой файл комнаты - состояние синхронизации начинается заново
+    fileOpened: (state, action: PayloadAction<{ file: CodeFile; serverCursors?: ServerCursor[] }>) => {
+      const { file, serverCursors } = action.payload;
+      state.currentFile = file;
+      state.isSwitchingFile = false;
+      state.previousCode = file.code;
+      state.syncedCode = file.code;
+      state.revision = file.revision ?? 0;
+      state.outstandingOperations = null;
+      state.outstandingOperationId = null;
+      state.pendingEditCount = 0;
+      // Ветки нового файла сервер присылает следом за ним
+      state.commentThreads = [];
+      state.codePings = [];
+
+      state.users.forEach(user => {
+        if (user.id === state.currentUserId) {
+          user.fileId = file.id;
+          return;
+        }
+        const cursor = serverCursors?.find(c => c.userId === user.id);
+        if (cursor) {
+          user.fileId = file.id;
+          user.cursorPosition = cursor.position;
+          user.selectionAnchor = cursor.anchor;
+        } else {
+          delete user.cursorPosition;
+          delete user.selectionAnchor;
+        }
+      });
+    },
+    // Ветки комментариев файла, присланные вместе с его текстом
+    setCommentThreads: (state, action: PayloadAction<{ fileId: string; threads: CommentThread[] }>) => {
+      if (action.payload.fileId === state.currentFile?.id) {
+        state.commentThreads = action.payload.threads;
+      }
+    },
+    /**
+     * Новая или измененная ветка. У известной ветки обновляются комментарии и статус,
+     * а границы остаются локальными: они уже учитывают правки, которые сервер мог еще не получить
+     */
+    commentThreadUpdated: (state, action: PayloadAction<CommentThread>) => {
+      const thread = action.payload;
+      if (thread.fileId !== state.currentFile?.id) return;
+
+      const existing = state.commentThreads.find(t => t.id === thread.id);
+      if (existing) {
+        Object.assign(existing, { ...thread, startPosition: existing.startPosition, endPosition: existing.endPosition });
+      } else {
+        state.commentThreads.push(thread);
+      }
+    },
+    commentThreadDeleted: (state, action: PayloadAction<string>) => {
+      state.commentThreads = state.commentThreads.filter(thread => thread.id !== action.payload);
+    },
+    codePingReceived: (state, action: PayloadAction<CodePing>) => {
+      if (action.payload.fileId === state.currentFile?.id) {
+        state.codePings.push(action.payload);
+      }
+    },
+    codePingExpired: (state, action: PayloadAction<string>) => {
+      state.codePings = state.codePings.filter(ping => ping.id !== action.payload);
+    },
+    setUserFile: (state, action: PayloadAction<{ userId: string; fileId: string }>) => {
+      const user = state.users.find(u => u.id === action.payload.userId);
+      if (user) {
+        user.fileId = action.payload.fileId;
+        user.viewportTopLine = 0;
+        delete user.cursorPosition;
+        delete user.selectionAnchor;
+      }
+    },
+    updateUserViewport: (state, action: PayloadAction<{ userId: string; fileId?: string; topLine: number }>) => {
+      const user = state.users.find(u => u.id === action.payload.userId);
+      if (user) {
+        if (action.payload.fileId) {
+          user.fileId = action.payload.fileId;
+        }
+        user.viewportTopLine = action.payload.topLine;
+      }
+    },
+    setFollowingUser: (state, action: PayloadAction<string | null>) => {
+      state.followingUserId = action.payload;
+    },
+    setPresenter: (state, action: PayloadAction<{ presenterId: string | null; fileId?: string; topLine?: number }>) => {
+      const { presenterId, fileId, topLine } = action.payload;
+      state.presenterId = presenterId;
+
+      const presenter = state.users.find(u => u.id === presenterId);
+      if (presenter && fileId) {
+        presenter.fileId = fileId;
+        presenter.viewportTopLine = topLine ?? 0;
+      }
+    },
+    setRoomAccess: (
+      state,
+      action: PayloadAction<{
+        isOwner: boolean;
+        role?: RoomRole;
+        expiresAt?: string;
+        isLocked?: boolean;
+        mode?: RoomMode;
+        interviewRole?: InterviewRole;
+        problemStatement?: string;
+        presenterId?: string | null;
+      }>,
+    ) => {
+      state.isOwner = action.payload.isOwner;
+      state.role = action.payload.role || 'editor';
+      state.isLocked = action.payload.isLocked === true;
+      state.mode = action.payload.mode || 'collaborative';
+      state.interviewRole = action.payload.interviewRole || null;
+      state.problemStatement = action.payload.problemStatement || '';
+      state.presenterId = action.payload.presenterId || null;
+      if (action.payload.expiresAt) {
+        state.expiresAt = action.payload.expiresAt;
+      }
+    },
+    setRole: (state, action: PayloadAction<RoomRole>) => {
+      state.role = action.payload;
+    },
+    setRoomExpiry: (state, action: PayloadAction<string>) => {
+      state.expiresAt = action.payload;
+    },
+    setPasswordStatus: (state, action: PayloadAction<PasswordStatus | null>) => {
+      state.passwordStatus = action.payload;
+    },
+    setRoomLocked: (state, action: PayloadAction<boolean>) => {
+      state.isLocked = action.payload;
+    },
+    setInterviewRole: (state, action: PayloadAction<InterviewRole>) => {
+      state.interviewRole = action.payload;
+    },
+    setProblemStatement: (state, action: PayloadAction<string>) => {
+      state.problemStatement = action.payload;
+    },
     setError: (state, action: PayloadAction<string | null>) => {
       state.error = action.payload;
     },
@@ -188,12 +816,34 @@ const codeSlice = createSlice({
       state.error = null;
     },
     resetRoomState: (state) => {
+      state.roomId = null;
+      state.files = [];
       state.currentFile = null;
+      state.isSwitchingFile = false;
       state.isInRoom = false;
       state.users = [];
       state.currentUserId = null;
       state.error = null;
       state.previousCode = '';
+      state.revision = 0;
+      state.syncedCode = '';
+      state.outstandingOperations = null;
+      state.outstandingOperationId = null;
+      state.reconnectState = 'none';
+      state.reconnectAttempt = 0;
+      state.pendingEditCount = 0;
+      state.isOwner = false;
+      state.role = 'editor';
+      state.expiresAt = null;
+      state.passwordStatus = null;
+      state.isLocked = false;
+      state.mode = 'collaborative';
+      state.interviewRole = null;
+      state.problemStatement = '';
+      state.commentThreads = [];
+      state.followingUserId = null;
+      state.presenterId = null;
+      state.codePings = [];
     },
   },
   extraReducers: (builder) => {
@@ -210,22 +860,42 @@ const codeSlice = createSlice({
         state.isLoading = false;
         state.error = action.error.message || 'Failed to create code file';
       })
+      .addCase(importCodeFile.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(importCodeFile.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.currentFile = action.payload;
+      })
+      .addCase(importCodeFile.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.error.message || 'Failed to import code file';
+      })
+      .addCase(updateRoomExpiry.fulfilled, (state, action) => {
+        state.expiresAt = action.payload.expiresAt;
+      })
       .addCase(getCodeFile.pending, (state) => {
         state.isLoading = true;
         state.error = null;
       })
       .addCase(getCodeFile.fulfilled, (state, action) => {
         state.isLoading = false;
+        state.passwordStatus = null;
         state.currentFile = action.payload;
+        state.roomId = action.payload.roomId || action.payload.id;
+        state.expiresAt = action.payload.expiresAt || null;
         // Initialize previousCode when file is loaded
         state.previousCode = action.payload.code;
       })
       .addCase(getCodeFile.rejected, (state, action) => {
         state.isLoading = false;
+        if (action.payload) {
+          // Комната есть, но закрыта паролем - RoomPage покажет форму ввода
+          state.passwordStatus = action.payload as PasswordStatus;
+          return;
+        }
         state.error = action.error.message || 'Failed to get code file';
-      })
-      .addCase(updateCodeFile.fulfilled, (state, action) => {
-        state.currentFile = action.payload;
       });
   },
 });
@@ -237,7 +907,36 @@ export const {
   setCurrentUserId,
   updateUserCursor,
   updateCode,
+  operationsSent,
+  operationsAcknowledged,
+  applyRemoteOperations,
+  applyCrdtUpdate,
+  outstandingOperationsDropped,
+  localChangesDiscarded,
+  documentResynced,
+  setReconnectState,
+  setPendingEditCount,
   updateLanguage,
+  updateFileLanguage,
+  setFiles,
+  setSwitchingFile,
+  fileOpened,
+  setCommentThreads,
+  commentThreadUpdated,
+  commentThreadDeleted,
+  codePingReceived,
+  codePingExpired,
+  setUserFile,
+  updateUserViewport,
+  setFollowingUser,
+  setPresenter,
+  setRoomAccess,
+  setRole,
+  setRoomExpiry,
+  setPasswordStatus,
+  setRoomLocked,
+  setInterviewRole,
+  setProblemStatement,
   setError,
   clearError,
   resetRoomState,
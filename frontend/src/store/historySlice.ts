@@ -0,0 +1,87 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import axios from 'axios';
+import { HistoryState, RevisionContent, RevisionSummary } from '../types';
+import { getRoomAccessHeaders } from '../utils/roomTokens';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
+const HISTORY_PAGE_SIZE = 50;
+
+export const fetchHistory = createAsyncThunk(
+  'history/fetchHistory',
+  async ({ roomId, fileId, before }: { roomId: string; fileId: string; before?: number }) => {
+    const response = await axios.get(`${API_BASE_URL}/api/code/${fileId}/history`, {
+      params: { limit: HISTORY_PAGE_SIZE, before },
+      headers: getRoomAccessHeaders(roomId),
+    });
+    return response.data as { id: string; currentRevision: number; revisions: RevisionSummary[] };
+  }
+);
+
+export const fetchRevision = createAsyncThunk(
+  'history/fetchRevision',
+  async ({ roomId, fileId, revision }: { roomId: string; fileId: string; revision: number }) => {
+    const response = await axios.get(`${API_BASE_URL}/api/code/${fileId}/history/${revision}`, {
+      headers: getRoomAccessHeaders(roomId),
+    });
+    return response.data as RevisionContent;
+  }
+);
+
+const initialState: HistoryState = {
+  fileId: null,
+  currentRevision: 0,
+  revisions: [],
+  hasMore: false,
+  selectedRevision: null,
+  isLoading: false,
+  isPreviewLoading: false,
+  error: null,
+};
+
+const historySlice = createSlice({
+  name: 'history',
+  initialState,
+  reducers: {
+    clearSelectedRevision: (state) => {
+      state.selectedRevision = null;
+    },
+    resetHistory: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchHistory.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchHistory.fulfilled, (state, action) => {
+        const { before } = action.meta.arg;
+        state.isLoading = false;
+        state.fileId = action.payload.id;
+        state.currentRevision = action.payload.currentRevision;
+        // Запрос с before - следующая страница, без него - история заново с последней ревизии
+        state.revisions = before !== undefined
+          ? [...state.revisions, ...action.payload.revisions]
+          : action.payload.revisions;
+        state.hasMore = action.payload.revisions.length === HISTORY_PAGE_SIZE;
+      })
+      .addCase(fetchHistory.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.error.message || 'Failed to load history';
+      })
+      .addCase(fetchRevision.pending, (state) => {
+        state.isPreviewLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchRevision.fulfilled, (state, action) => {
+        state.isPreviewLoading = false;
+        state.selectedRevision = action.payload;
+      })
+      .addCase(fetchRevision.rejected, (state, action) => {
+        state.isPreviewLoading = false;
+        state.error = action.error.message || 'Failed to load revision';
+      });
+  },
+});
+
+export const { clearSelectedRevision, resetHistory } = historySlice.actions;
+export default historySlice.reducer;
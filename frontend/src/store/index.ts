@@ -1,9 +1,21 @@
 import { configureStore } from '@reduxjs/toolkit';
 import codeReducer from './codeSlice';
+import historyReducer from './historySlice';
+import replayReducer from './replaySlice';
+import interviewReducer from './interviewSlice';
+import runReducer from './runSlice';
+import testsReducer from './testsSlice';
+import chatReducer from './chatSlice';
 
 export const store = configureStore({
   reducer: {
     code: codeReducer,
+    history: historyReducer,
+    replay: replayReducer,
+    interview: interviewReducer,
+    run: runReducer,
+    tests: testsReducer,
+    chat: chatReducer,
   },
 });
 
@@ -0,0 +1,62 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { CandidateEvent, InterviewState, Scorecard } from '../types';
+
+const MAX_CANDIDATE_EVENTS = 200;
+
+interface NotesSnapshot {
+  notes: string;
+  scorecard: Scorecard;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+const initialState: InterviewState = {
+  notes: '',
+  scorecard: { ratings: {}, recommendation: null },
+  updatedBy: null,
+  updatedAt: null,
+  events: [],
+};
+
+/**
+ * Приватные данные собеседования. Заполняется только у интервьюеров - кандидатам сервер их не отправляет
+ */
+const interviewSlice = createSlice({
+  name: 'interview',
+  initialState,
+  reducers: {
+    interviewNotesLoaded: (state, action: PayloadAction<NotesSnapshot & { events: CandidateEvent[] }>) => {
+      return { ...action.payload };
+    },
+    // Правка другого интервьюера (последняя запись побеждает)
+    interviewNotesUpdated: (state, action: PayloadAction<NotesSnapshot>) => {
+      state.notes = action.payload.notes;
+      state.scorecard = action.payload.scorecard;
+      state.updatedBy = action.payload.updatedBy;
+      state.updatedAt = action.payload.updatedAt;
+    },
+    notesEdited: (state, action: PayloadAction<string>) => {
+      state.notes = action.payload;
+    },
+    scorecardEdited: (state, action: PayloadAction<Scorecard>) => {
+      state.scorecard = action.payload;
+    },
+    candidateEventReceived: (state, action: PayloadAction<CandidateEvent>) => {
+      state.events.push(action.payload);
+      if (state.events.length > MAX_CANDIDATE_EVENTS) {
+        state.events.splice(0, state.events.length - MAX_CANDIDATE_EVENTS);
+      }
+    },
+    resetInterview: () => initialState,
+  },
+});
+
+export const {
+  interviewNotesLoaded,
+  interviewNotesUpdated,
+  notesEdited,
+  scorecardEdited,
+  candidateEventReceived,
+  resetInterview,
+} = interviewSlice.actions;
+export default interviewSlice.reducer;
@@ -0,0 +1,49 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import axios from 'axios';
+import { ReplayState } from '../types';
+import { ReplayTimeline } from '../utils/replayTimeline';
+import { getRoomAccessHeaders } from '../utils/roomTokens';
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
+
+export const fetchReplay = createAsyncThunk(
+  'replay/fetchReplay',
+  async ({ roomId, fileId }: { roomId: string; fileId: string }) => {
+    const response = await axios.get(`${API_BASE_URL}/api/code/${fileId}/replay`, {
+      headers: getRoomAccessHeaders(roomId),
+    });
+    return response.data as ReplayTimeline;
+  }
+);
+
+const initialState: ReplayState = {
+  timeline: null,
+  isLoading: false,
+  error: null,
+};
+
+const replaySlice = createSlice({
+  name: 'replay',
+  initialState,
+  reducers: {
+    resetReplay: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(fetchReplay.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(fetchReplay.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.timeline = action.payload;
+      })
+      .addCase(fetchReplay.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.error.message || 'Failed to load replay';
+      });
+  },
+});
+
+export const { resetReplay } = replaySlice.actions;
+export default replaySlice.reducer;
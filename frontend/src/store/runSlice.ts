@@ -0,0 +1,58 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { RunOutputChunk, RunResult, RunState } from '../types';
+
+const initialState: RunState = {
+  runId: null,
+  isRunning: false,
+  path: null,
+  language: null,
+  startedBy: null,
+  output: [],
+  result: null,
+};
+
+/**
+ * Последний запуск кода в комнате. Вывод общий: его видят все участники, кто бы ни нажал запуск
+ */
+const runSlice = createSlice({
+  name: 'run',
+  initialState,
+  reducers: {
+    runStarted: (
+      state,
+      action: PayloadAction<{ runId: string; path: string; language: string; startedBy?: string }>,
+    ) => {
+      return {
+        ...initialState,
+        runId: action.payload.runId,
+        isRunning: true,
+        path: action.payload.path,
+        language: action.payload.language,
+        startedBy: action.payload.startedBy || null,
+      };
+    },
+    runOutputReceived: (state, action: PayloadAction<RunOutputChunk & { runId: string }>) => {
+      if (action.payload.runId !== state.runId) return;
+
+      // Соседние куски одного потока склеиваются, чтобы не плодить элементы списка
+      const { stream, text } = action.payload;
+      const last = state.output[state.output.length - 1];
+      if (last && last.stream === stream) {
+        last.text += text;
+      } else {
+        state.output.push({ stream, text });
+      }
+    },
+    runFinished: (state, action: PayloadAction<RunResult & { runId: string }>) => {
+      if (action.payload.runId !== state.runId) return;
+
+      const { status, exitCode, durationMs } = action.payload;
+      state.isRunning = false;
+      state.result = { status, exitCode, durationMs };
+    },
+    resetRun: () => initialState,
+  },
+});
+
+export const { runStarted, runOutputReceived, runFinished, resetRun } = runSlice.actions;
+export default runSlice.reducer;
@@ -0,0 +1,55 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { TestCase, TestCaseResult, TestRunSummary, TestsState } from '../types';
+
+const initialState: TestsState = {
+  testCases: [],
+  runId: null,
+  isRunning: false,
+  path: null,
+  startedBy: null,
+  testIds: [],
+  results: {},
+  summary: null,
+};
+
+/**
+ * Тесты задачи и результаты последнего прогона. Как и вывод запуска, результаты общие для комнаты
+ */
+const testsSlice = createSlice({
+  name: 'tests',
+  initialState,
+  reducers: {
+    setTestCases: (state, action: PayloadAction<TestCase[]>) => {
+      state.testCases = action.payload;
+    },
+    testsStarted: (
+      state,
+      action: PayloadAction<{ runId: string; path: string; startedBy?: string; testIds: string[] }>,
+    ) => {
+      state.runId = action.payload.runId;
+      state.isRunning = true;
+      state.path = action.payload.path;
+      state.startedBy = action.payload.startedBy || null;
+      state.testIds = action.payload.testIds;
+      state.results = {};
+      state.summary = null;
+    },
+    testResultReceived: (state, action: PayloadAction<TestCaseResult & { runId: string }>) => {
+      if (action.payload.runId !== state.runId) return;
+
+      const { runId, ...result } = action.payload;
+      state.results[result.testId] = result;
+    },
+    testsFinished: (state, action: PayloadAction<TestRunSummary & { runId: string }>) => {
+      if (action.payload.runId !== state.runId) return;
+
+      const { status, passed, total } = action.payload;
+      state.isRunning = false;
+      state.summary = { status, passed, total };
+    },
+    resetTests: () => initialState,
+  },
+});
+
+export const { setTestCases, testsStarted, testResultReceived, testsFinished, resetTests } = testsSlice.actions;
+export default testsSlice.reducer;
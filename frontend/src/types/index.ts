@@ -1,25 +1,69 @@
+import { TextOperation } from '../utils/cursorTransform';
+import { CrdtOperation } from '../utils/crdtDocument';
+import { ReplayTimeline } from '../utils/replayTimeline';
+
+export type SyncEngine = 'ot' | 'crdt';
+
+export type FileEntryType = 'file' | 'folder';
+
+// Роль участника комнаты: наблюдатель только смотрит
+export type RoomRole = 'editor' | 'viewer';
+
+// Режим комнаты: обычное совместное редактирование или собеседование
+export type RoomMode = 'collaborative' | 'interview';
+
+export type InterviewRole = 'interviewer' | 'candidate';
+
+// Почему нужен пароль комнаты: он еще не введен, введен неверно или попытки временно исчерпаны
+export type PasswordStatus = 'required' | 'invalid' | 'blocked';
+
 export interface CodeFile {
   id: string;
+  roomId?: string; // Комната, к которой относится файл (для корневого файла совпадает с id)
+  path?: string;
   code: string;
   language: string;
+  revision?: number;
+  syncEngine?: SyncEngine;
   createdAt: string;
+  expiresAt?: string;
+}
+
+// Запись дерева файлов комнаты (без содержимого)
+export interface RoomFileEntry {
+  id: string;
+  path: string;
+  entryType: FileEntryType;
+  language: string;
 }
 
 export interface User {
   id: string;
   nickname: string;
-  cursorPosition?: number;
+  fileId?: string; // Файл, открытый пользователем
+  isOwner?: boolean;
+  role?: RoomRole;
+  interviewRole?: InterviewRole; // Только в комнатах-собеседованиях
+  cursorPosition?: number; // Активный конец выделения (каретка)
+  selectionAnchor?: number; // Второй конец выделения, если пользователь выделил текст
+  viewportTopLine?: number; // Первая видимая строка в редакторе пользователя
   preserveVisual?: boolean;
 }
 
 export interface ServerCursor {
   userId: string;
   position: number;
+  anchor?: number;
   nickname?: string;
 }
 
+export type ReconnectState = 'none' | 'reconnecting' | 'resyncing';
+
 export interface CodeState {
-  currentFile: CodeFile | null;
+  roomId: string | null;
+  files: RoomFileEntry[];
+  currentFile: CodeFile | null; // Открытый в редакторе файл комнаты
+  isSwitchingFile: boolean;
   isConnected: boolean;
   isInRoom: boolean;
   users: User[];
@@ -27,12 +71,251 @@ export interface CodeState {
   isLoading: boolean;
   error: string | null;
   previousCode: string;
+  revision: number; // Последняя ревизия документа, подтвержденная сервером
+  syncedCode: string; // Текст документа на этой ревизии
+  outstandingOperations: TextOperation[] | null; // Отправленные операции, ожидающие подтверждения
+  outstandingOperationId: string | null;
+  reconnectState: ReconnectState;
+  reconnectAttempt: number;
+  pendingEditCount: number; // Офлайн правки, еще не подтвержденные сервером
+  isOwner: boolean; // Текущий пользователь подтвердил владение комнатой токеном
+  role: RoomRole;
+  expiresAt: string | null;
+  passwordStatus: PasswordStatus | null; // Доступ к комнате ждет ввода пароля
+  isLocked: boolean; // Владелец закрыл вход новым участникам
+  mode: RoomMode;
+  interviewRole: InterviewRole | null;
+  problemStatement: string; // Условие задачи в Markdown
+  commentThreads: CommentThread[]; // Ветки комментариев открытого файла
+  followingUserId: string | null; // Участник, за прокруткой и файлом которого следует редактор
+  presenterId: string | null; // Ведущий показа: за ним следуют все, пока владелец не завершит показ
+  codePings: CodePing[]; // Фрагменты открытого файла, на которые сейчас указывают участники
+}
+
+// Ссылка-приглашение. Токен известен только сразу после создания
+export interface ShareLink {
+  id: string;
+  role: RoomRole;
+  interviewRole?: InterviewRole | null;
+  createdAt: string;
+  token?: string;
+}
+
+// Шаблон комнаты: встроенный или сохраненный командой из существующей комнаты
+export interface RoomTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  language: string;
+  source: 'builtin' | 'team';
+  hasProblemStatement: boolean;
+  hasTests: boolean;
+  canDelete: boolean;
+  createdAt: string | null;
+}
+
+export interface RevisionSummary {
+  revision: number;
+  kind: 'snapshot' | 'delta';
+  language: string;
+  authorNickname: string | null;
+  createdAt: string;
+}
+
+export interface RevisionContent {
+  revision: number;
+  code: string;
+  language: string;
+  authorNickname: string | null;
+  createdAt: string;
+}
+
+export interface HistoryState {
+  fileId: string | null;
+  currentRevision: number;
+  revisions: RevisionSummary[];
+  hasMore: boolean;
+  selectedRevision: RevisionContent | null;
+  isLoading: boolean;
+  isPreviewLoading: boolean;
+  error: string | null;
+}
+
+export interface ReplayState {
+  timeline: ReplayTimeline | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Критерии оценки кандидата, по каждому балл от 1 до 4
+export type ScorecardCriterion = 'problemSolving' | 'codeQuality' | 'communication' | 'testing';
+
+export type Recommendation = 'strong_no' | 'no' | 'yes' | 'strong_yes';
+
+export interface Scorecard {
+  ratings: Partial<Record<ScorecardCriterion, number>>;
+  recommendation: Recommendation | null;
+}
+
+// Действие кандидата, которое видят только интервьюеры
+export interface CandidateEvent {
+  type: 'paste' | 'blur' | 'focus';
+  userId: string;
+  nickname?: string;
+  length?: number;
+  timestamp: number;
+}
+
+export interface InterviewState {
+  notes: string;
+  scorecard: Scorecard;
+  updatedBy: string | null;
+  updatedAt: string | null;
+  events: CandidateEvent[];
+}
+
+// Чем закончился запуск кода: лимиты времени, памяти и вывода задает сервер
+export type RunStatus = 'success' | 'error' | 'timeout' | 'memory_limit' | 'output_limit' | 'stopped';
+
+export interface RunOutputChunk {
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+export interface RunResult {
+  status: RunStatus;
+  exitCode: number | null;
+  durationMs: number;
+}
+
+export interface RunState {
+  runId: string | null;
+  isRunning: boolean;
+  path: string | null;
+  language: string | null;
+  startedBy: string | null;
+  output: RunOutputChunk[];
+  result: RunResult | null;
+}
+
+// Тест задачи комнаты. У скрытых тестов ввод и ожидаемый вывод приходят только владельцу
+export interface TestCase {
+  id: string;
+  position: number;
+  isHidden: boolean;
+  input?: string;
+  expectedOutput?: string;
+}
+
+export interface TestCaseResult {
+  testId: string;
+  passed: boolean;
+  status: RunStatus;
+  durationMs: number;
+  actualOutput?: string;
+  errorOutput?: string;
+}
+
+export interface TestRunSummary {
+  status: 'completed' | 'stopped' | 'error';
+  passed: number;
+  total: number;
+}
+
+export interface TestsState {
+  testCases: TestCase[];
+  runId: string | null;
+  isRunning: boolean;
+  path: string | null;
+  startedBy: string | null;
+  testIds: string[];
+  results: Record<string, TestCaseResult>;
+  summary: TestRunSummary | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  nickname: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface Comment {
+  id: string;
+  nickname: string;
+  text: string;
+  createdAt: string;
+}
+
+// Ветка комментариев к диапазону строк. Границы переносятся при каждой правке файла
+export interface CommentThread {
+  id: string;
+  fileId: string;
+  startPosition: number;
+  endPosition: number;
+  isResolved: boolean;
+  resolvedBy: string | null;
+  createdAt: string;
+  comments: Comment[];
+}
+
+// Указание участника на фрагмент файла. Не сохраняется и гаснет через несколько секунд
+export interface CodePing {
+  id: string;
+  fileId: string;
+  userId: string;
+  nickname: string;
+  startPosition: number;
+  endPosition: number;
+}
+
+export interface ChatState {
+  messages: ChatMessage[];
+  isOpen: boolean;
+  unreadCount: number;
 }
 
 export interface SocketEvents {
-  join_room: (data: { roomId: string; nickname?: string }) => void;
+  join_room: (data: {
+    roomId: string;
+    nickname?: string;
+    fileId?: string;
+    resync?: { revision: number; hash: string };
+    ownerToken?: string;
+    inviteToken?: string;
+    password?: string;
+    participantToken?: string;
+  }) => void;
   leave_room: () => void;
   code_update: (data: { roomId: string; code: string; language?: string }) => void;
-  language_change: (data: { roomId: string; language: string }) => void;
-  cursor_update: (data: { roomId: string; position: number }) => void;
+  code_ops: (data: { roomId: string; fileId: string; baseRevision: number; operations: TextOperation[]; operationId: string }) => void;
+  crdt_ops: (data: { roomId: string; fileId: string; epoch?: number; operations: CrdtOperation[] }) => void;
+  request_resync: (data: { roomId: string; fileId: string }) => void;
+  restore_revision: (data: { roomId: string; fileId: string; revision: number }) => void;
+  language_change: (data: { roomId: string; fileId: string; language: string }) => void;
+  open_file: (data: { roomId: string; fileId: string }) => void;
+  file_create: (data: { roomId: string; path: string; entryType: FileEntryType }) => void;
+  file_move: (data: { roomId: string; fileId: string; path: string }) => void;
+  file_delete: (data: { roomId: string; fileId: string }) => void;
+  cursor_update: (data: { roomId: string; position: number; anchor?: number }) => void;
+  viewport_update: (data: { roomId: string; topLine: number }) => void;
+  set_presenter: (data: { roomId: string; enabled: boolean }) => void;
+  code_ping: (data: { roomId: string; startPosition: number; endPosition: number }) => void;
+  kick_user: (data: { roomId: string; userId: string }) => void;
+  ban_user: (data: { roomId: string; userId: string }) => void;
+  set_room_lock: (data: { roomId: string; locked: boolean }) => void;
+  interview_notes_update: (data: { roomId: string; notes?: string; scorecard?: Scorecard }) => void;
+  candidate_event: (data: { roomId: string; type: CandidateEvent['type']; length?: number }) => void;
+  problem_update: (data: { roomId: string; problemStatement: string }) => void;
+  run_code: (data: { roomId: string; fileId: string; stdin?: string }) => void;
+  stop_run: (data: { roomId: string }) => void;
+  run_tests: (data: { roomId: string; fileId: string }) => void;
+  test_case_create: (data: { roomId: string; input: string; expectedOutput: string; isHidden: boolean }) => void;
+  test_case_update: (data: { roomId: string; testId: string; input: string; expectedOutput: string; isHidden: boolean }) => void;
+  test_case_delete: (data: { roomId: string; testId: string }) => void;
+  chat_message: (data: { roomId: string; text: string }) => void;
+  comment_thread_create: (data: { roomId: string; fileId: string; startPosition: number; endPosition: number; text: string }) => void;
+  comment_reply: (data: { roomId: string; threadId: string; text: string }) => void;
+  comment_thread_resolve: (data: { roomId: string; threadId: string; isResolved: boolean }) => void;
+  comment_thread_delete: (data: { roomId: string; threadId: string }) => void;
 }
\ No newline at end of file
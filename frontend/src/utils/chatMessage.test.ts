@@ -0,0 +1,67 @@
+/**
+ * Тесты разметки сообщений чата
+ */
+
+import { formatCodeSnippet, parseChatMessage } from './chatMessage';
+
+describe('Chat message formatting', () => {
+  test('plain text keeps its line breaks', () => {
+    expect(parseChatMessage('hello\nworld')).toEqual([
+      {
+        type: 'text',
+        lines: [[{ type: 'text', text: 'hello' }], [{ type: 'text', text: 'world' }]],
+      },
+    ]);
+  });
+
+  test('fenced snippet becomes a code segment with its language', () => {
+    const segments = parseChatMessage('look at this:\n```TS\nconst a: number = 1;\n\nfoo(a);\n```\nok?');
+
+    expect(segments).toEqual([
+      { type: 'text', lines: [[{ type: 'text', text: 'look at this:' }]] },
+      { type: 'code', language: 'ts', text: 'const a: number = 1;\n\nfoo(a);' },
+      { type: 'text', lines: [[{ type: 'text', text: 'ok?' }]] },
+    ]);
+  });
+
+  test('markdown inside a snippet is not interpreted', () => {
+    expect(parseChatMessage('```\n**not bold** `x`\n```')).toEqual([
+      { type: 'code', language: '', text: '**not bold** `x`' },
+    ]);
+  });
+
+  test('unclosed fence runs to the end of the message', () => {
+    expect(parseChatMessage('```py\nprint(1)')).toEqual([{ type: 'code', language: 'py', text: 'print(1)' }]);
+  });
+
+  test('blank lines around snippets are dropped', () => {
+    const segments = parseChatMessage('\n\n```\nx\n```\n\n\nbye\n');
+
+    expect(segments).toEqual([
+      { type: 'code', language: '', text: 'x' },
+      { type: 'text', lines: [[{ type: 'text', text: 'bye' }]] },
+    ]);
+  });
+
+  test('inline markup is parsed in text lines', () => {
+    expect(parseChatMessage('use `map` **here**')).toEqual([
+      {
+        type: 'text',
+        lines: [[
+          { type: 'text', text: 'use ' },
+          { type: 'code', text: 'map' },
+          { type: 'text', text: ' ' },
+          { type: 'strong', children: [{ type: 'text', text: 'here' }] },
+        ]],
+      },
+    ]);
+  });
+
+  test('snippet template places the cursor inside the block', () => {
+    const snippet = formatCodeSnippet('', 'python');
+
+    expect(snippet.text).toBe('```python\n\n```');
+    expect(snippet.text.slice(0, snippet.cursor)).toBe('```python\n');
+    expect(parseChatMessage(snippet.text)).toEqual([{ type: 'code', language: 'python', text: '' }]);
+  });
+});
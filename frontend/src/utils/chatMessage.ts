@@ -0,0 +1,59 @@
+/**
+ * Разметка сообщений чата: блоки кода в ``` с необязательным языком и
+ * строчная разметка Markdown в остальном тексте. Переносы строк сохраняются как есть.
+ */
+
+import { InlineNode, parseInline } from './markdown';
+
+export type ChatSegment =
+  | { type: 'text'; lines: InlineNode[][] }
+  | { type: 'code'; language: string; text: string };
+
+const FENCE = /^\s*```\s*([\w+#-]*)\s*$/;
+
+export function parseChatMessage(source: string): ChatSegment[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const segments: ChatSegment[] = [];
+  let textLines: string[] = [];
+
+  const flushText = () => {
+    // Пустые строки вокруг блоков кода не нужны
+    while (textLines.length > 0 && !textLines[0].trim()) textLines.shift();
+    while (textLines.length > 0 && !textLines[textLines.length - 1].trim()) textLines.pop();
+    if (textLines.length > 0) {
+      segments.push({ type: 'text', lines: textLines.map(parseInline) });
+    }
+    textLines = [];
+  };
+
+  let index = 0;
+  while (index < lines.length) {
+    const fence = lines[index].match(FENCE);
+    if (!fence) {
+      textLines.push(lines[index]);
+      index++;
+      continue;
+    }
+
+    flushText();
+    const codeLines: string[] = [];
+    index++;
+    while (index < lines.length && !FENCE.test(lines[index])) {
+      codeLines.push(lines[index]);
+      index++;
+    }
+    index++; // Закрывающая ``` (или конец сообщения)
+    segments.push({ type: 'code', language: fence[1].toLowerCase(), text: codeLines.join('\n') });
+  }
+  flushText();
+
+  return segments;
+}
+
+/**
+ * Заготовка блока кода для поля ввода: курсор ставится на пустую строку внутри блока
+ */
+export function formatCodeSnippet(code: string, language: string): { text: string; cursor: number } {
+  const opening = `\`\`\`${language}\n`;
+  return { text: `${opening}${code}\n\`\`\``, cursor: opening.length + code.length };
+}
@@ -0,0 +1,74 @@
+/**
+ * Тесты границ веток комментариев
+ */
+
+import { getAnchorLines, getSelectedLinesAnchor, transformCommentAnchors } from './commentAnchors';
+import { diffToOperations } from './textOperations';
+
+const CODE = 'line one\nline two\nline three\nline four';
+
+describe('Comment anchors', () => {
+  test('selection expands to whole lines', () => {
+    const anchor = getSelectedLinesAnchor(CODE, 12, 22);
+
+    expect(CODE.slice(anchor.startPosition, anchor.endPosition)).toBe('line two\nline three');
+    expect(getAnchorLines(CODE, anchor)).toEqual({ startLine: 2, endLine: 3 });
+  });
+
+  test('caret without selection anchors its own line', () => {
+    const anchor = getSelectedLinesAnchor(CODE, CODE.length, CODE.length);
+
+    expect(CODE.slice(anchor.startPosition, anchor.endPosition)).toBe('line four');
+    expect(getAnchorLines(CODE, anchor)).toEqual({ startLine: 4, endLine: 4 });
+  });
+
+  test('selection ending right after a line break does not take the next line', () => {
+    const anchor = getSelectedLinesAnchor(CODE, 0, 9);
+
+    expect(getAnchorLines(CODE, anchor)).toEqual({ startLine: 1, endLine: 1 });
+  });
+
+  test('lines inserted above shift the range down', () => {
+    const anchor = getSelectedLinesAnchor(CODE, 12, 22);
+    const newCode = `// header\n\n${CODE}`;
+
+    const [moved] = transformCommentAnchors([anchor], diffToOperations(CODE, newCode), CODE);
+
+    expect(newCode.slice(moved.startPosition, moved.endPosition)).toBe('line two\nline three');
+    expect(getAnchorLines(newCode, moved)).toEqual({ startLine: 4, endLine: 5 });
+  });
+
+  test('edits inside the range keep it around the same lines', () => {
+    const anchor = getSelectedLinesAnchor(CODE, 12, 22);
+    const newCode = CODE.replace('line two', 'line two, edited\nand split');
+
+    const [moved] = transformCommentAnchors([anchor], diffToOperations(CODE, newCode), CODE);
+
+    expect(newCode.slice(moved.startPosition, moved.endPosition)).toBe('line two, edited\nand split\nline three');
+  });
+
+  test('edits below the range leave it in place', () => {
+    const anchor = getSelectedLinesAnchor(CODE, 0, 0);
+    const newCode = `${CODE}\nline five`;
+
+    expect(transformCommentAnchors([anchor], diffToOperations(CODE, newCode), CODE)).toEqual([anchor]);
+  });
+
+  test('deleting the commented lines shrinks the range to the line where they were', () => {
+    const anchor = getSelectedLinesAnchor(CODE, 12, 22);
+    const newCode = 'line one\nline four';
+
+    const [moved] = transformCommentAnchors([anchor], diffToOperations(CODE, newCode), CODE);
+
+    expect(moved.endPosition).toBeLessThanOrEqual(newCode.length);
+    expect(getAnchorLines(newCode, moved)).toEqual({ startLine: 2, endLine: 2 });
+  });
+
+  test('range at the end of a document survives the document being cleared', () => {
+    const anchor = getSelectedLinesAnchor(CODE, CODE.length, CODE.length);
+
+    expect(transformCommentAnchors([anchor], diffToOperations(CODE, ''), CODE)).toEqual([
+      { startPosition: 0, endPosition: 0 },
+    ]);
+  });
+});
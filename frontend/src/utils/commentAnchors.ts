@@ -0,0 +1,70 @@
+import { TextOperation, transformMultipleCursors } from './cursorTransform';
+import { applyOperation } from './textOperations';
+
+/**
+ * Границы ветки комментариев: начало первой и конец последней строки диапазона
+ */
+export interface CommentAnchor {
+  startPosition: number;
+  endPosition: number;
+}
+
+/**
+ * Диапазон строк, которые затрагивает выделение в редакторе.
+ * Выделение, закончившееся сразу после перевода строки, следующую строку не захватывает
+ */
+export function getSelectedLinesAnchor(code: string, selectionStart: number, selectionEnd: number): CommentAnchor {
+  const start = Math.min(selectionStart, selectionEnd);
+  let end = Math.max(selectionStart, selectionEnd);
+  if (end > start && code[end - 1] === '\n') {
+    end--;
+  }
+
+  const lineEnd = code.indexOf('\n', end);
+  return {
+    startPosition: code.lastIndexOf('\n', start - 1) + 1,
+    endPosition: lineEnd === -1 ? code.length : lineEnd,
+  };
+}
+
+/**
+ * Номера первой и последней строки диапазона (с единицы)
+ */
+export function getAnchorLines(code: string, anchor: CommentAnchor): { startLine: number; endLine: number } {
+  const countLines = (text: string) => text.split('\n').length - 1;
+  const startLine = countLines(code.slice(0, anchor.startPosition)) + 1;
+  return {
+    startLine,
+    endLine: startLine + countLines(code.slice(anchor.startPosition, anchor.endPosition)),
+  };
+}
+
+/**
+ * Перенос границ веток через правки текста. Каждая граница трансформируется
+ * как курсор; граница, попавшая в удаленный фрагмент, переходит к началу удаления
+ */
+export function transformCommentAnchors(
+  anchors: CommentAnchor[],
+  operations: TextOperation[],
+  oldText: string,
+): CommentAnchor[] {
+  let positions = anchors.flatMap((anchor, index) => [
+    { userId: `${index}:start`, position: anchor.startPosition },
+    { userId: `${index}:end`, position: anchor.endPosition },
+  ]);
+
+  let text = oldText;
+  operations.forEach(operation => {
+    const nextText = applyOperation(text, operation);
+    positions = transformMultipleCursors(positions, operation, text, nextText).map(({ userId, position }) => ({
+      userId,
+      position: Math.min(position ?? operation.position, nextText.length),
+    }));
+    text = nextText;
+  });
+
+  return anchors.map((_, index) => {
+    const startPosition = positions[index * 2].position;
+    return { startPosition, endPosition: Math.max(startPosition, positions[index * 2 + 1].position) };
+  });
+}
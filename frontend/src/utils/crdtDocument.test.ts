@@ -0,0 +1,211 @@
+/**
+ * Тесты сходимости CRDT документа при параллельном и офлайн редактировании
+ */
+
+import { CrdtDocument, CrdtOperation, rebaseCrdtOperations } from './crdtDocument';
+import { diffToOperations } from './textOperations';
+
+describe('CRDT document convergence', () => {
+
+  // Перевод текстовой правки пользователя в CRDT операции, как это делает клиент
+  const edit = (document: CrdtDocument, newText: string): CrdtOperation[] => {
+    const operations: CrdtOperation[] = [];
+    diffToOperations(document.getText(), newText).forEach(operation => {
+      if (operation.type === 'delete') {
+        operations.push(...document.localDelete(operation.position, operation.length));
+      } else {
+        operations.push(...document.localInsert(operation.position, operation.content || ''));
+      }
+    });
+    return operations;
+  };
+
+  const createReplicas = (initialText: string, ...clients: string[]) => {
+    const origin = CrdtDocument.fromText(initialText, 'server');
+    return clients.map(client => CrdtDocument.fromState(origin.toState(), client));
+  };
+
+  describe('User Left and User Right editing simultaneously', () => {
+
+    test('edits on different lines are both preserved', () => {
+      const [left, right] = createReplicas('function test() {\n  return true;\n}', 'left', 'right');
+
+      const leftOps = edit(left, 'export function test() {\n  return true;\n}');
+      const rightOps = edit(right, 'function test() {\n  return false;\n}');
+
+      left.applyRemote(rightOps);
+      right.applyRemote(leftOps);
+
+      expect(left.getText()).toBe('export function test() {\n  return false;\n}');
+      expect(right.getText()).toBe(left.getText());
+    });
+
+    test('inserts at the same position converge to the same order', () => {
+      const [left, right] = createReplicas('ab', 'left', 'right');
+
+      const leftOps = edit(left, 'aXb');
+      const rightOps = edit(right, 'aYb');
+
+      left.applyRemote(rightOps);
+      right.applyRemote(leftOps);
+
+      expect(left.getText()).toBe(right.getText());
+      expect(['aXYb', 'aYXb']).toContain(left.getText());
+    });
+
+    test('typing inside a range deleted by the other user keeps the typed text', () => {
+      const [left, right] = createReplicas('hello brave new world', 'left', 'right');
+
+      const leftOps = edit(left, 'hello brave!!! new world');
+      const rightOps = edit(right, 'hello world');
+
+      left.applyRemote(rightOps);
+      right.applyRemote(leftOps);
+
+      expect(left.getText()).toBe('hello !!!world');
+      expect(right.getText()).toBe(left.getText());
+    });
+
+    test('both users deleting the same text delete it once', () => {
+      const [left, right] = createReplicas('const unused = 1;\nconst used = 2;', 'left', 'right');
+
+      const leftOps = edit(left, 'const used = 2;');
+      const rightOps = edit(right, 'const used = 2;');
+
+      left.applyRemote(rightOps);
+      right.applyRemote(leftOps);
+
+      expect(left.getText()).toBe('const used = 2;');
+      expect(right.getText()).toBe('const used = 2;');
+    });
+  });
+
+  describe('Delivery guarantees', () => {
+
+    test('duplicate delivery is idempotent', () => {
+      const [left, right] = createReplicas('abc', 'left', 'right');
+      const ops = edit(left, 'abXc');
+
+      right.applyRemote(ops);
+      right.applyRemote(ops);
+
+      expect(right.getText()).toBe('abXc');
+    });
+
+    test('operations delivered out of order are applied once dependencies arrive', () => {
+      const [left, right] = createReplicas('', 'left', 'right');
+      const first = edit(left, 'hello');
+      const second = edit(left, 'hello world');
+      const third = edit(left, 'world');
+
+      right.applyRemote(third);
+      right.applyRemote(second);
+      expect(right.getText()).toBe('');
+
+      right.applyRemote(first);
+      expect(right.getText()).toBe('world');
+    });
+
+    test('state survives serialization round trip', () => {
+      const [left, right] = createReplicas('base', 'left', 'right');
+      const leftOps = edit(left, 'base left');
+      const restored = CrdtDocument.fromState(JSON.parse(JSON.stringify(left.toState())), 'left');
+
+      const rightOps = edit(right, 'right base');
+      restored.applyRemote(rightOps);
+      right.applyRemote(leftOps);
+
+      expect(restored.getText()).toBe(right.getText());
+    });
+  });
+
+  describe('Offline editing', () => {
+
+    test('long offline session merges deterministically on reconnect', () => {
+      const [server, online, offline] = createReplicas('line1\nline2\nline3', 'server', 'online', 'offline');
+
+      // Пока один клиент офлайн, другой продолжает работать через сервер
+      const offlineOps = [
+        ...edit(offline, 'line1\nline2 changed offline\nline3'),
+        ...edit(offline, 'line0\nline1\nline2 changed offline\nline3'),
+      ];
+      const onlineOps = [
+        ...edit(online, 'line1\nline2\nline3\nline4'),
+        ...edit(online, 'line1 online\nline2\nline3\nline4'),
+      ];
+      server.applyRemote(onlineOps);
+
+      // Переподключение: офлайн клиент отправляет свою очередь и получает пропущенное
+      server.applyRemote(offlineOps);
+      offline.applyRemote(onlineOps);
+      online.applyRemote(offlineOps);
+
+      const expected = 'line0\nline1 online\nline2 changed offline\nline3\nline4';
+      expect(server.getText()).toBe(expected);
+      expect(online.getText()).toBe(expected);
+      expect(offline.getText()).toBe(expected);
+    });
+  });
+
+  describe('Resync with unacknowledged edits', () => {
+
+    test('edits are reapplied as is when the new copy knows their characters', () => {
+      const [server, client] = createReplicas('abc', 'server', 'client');
+      const pending = edit(client, 'abXc');
+      const next = CrdtDocument.fromState(server.toState(), 'client');
+
+      expect(rebaseCrdtOperations(client, next, pending)).toBe(pending);
+      expect(next.getText()).toBe('abXc');
+    });
+
+    test('edits survive a rebuild of the server document', () => {
+      const [other, client] = createReplicas('hello world', 'other', 'client');
+      const pending = edit(client, 'hi world');
+      edit(other, 'hello world!');
+
+      // Сервер пересобрал документ: у символов новые идентификаторы
+      const rebuilt = CrdtDocument.fromText(other.getText(), 'rebuilt');
+      const next = CrdtDocument.fromState(rebuilt.toState(), 'client');
+      const rebased = rebaseCrdtOperations(client, next, pending);
+
+      expect(next.getText()).toBe('hi world!');
+      rebuilt.applyRemote(rebased);
+      expect(rebuilt.getText()).toBe('hi world!');
+    });
+  });
+
+  test('random concurrent edits converge for any delivery order', () => {
+    // Детерминированный генератор, чтобы падения воспроизводились
+    let seed = 7;
+    const random = () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647;
+    };
+    const randomEdit = (text: string) => {
+      const start = Math.floor(random() * (text.length + 1));
+      const end = Math.min(text.length, start + Math.floor(random() * 4));
+      const inserted = random() < 0.7 ? 'ab\n'.slice(0, 1 + Math.floor(random() * 3)) : '';
+      return text.slice(0, start) + inserted + text.slice(end);
+    };
+
+    for (let round = 0; round < 100; round++) {
+      const replicas = createReplicas('const x = 1;', 'a', 'b', 'c');
+      const log: CrdtOperation[][] = [];
+
+      for (let step = 0; step < 10; step++) {
+        const replica = replicas[Math.floor(random() * replicas.length)];
+        log.push(edit(replica, randomEdit(replica.getText())));
+      }
+
+      // Каждая реплика получает все операции в своем случайном порядке
+      replicas.forEach(replica => {
+        const shuffled = [...log].sort(() => random() - 0.5);
+        shuffled.forEach(batch => replica.applyRemote(batch));
+      });
+
+      const texts = replicas.map(replica => replica.getText());
+      expect(texts[1]).toBe(texts[0]);
+      expect(texts[2]).toBe(texts[0]);
+    }
+  });
+});
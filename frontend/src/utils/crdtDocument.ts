@@ -0,0 +1,356 @@
+/**
+ * Последовательный CRDT (RGA) для текстового документа.
+ * Каждый символ получает уникальный идентификатор (часы Лэмпорта + ID клиента)
+ * и ссылку на символ, после которого он был вставлен. Удаленные символы
+ * остаются в документе как "надгробия", поэтому операции от разных клиентов
+ * можно применять в любом порядке и повторно - результат будет одинаковым.
+ */
+
+import { TextOperation } from './cursorTransform';
+import { diffToOperations, transformOperations } from './textOperations';
+
+export interface CrdtId {
+  client: string;
+  clock: number;
+}
+
+export interface CrdtInsertOperation {
+  type: 'insert';
+  id: CrdtId;
+  origin: CrdtId | null;
+  value: string;
+}
+
+export interface CrdtDeleteOperation {
+  type: 'delete';
+  id: CrdtId;
+}
+
+export type CrdtOperation = CrdtInsertOperation | CrdtDeleteOperation;
+
+interface CrdtElement {
+  id: CrdtId;
+  origin: CrdtId | null;
+  value: string;
+  deleted: boolean;
+}
+
+// Компактный формат хранения: [клиент, часы, клиент origin (-1 если нет), часы origin, символ, удален]
+type SerializedElement = [number, number, number, number, string, 0 | 1];
+
+export interface SerializedCrdtState {
+  clients: string[];
+  elements: SerializedElement[];
+}
+
+const idKey = (id: CrdtId) => `${id.clock}@${id.client}`;
+
+/**
+ * Порядок идентификаторов: больший clock важнее, при равенстве сравниваются ID клиентов
+ */
+function compareIds(a: CrdtId, b: CrdtId): number {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  }
+  if (a.client === b.client) {
+    return 0;
+  }
+  return a.client > b.client ? 1 : -1;
+}
+
+export class CrdtDocument {
+  private elements: CrdtElement[] = [];
+  private elementsByKey = new Map<string, CrdtElement>();
+  // Операции, которые ссылаются на еще не полученные символы
+  private pendingOperations: CrdtOperation[] = [];
+  private clock = 0;
+  private lastIndex = -1;
+
+  constructor(readonly clientId: string) {}
+
+  static fromState(state: SerializedCrdtState | null | undefined, clientId: string): CrdtDocument {
+    const document = new CrdtDocument(clientId);
+    if (!state) {
+      return document;
+    }
+
+    state.elements.forEach(([client, clock, originClient, originClock, value, deleted]) => {
+      const element: CrdtElement = {
+        id: { client: state.clients[client], clock },
+        origin: originClient >= 0 ? { client: state.clients[originClient], clock: originClock } : null,
+        value,
+        deleted: deleted === 1,
+      };
+      document.elements.push(element);
+      document.elementsByKey.set(idKey(element.id), element);
+      document.clock = Math.max(document.clock, clock);
+    });
+
+    return document;
+  }
+
+  /**
+   * Документ с начальным текстом, например при переводе существующей комнаты в CRDT режим
+   */
+  static fromText(text: string, clientId: string): CrdtDocument {
+    const document = new CrdtDocument(clientId);
+    document.localInsert(0, text);
+    return document;
+  }
+
+  toState(): SerializedCrdtState {
+    const clients: string[] = [];
+    const clientIndexes = new Map<string, number>();
+    const clientIndex = (client: string) => {
+      if (!clientIndexes.has(client)) {
+        clientIndexes.set(client, clients.length);
+        clients.push(client);
+      }
+      return clientIndexes.get(client)!;
+    };
+
+    const elements = this.elements.map((element): SerializedElement => [
+      clientIndex(element.id.client),
+      element.id.clock,
+      element.origin ? clientIndex(element.origin.client) : -1,
+      element.origin ? element.origin.clock : 0,
+      element.value,
+      element.deleted ? 1 : 0,
+    ]);
+
+    return { clients, elements };
+  }
+
+  getText(): string {
+    let text = '';
+    this.elements.forEach(element => {
+      if (!element.deleted) {
+        text += element.value;
+      }
+    });
+    return text;
+  }
+
+  /**
+   * Локальная вставка текста в видимую позицию
+   */
+  localInsert(position: number, text: string): CrdtOperation[] {
+    const operations: CrdtOperation[] = [];
+    let origin = position > 0 ? this.visibleElementAt(position - 1)?.id ?? null : null;
+
+    // Один элемент на одну UTF-16 единицу, чтобы позиции совпадали с позициями в строке
+    for (let i = 0; i < text.length; i++) {
+      const operation: CrdtInsertOperation = {
+        type: 'insert',
+        id: { client: this.clientId, clock: this.clock + 1 },
+        origin,
+        value: text[i],
+      };
+      this.applyOperation(operation);
+      operations.push(operation);
+      origin = operation.id;
+    }
+
+    return operations;
+  }
+
+  /**
+   * Локальное удаление length видимых символов начиная с позиции
+   */
+  localDelete(position: number, length: number): CrdtOperation[] {
+    const operations: CrdtOperation[] = [];
+    let visibleIndex = 0;
+
+    for (const element of this.elements) {
+      if (element.deleted) continue;
+      if (visibleIndex >= position + length) break;
+      if (visibleIndex >= position) {
+        operations.push({ type: 'delete', id: element.id });
+      }
+      visibleIndex++;
+    }
+
+    operations.forEach(operation => this.applyOperation(operation));
+    return operations;
+  }
+
+  /**
+   * Последовательность текстовых правок в виде локальных CRDT операций
+   */
+  localEdit(operations: TextOperation[]): CrdtOperation[] {
+    const result: CrdtOperation[] = [];
+    operations.forEach(operation => {
+      if (operation.type === 'delete') {
+        result.push(...this.localDelete(operation.position, operation.length));
+      } else {
+        result.push(...this.localInsert(operation.position, operation.content || ''));
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Все ли символы, на которые ссылаются операции, уже есть в документе или вставляются
+   * раньше в том же пакете
+   */
+  hasDependencies(operations: CrdtOperation[]): boolean {
+    const inserted = new Set<string>();
+    return operations.every(operation => {
+      const target = operation.type === 'insert' ? operation.origin : operation.id;
+      const known = !target || this.elementsByKey.has(idKey(target)) || inserted.has(idKey(target));
+      if (operation.type === 'insert') {
+        inserted.add(idKey(operation.id));
+      }
+      return known;
+    });
+  }
+
+  /**
+   * Видимый текст без учета части операций: вставленные ими символы скрыты,
+   * удаленные ими - видны
+   */
+  textWithout(operations: CrdtOperation[]): string {
+    const inserted = new Set<string>();
+    const deleted = new Set<string>();
+    operations.forEach(operation => {
+      (operation.type === 'insert' ? inserted : deleted).add(idKey(operation.id));
+    });
+
+    let text = '';
+    this.elements.forEach(element => {
+      const key = idKey(element.id);
+      if (!inserted.has(key) && (!element.deleted || deleted.has(key))) {
+        text += element.value;
+      }
+    });
+    return text;
+  }
+
+  /**
+   * Применение операций от других клиентов. Повторно полученные операции игнорируются,
+   * операции с неизвестными зависимостями откладываются до их появления.
+   * Возвращает true, если видимый текст мог измениться.
+   */
+  applyRemote(operations: CrdtOperation[]): boolean {
+    let changed = this.applyOrDefer(operations);
+
+    // Пробуем применить отложенные операции, пока это дает результат
+    let progress = changed;
+    while (progress && this.pendingOperations.length > 0) {
+      const pending = this.pendingOperations;
+      this.pendingOperations = [];
+      progress = this.applyOrDefer(pending);
+      changed = changed || progress;
+    }
+
+    return changed;
+  }
+
+  private applyOrDefer(operations: CrdtOperation[]): boolean {
+    let applied = false;
+    operations.forEach(operation => {
+      if (this.applyOperation(operation)) {
+        applied = true;
+      } else if (!this.isApplied(operation)) {
+        this.pendingOperations.push(operation);
+      }
+    });
+    return applied;
+  }
+
+  private isApplied(operation: CrdtOperation): boolean {
+    const element = this.elementsByKey.get(idKey(operation.id));
+    return operation.type === 'insert' ? !!element : !!element && element.deleted;
+  }
+
+  private applyOperation(operation: CrdtOperation): boolean {
+    this.clock = Math.max(this.clock, operation.id.clock);
+
+    if (operation.type === 'delete') {
+      const element = this.elementsByKey.get(idKey(operation.id));
+      if (!element || element.deleted) {
+        return false;
+      }
+      element.deleted = true;
+      return true;
+    }
+
+    if (this.elementsByKey.has(idKey(operation.id))) {
+      return false;
+    }
+
+    let index = 0;
+    if (operation.origin) {
+      const originIndex = this.indexOf(operation.origin);
+      if (originIndex < 0) {
+        return false;
+      }
+      index = originIndex + 1;
+    }
+
+    // Пропускаем параллельные вставки после того же символа с большим приоритетом
+    // (и все, что было вставлено после них - у таких символов приоритет еще выше)
+    while (index < this.elements.length && compareIds(this.elements[index].id, operation.id) > 0) {
+      index++;
+    }
+
+    const element: CrdtElement = {
+      id: operation.id,
+      origin: operation.origin,
+      value: operation.value,
+      deleted: false,
+    };
+    this.elements.splice(index, 0, element);
+    this.elementsByKey.set(idKey(element.id), element);
+    this.lastIndex = index;
+    return true;
+  }
+
+  private indexOf(id: CrdtId): number {
+    // Последовательные вставки обычно ссылаются на только что вставленный символ
+    const last = this.elements[this.lastIndex];
+    if (last && compareIds(last.id, id) === 0) {
+      return this.lastIndex;
+    }
+    return this.elements.findIndex(element => compareIds(element.id, id) === 0);
+  }
+
+  private visibleElementAt(position: number): CrdtElement | undefined {
+    let visibleIndex = 0;
+    for (const element of this.elements) {
+      if (element.deleted) continue;
+      if (visibleIndex === position) {
+        return element;
+      }
+      visibleIndex++;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Перенос неподтвержденных локальных операций из прежней копии документа в новую, полученную
+ * от сервера. Если новая копия знает все символы, на которые ссылаются операции, они
+ * применяются как есть. Иначе документ на сервере был пересобран с новыми идентификаторами:
+ * тогда локальные правки переносятся как вставки и удаления текста поверх нового текста.
+ * Возвращает операции, которые теперь ждут подтверждения сервера
+ */
+export function rebaseCrdtOperations(
+  previous: CrdtDocument,
+  next: CrdtDocument,
+  pending: CrdtOperation[]
+): CrdtOperation[] {
+  if (next.hasDependencies(pending)) {
+    next.applyRemote(pending);
+    return pending;
+  }
+
+  // Текст, на который опирались локальные правки, и сами правки поверх него
+  const baseText = previous.textWithout(pending);
+  const [localChanges] = transformOperations(
+    diffToOperations(baseText, previous.getText()),
+    diffToOperations(baseText, next.getText()),
+    false
+  );
+  return next.localEdit(localChanges);
+}
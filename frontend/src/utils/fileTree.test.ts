@@ -0,0 +1,40 @@
+/**
+ * Тесты построения дерева файлов комнаты
+ */
+
+import { buildFileTree, getParentPath, joinPath } from './fileTree';
+import { RoomFileEntry } from '../types';
+
+describe('File tree', () => {
+  const file = (id: string, path: string): RoomFileEntry => ({ id, path, entryType: 'file', language: 'typescript' });
+  const folder = (id: string, path: string): RoomFileEntry => ({ id, path, entryType: 'folder', language: 'typescript' });
+
+  test('nested paths are grouped into folders', () => {
+    const tree = buildFileTree([file('1', 'index.ts'), file('2', 'src/utils.ts'), file('3', 'src/lib/math.ts')]);
+
+    expect(tree.map(node => node.name)).toEqual(['src', 'index.ts']);
+    expect(tree[0].children.map(node => node.name)).toEqual(['lib', 'utils.ts']);
+    expect(tree[0].children[0].children[0]).toMatchObject({ id: '3', path: 'src/lib/math.ts' });
+  });
+
+  test('folder entries keep their id and may be empty', () => {
+    const tree = buildFileTree([folder('f', 'empty'), file('1', 'index.ts')]);
+
+    expect(tree[0]).toMatchObject({ id: 'f', name: 'empty', entryType: 'folder', children: [] });
+  });
+
+  test('folder entry listed after its files is merged with the implicit folder', () => {
+    const tree = buildFileTree([file('1', 'src/a.ts'), folder('f', 'src')]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0]).toMatchObject({ id: 'f', path: 'src' });
+    expect(tree[0].children).toHaveLength(1);
+  });
+
+  test('path helpers', () => {
+    expect(getParentPath('src/lib/math.ts')).toBe('src/lib');
+    expect(getParentPath('index.ts')).toBe('');
+    expect(joinPath('', 'a.ts')).toBe('a.ts');
+    expect(joinPath('src', 'a.ts')).toBe('src/a.ts');
+  });
+});
@@ -0,0 +1,71 @@
+import { FileEntryType, RoomFileEntry } from '../types';
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  entryType: FileEntryType;
+  id?: string; // Нет у папок, которые существуют только как часть пути файла
+  language?: string;
+  children: FileTreeNode[];
+}
+
+export const getParentPath = (path: string): string => {
+  const index = path.lastIndexOf('/');
+  return index >= 0 ? path.slice(0, index) : '';
+};
+
+export const getFileName = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
+
+export const joinPath = (folderPath: string, name: string): string =>
+  folderPath ? `${folderPath}/${name}` : name;
+
+const sortNodes = (nodes: FileTreeNode[]) => {
+  // Папки выше файлов, внутри группы - по алфавиту
+  nodes.sort((a, b) => {
+    if (a.entryType !== b.entryType) {
+      return a.entryType === 'folder' ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+  nodes.forEach(node => sortNodes(node.children));
+};
+
+/**
+ * Построение дерева из плоского списка путей комнаты
+ */
+export const buildFileTree = (entries: RoomFileEntry[]): FileTreeNode[] => {
+  const root: FileTreeNode[] = [];
+  const folders = new Map<string, FileTreeNode>();
+
+  const getFolder = (path: string): FileTreeNode[] => {
+    if (!path) return root;
+
+    let folder = folders.get(path);
+    if (!folder) {
+      folder = { name: getFileName(path), path, entryType: 'folder', children: [] };
+      folders.set(path, folder);
+      getFolder(getParentPath(path)).push(folder);
+    }
+    return folder.children;
+  };
+
+  entries.forEach(entry => {
+    if (entry.entryType === 'folder') {
+      getFolder(entry.path);
+      folders.get(entry.path)!.id = entry.id;
+      return;
+    }
+
+    getFolder(getParentPath(entry.path)).push({
+      name: getFileName(entry.path),
+      path: entry.path,
+      entryType: 'file',
+      id: entry.id,
+      language: entry.language,
+      children: [],
+    });
+  });
+
+  sortNodes(root);
+  return root;
+};
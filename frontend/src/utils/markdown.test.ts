@@ -0,0 +1,81 @@
+/**
+ * Тесты разбора Markdown условия задачи
+ */
+
+import { parseInline, parseMarkdown } from './markdown';
+
+describe('Problem statement markdown', () => {
+  test('headings, paragraphs and rules become separate blocks', () => {
+    const blocks = parseMarkdown('# Two Sum\n\nFind two numbers\nthat add up to target.\n\n---\n## Constraints');
+
+    expect(blocks).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Two Sum' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Find two numbers that add up to target.' }] },
+      { type: 'rule' },
+      { type: 'heading', level: 2, children: [{ type: 'text', text: 'Constraints' }] },
+    ]);
+  });
+
+  test('fenced code keeps its text untouched', () => {
+    const blocks = parseMarkdown('```js\nconst a = **b**;\n\n# not a heading\n```\nafter');
+
+    expect(blocks[0]).toEqual({ type: 'code', language: 'js', text: 'const a = **b**;\n\n# not a heading' });
+    expect(blocks[1]).toEqual({ type: 'paragraph', children: [{ type: 'text', text: 'after' }] });
+  });
+
+  test('unclosed fence runs to the end of the text', () => {
+    expect(parseMarkdown('```\nfoo()')).toEqual([{ type: 'code', language: '', text: 'foo()' }]);
+  });
+
+  test('ordered and unordered lists', () => {
+    const blocks = parseMarkdown('- one\n- two\n\n1. first\n2. second');
+
+    expect(blocks).toEqual([
+      { type: 'list', ordered: false, items: [[{ type: 'text', text: 'one' }], [{ type: 'text', text: 'two' }]] },
+      { type: 'list', ordered: true, items: [[{ type: 'text', text: 'first' }], [{ type: 'text', text: 'second' }]] },
+    ]);
+  });
+
+  test('quotes are parsed recursively', () => {
+    expect(parseMarkdown('> **Note**\n> be careful')).toEqual([
+      {
+        type: 'quote',
+        children: [{
+          type: 'paragraph',
+          children: [
+            { type: 'strong', children: [{ type: 'text', text: 'Note' }] },
+            { type: 'text', text: ' be careful' },
+          ],
+        }],
+      },
+    ]);
+  });
+
+  test('inline code, emphasis and links', () => {
+    expect(parseInline('Return `nums[i]`, *not* __index__ — see [docs](https://example.com)')).toEqual([
+      { type: 'text', text: 'Return ' },
+      { type: 'code', text: 'nums[i]' },
+      { type: 'text', text: ', ' },
+      { type: 'em', children: [{ type: 'text', text: 'not' }] },
+      { type: 'text', text: ' ' },
+      { type: 'strong', children: [{ type: 'text', text: 'index' }] },
+      { type: 'text', text: ' — see ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+  });
+
+  test('unsafe link schemes are rendered as plain text', () => {
+    expect(parseInline('see [click](javascript:void)')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'text', text: 'click' },
+    ]);
+  });
+
+  test('underscores inside identifiers are not emphasis', () => {
+    expect(parseInline('call max_sub_array here')).toEqual([{ type: 'text', text: 'call max_sub_array here' }]);
+  });
+
+  test('escaped markers stay literal', () => {
+    expect(parseInline('2 \\* 3 \\* 4')).toEqual([{ type: 'text', text: '2 * 3 * 4' }]);
+  });
+});
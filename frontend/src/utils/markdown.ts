@@ -0,0 +1,181 @@
+/**
+ * Небольшой разборщик Markdown для условия задачи. Результат - дерево блоков,
+ * которое отрисовывается React-элементами: сырой HTML из текста никогда не вставляется в страницу.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const FENCE = /^```\s*([\w+-]*)\s*$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+// Ссылки с другими схемами (javascript:, data:) показываются обычным текстом
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+
+const isBlockStart = (line: string) =>
+  HEADING.test(line) || FENCE.test(line) || QUOTE.test(line) || RULE.test(line) ||
+  UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line);
+
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !FENCE.test(lines[index])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+      index++; // Закрывающая ``` (или конец текста)
+      blocks.push({ type: 'code', language: fence[1], text: codeLines.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2].trim()) });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoteLines.push(lines[index].match(QUOTE)![1]);
+        index++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoteLines.join('\n')) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: InlineNode[][] = [];
+      while (index < lines.length && pattern.test(lines[index])) {
+        items.push(parseInline(lines[index].match(pattern)![1].trim()));
+        index++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (index < lines.length && lines[index].trim() && !isBlockStart(lines[index])) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+  }
+
+  return blocks;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let index = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    // Подчеркивания внутри слов (snake_case) не считаются разметкой
+    const isEmphasisMarker = char === '*' || (char === '_' && !/\w/.test(text[index - 1] || ''));
+
+    if (char === '\\' && index + 1 < text.length && /[\\`*_[\]()#>-]/.test(text[index + 1])) {
+      buffer += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', index + 1);
+      if (end > index) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(index + 1, end) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (isEmphasisMarker && text[index + 1] === char) {
+      const marker = char + char;
+      const end = text.indexOf(marker, index + 2);
+      if (end > index + 2) {
+        flush();
+        nodes.push({ type: 'strong', children: parseInline(text.slice(index + 2, end)) });
+        index = end + 2;
+        continue;
+      }
+    }
+
+    if (isEmphasisMarker) {
+      const end = text.indexOf(char, index + 1);
+      if (end > index + 1 && text[index + 1] !== ' ') {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(index + 1, end)) });
+        index = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = text.slice(index).match(/^\[([^\]]+)\]\(([^)\s]+)\)/);
+      if (link) {
+        flush();
+        if (SAFE_LINK.test(link[2])) {
+          nodes.push({ type: 'link', href: link[2], children: parseInline(link[1]) });
+        } else {
+          nodes.push(...parseInline(link[1]));
+        }
+        index += link[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index++;
+  }
+
+  flush();
+  return nodes;
+}
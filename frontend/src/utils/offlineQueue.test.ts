@@ -0,0 +1,52 @@
+/**
+ * Тесты офлайн очереди правок
+ */
+
+import { appendOfflineEdit, clearOfflineQueue, loadOfflineQueue, rebaseOfflineQueue } from './offlineQueue';
+
+describe('Offline edit queue', () => {
+  const roomId = 'room-1';
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('edits are persisted and counted', () => {
+    appendOfflineEdit(roomId, 3, 'const a = 1;', 'const a = 10;');
+    const queue = appendOfflineEdit(roomId, 3, 'const a = 1;', 'const a = 10;\nconst b = 2;');
+
+    expect(queue.edits).toHaveLength(2);
+    expect(loadOfflineQueue(roomId)).toEqual(queue);
+  });
+
+  test('base revision and text are taken from the first offline edit', () => {
+    appendOfflineEdit(roomId, 3, 'base', 'base!');
+    const queue = appendOfflineEdit(roomId, 7, 'ignored', 'base!!');
+
+    expect(queue.baseRevision).toBe(3);
+    expect(queue.baseCode).toBe('base');
+  });
+
+  test('unchanged text does not add an edit', () => {
+    appendOfflineEdit(roomId, 0, 'abc', 'abcd');
+    const queue = appendOfflineEdit(roomId, 0, 'abc', 'abcd');
+
+    expect(queue.edits).toHaveLength(1);
+  });
+
+  test('replay keeps changes made by others while offline', () => {
+    appendOfflineEdit(roomId, 0, 'function f() {\n  return 1;\n}', 'function f() {\n  return 2;\n}');
+    const queue = loadOfflineQueue(roomId)!;
+
+    const serverCode = '// author: left\nfunction f() {\n  return 1;\n}';
+
+    expect(rebaseOfflineQueue(queue, serverCode)).toBe('// author: left\nfunction f() {\n  return 2;\n}');
+  });
+
+  test('clear removes the queue', () => {
+    appendOfflineEdit(roomId, 0, '', 'x');
+    clearOfflineQueue(roomId);
+
+    expect(loadOfflineQueue(roomId)).toBeNull();
+  });
+});
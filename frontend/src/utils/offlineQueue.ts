@@ -0,0 +1,92 @@
+import { TextOperation } from './cursorTransform';
+import { applyOperations, diffToOperations, transformOperations } from './textOperations';
+
+/**
+ * Правки, сделанные без связи с сервером. Хранятся в localStorage,
+ * чтобы пережить перезагрузку страницы, и переносятся на актуальную
+ * версию документа после повторного входа в комнату.
+ * Очередь ведется отдельно для каждого файла комнаты.
+ */
+export interface OfflineQueue {
+  fileId: string;
+  baseRevision: number; // Ревизия сервера, на которой начались офлайн правки
+  baseCode: string; // Текст документа на этой ревизии
+  edits: TextOperation[][]; // Правки в порядке ввода, каждая относительно результата предыдущей
+  updatedAt: number;
+}
+
+const QUEUE_KEY_PREFIX = 'live-coding-offline-queue:';
+const QUEUE_MAX_AGE = 24 * 60 * 60 * 1000; // Столько же живет комната
+
+const queueKey = (fileId: string) => `${QUEUE_KEY_PREFIX}${fileId}`;
+
+export const loadOfflineQueue = (fileId: string): OfflineQueue | null => {
+  try {
+    const queueJson = localStorage.getItem(queueKey(fileId));
+    if (!queueJson) return null;
+
+    const queue: OfflineQueue = JSON.parse(queueJson);
+    if (Date.now() - queue.updatedAt > QUEUE_MAX_AGE) {
+      clearOfflineQueue(fileId);
+      return null;
+    }
+
+    return queue;
+  } catch (error) {
+    console.error('Error reading offline queue:', error);
+    clearOfflineQueue(fileId);
+    return null;
+  }
+};
+
+export const saveOfflineQueue = (queue: OfflineQueue): void => {
+  try {
+    localStorage.setItem(queueKey(queue.fileId), JSON.stringify(queue));
+  } catch (error) {
+    // Например, переполнение localStorage - правки остаются только в памяти
+    console.error('Error saving offline queue:', error);
+  }
+};
+
+export const clearOfflineQueue = (fileId: string): void => {
+  localStorage.removeItem(queueKey(fileId));
+};
+
+/**
+ * Добавление в очередь изменений между последним сохраненным состоянием и code
+ */
+export const appendOfflineEdit = (
+  fileId: string,
+  baseRevision: number,
+  baseCode: string,
+  code: string
+): OfflineQueue => {
+  const queue = loadOfflineQueue(fileId) || {
+    fileId,
+    baseRevision,
+    baseCode,
+    edits: [],
+    updatedAt: Date.now(),
+  };
+
+  const queuedCode = applyOperations(queue.baseCode, queue.edits.flat());
+  const operations = diffToOperations(queuedCode, code);
+  if (operations.length > 0) {
+    queue.edits.push(operations);
+    queue.updatedAt = Date.now();
+    saveOfflineQueue(queue);
+  }
+
+  return queue;
+};
+
+/**
+ * Перенос офлайн правок на актуальный текст сервера.
+ * Изменения, сделанные другими участниками за это время, сохраняются:
+ * правки из очереди трансформируются относительно них.
+ */
+export const rebaseOfflineQueue = (queue: OfflineQueue, serverCode: string): string => {
+  const remoteOperations = diffToOperations(queue.baseCode, serverCode);
+  const [localOperations] = transformOperations(queue.edits.flat(), remoteOperations, false);
+  return applyOperations(serverCode, localOperations);
+};
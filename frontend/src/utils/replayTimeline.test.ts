@@ -0,0 +1,90 @@
+/**
+ * Тесты воспроизведения сессии редактирования
+ */
+
+import {
+  ReplayEvent,
+  ReplayTimeline,
+  MAX_IDLE_GAP,
+  applyReplayEvent,
+  buildCheckpoints,
+  buildPlaybackTimes,
+  countEventsUntil,
+  getFrameAt,
+} from './replayTimeline';
+
+describe('Session replay timeline', () => {
+  const typing = (text: string, from: number, timestamp: number): ReplayEvent[] =>
+    text.split('').map((char, index) => ({
+      type: 'edit',
+      userId: 'left',
+      nickname: 'Left',
+      timestamp: timestamp + index * 100,
+      operations: [{ type: 'insert', position: from + index, length: 1, content: char }],
+    }));
+
+  test('edits are applied keystroke by keystroke', () => {
+    const timeline: ReplayTimeline = {
+      id: 'room',
+      initialCode: '',
+      initialLanguage: 'javascript',
+      events: typing('let a;', 0, 1000),
+    };
+    const checkpoints = buildCheckpoints(timeline);
+
+    expect(getFrameAt(timeline, checkpoints, 0).code).toBe('');
+    expect(getFrameAt(timeline, checkpoints, 3).code).toBe('let');
+    expect(getFrameAt(timeline, checkpoints, timeline.events.length).code).toBe('let a;');
+  });
+
+  test('remote cursor moves with text inserted before it', () => {
+    const frame = applyReplayEvent(
+      { code: 'ab', language: 'javascript', cursors: [] },
+      { type: 'cursor', userId: 'right', nickname: 'Right', timestamp: 0, position: 1 }
+    );
+    const edited = applyReplayEvent(frame, {
+      type: 'edit',
+      userId: 'left',
+      nickname: 'Left',
+      timestamp: 1,
+      operations: [{ type: 'insert', position: 0, length: 3, content: 'xyz' }],
+    });
+
+    expect(edited.code).toBe('xyzab');
+    expect(edited.cursors).toEqual([{ userId: 'right', nickname: 'Right', position: 4 }]);
+  });
+
+  test('language changes are replayed', () => {
+    const frame = applyReplayEvent(
+      { code: '', language: 'javascript', cursors: [] },
+      { type: 'language', userId: 'left', nickname: 'Left', timestamp: 0, language: 'python' }
+    );
+
+    expect(frame.language).toBe('python');
+  });
+
+  test('long pauses are shortened on the playback scale', () => {
+    const events = [...typing('ab', 0, 0), ...typing('c', 2, 60000)];
+    const times = buildPlaybackTimes(events);
+
+    expect(times).toEqual([0, 100, 100 + MAX_IDLE_GAP]);
+    expect(countEventsUntil(times, 50)).toBe(1);
+    expect(countEventsUntil(times, 100)).toBe(2);
+    expect(countEventsUntil(times, Infinity)).toBe(3);
+  });
+
+  test('scrubbing through checkpoints matches sequential playback', () => {
+    const text = 'function solve(input) {\n  return input;\n}\n'.repeat(20);
+    const timeline: ReplayTimeline = {
+      id: 'room',
+      initialCode: '',
+      initialLanguage: 'javascript',
+      events: typing(text, 0, 0),
+    };
+    const checkpoints = buildCheckpoints(timeline);
+
+    [0, 199, 200, 201, 555, timeline.events.length].forEach(count => {
+      expect(getFrameAt(timeline, checkpoints, count).code).toBe(text.slice(0, count));
+    });
+  });
+});
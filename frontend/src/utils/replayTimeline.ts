@@ -0,0 +1,130 @@
+import { TextOperation } from './cursorTransform';
+import { applyOperations, transformPositionThroughOperations } from './textOperations';
+
+export interface ReplayEvent {
+  type: 'edit' | 'cursor' | 'language';
+  userId: string;
+  nickname: string | null;
+  timestamp: number;
+  revision?: number;
+  operations?: TextOperation[];
+  position?: number;
+  language?: string;
+}
+
+export interface ReplayTimeline {
+  id: string;
+  initialCode: string;
+  initialLanguage: string;
+  events: ReplayEvent[];
+}
+
+export interface ReplayCursor {
+  userId: string;
+  nickname: string;
+  position: number;
+}
+
+export interface ReplayFrame {
+  code: string;
+  language: string;
+  cursors: ReplayCursor[];
+}
+
+// Паузы длиннее этого значения при воспроизведении сокращаются
+export const MAX_IDLE_GAP = 3000;
+// Каждые N событий сохраняется готовое состояние, чтобы перемотка не проигрывала всю сессию
+const CHECKPOINT_INTERVAL = 200;
+
+/**
+ * Применение одного события к состоянию воспроизведения
+ */
+export const applyReplayEvent = (frame: ReplayFrame, event: ReplayEvent): ReplayFrame => {
+  const nickname = event.nickname || event.userId;
+
+  if (event.type === 'language' && event.language) {
+    return { ...frame, language: event.language };
+  }
+
+  if (event.type === 'cursor' && event.position !== undefined) {
+    const cursors = frame.cursors.filter(cursor => cursor.userId !== event.userId);
+    cursors.push({ userId: event.userId, nickname, position: event.position });
+    return { ...frame, cursors };
+  }
+
+  if (event.type === 'edit' && event.operations) {
+    const operations = event.operations;
+    // Курсоры сдвигаются вместе с текстом, как в редакторе
+    const cursors = frame.cursors.map(cursor => ({
+      ...cursor,
+      position: transformPositionThroughOperations(cursor.position, operations, frame.code),
+    }));
+    return { ...frame, code: applyOperations(frame.code, operations), cursors };
+  }
+
+  return frame;
+};
+
+/**
+ * Время каждого события на шкале воспроизведения (мс от начала) с сокращенными паузами
+ */
+export const buildPlaybackTimes = (events: ReplayEvent[]): number[] => {
+  const times: number[] = [];
+  events.forEach((event, index) => {
+    if (index === 0) {
+      times.push(0);
+      return;
+    }
+    const gap = Math.max(0, event.timestamp - events[index - 1].timestamp);
+    times.push(times[index - 1] + Math.min(gap, MAX_IDLE_GAP));
+  });
+  return times;
+};
+
+/**
+ * Количество событий, произошедших к моменту time на шкале воспроизведения
+ */
+export const countEventsUntil = (times: number[], time: number): number => {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (times[middle] <= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Состояния после каждых CHECKPOINT_INTERVAL событий (нулевое - начальное)
+ */
+export const buildCheckpoints = (timeline: ReplayTimeline): ReplayFrame[] => {
+  let frame: ReplayFrame = { code: timeline.initialCode, language: timeline.initialLanguage, cursors: [] };
+  const checkpoints = [frame];
+
+  timeline.events.forEach((event, index) => {
+    frame = applyReplayEvent(frame, event);
+    if ((index + 1) % CHECKPOINT_INTERVAL === 0) {
+      checkpoints.push(frame);
+    }
+  });
+
+  return checkpoints;
+};
+
+/**
+ * Состояние после первых eventCount событий
+ */
+export const getFrameAt = (timeline: ReplayTimeline, checkpoints: ReplayFrame[], eventCount: number): ReplayFrame => {
+  const count = Math.max(0, Math.min(eventCount, timeline.events.length));
+  const checkpointIndex = Math.min(Math.floor(count / CHECKPOINT_INTERVAL), checkpoints.length - 1);
+
+  let frame = checkpoints[checkpointIndex];
+  for (let index = checkpointIndex * CHECKPOINT_INTERVAL; index < count; index++) {
+    frame = applyReplayEvent(frame, timeline.events[index]);
+  }
+  return frame;
+};
@@ -0,0 +1,78 @@
+const OWNER_TOKENS_KEY = 'live-coding-owner-tokens';
+const INVITE_TOKENS_KEY = 'live-coding-invite-tokens';
+const ROOM_PASSWORDS_KEY = 'live-coding-room-passwords';
+const PARTICIPANT_TOKENS_KEY = 'live-coding-participant-tokens';
+
+type RoomTokens = Record<string, string>;
+
+const loadTokens = (key: string): RoomTokens => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '{}');
+  } catch (error) {
+    console.error('Error reading room tokens:', error);
+    return {};
+  }
+};
+
+const saveToken = (key: string, roomId: string, token: string): void => {
+  const tokens = loadTokens(key);
+  tokens[roomId] = token;
+  localStorage.setItem(key, JSON.stringify(tokens));
+};
+
+const removeToken = (key: string, roomId: string): void => {
+  const tokens = loadTokens(key);
+  delete tokens[roomId];
+  localStorage.setItem(key, JSON.stringify(tokens));
+};
+
+/**
+ * Токен владельца выдается сервером один раз при создании комнаты и хранится только в этом браузере
+ */
+export const saveOwnerToken = (roomId: string, token: string): void => saveToken(OWNER_TOKENS_KEY, roomId, token);
+
+export const getOwnerToken = (roomId: string): string | null => loadTokens(OWNER_TOKENS_KEY)[roomId] || null;
+
+export const removeOwnerToken = (roomId: string): void => removeToken(OWNER_TOKENS_KEY, roomId);
+
+/**
+ * Токен из ссылки-приглашения запоминается, чтобы роль сохранялась после перезагрузки страницы
+ */
+export const saveInviteToken = (roomId: string, token: string): void => saveToken(INVITE_TOKENS_KEY, roomId, token);
+
+export const getInviteToken = (roomId: string): string | null => loadTokens(INVITE_TOKENS_KEY)[roomId] || null;
+
+/**
+ * Пароль комнаты запоминается после ввода, чтобы не спрашивать его при перезагрузке страницы
+ */
+export const saveRoomPassword = (roomId: string, password: string): void => saveToken(ROOM_PASSWORDS_KEY, roomId, password);
+
+export const getRoomPassword = (roomId: string): string | null => loadTokens(ROOM_PASSWORDS_KEY)[roomId] || null;
+
+export const removeRoomPassword = (roomId: string): void => removeToken(ROOM_PASSWORDS_KEY, roomId);
+
+/**
+ * Токен участника сервер выдает при входе в комнату. По нему участника узнают при повторном
+ * входе: в закрытую комнату пускают тех, кто был в ней до закрытия, а бан действует на него
+ */
+export const saveParticipantToken = (roomId: string, token: string): void => saveToken(PARTICIPANT_TOKENS_KEY, roomId, token);
+
+export const getParticipantToken = (roomId: string): string | null => loadTokens(PARTICIPANT_TOKENS_KEY)[roomId] || null;
+
+/**
+ * Заголовки запросов к содержимому комнаты. Владельцу пароль не нужен, остальным сервер
+ * без пароля ответит 401. Пароль кодируется, так как в заголовке допустима только латиница
+ */
+export const getRoomAccessHeaders = (roomId: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  const ownerToken = getOwnerToken(roomId);
+  const password = getRoomPassword(roomId);
+
+  if (ownerToken) {
+    headers.Authorization = `Bearer ${ownerToken}`;
+  }
+  if (password) {
+    headers['X-Room-Password'] = encodeURIComponent(password);
+  }
+  return headers;
+};
@@ -0,0 +1,39 @@
+/**
+ * Тесты разбиения выделений других пользователей на строки
+ */
+
+import { getSelectionLineSpans } from './selectionRanges';
+
+const CODE = 'const a = 1;\nconst b = 2;\n\nreturn a + b;';
+
+describe('Selection line spans', () => {
+  test('empty selection has no spans', () => {
+    expect(getSelectionLineSpans(CODE, 5, 5)).toEqual([]);
+  });
+
+  test('selection inside one line', () => {
+    expect(getSelectionLineSpans(CODE, 6, 11)).toEqual([
+      { line: 0, startColumn: 6, endColumn: 11, includesLineBreak: false },
+    ]);
+  });
+
+  test('backward selection gives the same spans as forward one', () => {
+    expect(getSelectionLineSpans(CODE, 20, 8)).toEqual(getSelectionLineSpans(CODE, 8, 20));
+  });
+
+  test('multi-line selection covers the line breaks and empty lines between', () => {
+    expect(getSelectionLineSpans(CODE, 10, 33)).toEqual([
+      { line: 0, startColumn: 10, endColumn: 12, includesLineBreak: true },
+      { line: 1, startColumn: 0, endColumn: 12, includesLineBreak: true },
+      { line: 2, startColumn: 0, endColumn: 0, includesLineBreak: true },
+      { line: 3, startColumn: 0, endColumn: 6, includesLineBreak: false },
+    ]);
+  });
+
+  test('selection beyond the end of the text is clipped', () => {
+    expect(getSelectionLineSpans('abc', 1, 10)).toEqual([
+      { line: 0, startColumn: 1, endColumn: 3, includesLineBreak: false },
+    ]);
+    expect(getSelectionLineSpans('abc', 7, 10)).toEqual([]);
+  });
+});
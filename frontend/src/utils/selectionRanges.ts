@@ -0,0 +1,36 @@
+/**
+ * Часть выделения на одной строке текста. Строки и колонки считаются с нуля
+ */
+export interface SelectionLineSpan {
+  line: number;
+  startColumn: number;
+  endColumn: number;
+  includesLineBreak: boolean; // Выделение продолжается на следующей строке
+}
+
+/**
+ * Разбиение выделения между anchor и head на построчные отрезки для подсветки.
+ * Пустое выделение подсветки не дает
+ */
+export function getSelectionLineSpans(code: string, anchor: number, head: number): SelectionLineSpan[] {
+  const from = Math.max(0, Math.min(anchor, head, code.length));
+  const to = Math.min(Math.max(anchor, head), code.length);
+  if (from >= to) {
+    return [];
+  }
+
+  const linesBefore = code.slice(0, from).split('\n');
+  const firstLine = linesBefore.length - 1;
+  const firstColumn = linesBefore[linesBefore.length - 1].length;
+  const segments = code.slice(from, to).split('\n');
+
+  return segments.map((segment, index) => {
+    const startColumn = index === 0 ? firstColumn : 0;
+    return {
+      line: firstLine + index,
+      startColumn,
+      endColumn: startColumn + segment.length,
+      includesLineBreak: index < segments.length - 1,
+    };
+  });
+}
@@ -1,3 +1,5 @@
+import { v4 as uuidv4 } from 'uuid';
+
 interface SessionData {
   nickname: string;
   timestamp: number;
@@ -51,4 +53,13 @@ export const updateSessionTimestamp = (): void => {
       console.error('Error updating session timestamp:', error);
     }
   }
-};
\ No newline at end of file
+};
+
+// Создается заново при каждой загрузке страницы и нигде не хранится: sessionStorage копируется
+// при дублировании вкладки, и у двух вкладок совпали бы идентификаторы операций
+const CLIENT_ID = uuidv4();
+
+/**
+ * Идентификатор вкладки для CRDT операций
+ */
+export const getClientId = (): string => CLIENT_ID;
@@ -0,0 +1,162 @@
+/**
+ * Тесты вычисления и применения инкрементальных операций
+ */
+
+import { applyOperation, applyOperations, diffToOperations, transformOperations } from './textOperations';
+import { TextOperation } from './cursorTransform';
+
+describe('Text operations', () => {
+
+  describe('applyOperation', () => {
+    test('inserts content at position', () => {
+      expect(applyOperation('hello world', {
+        type: 'insert',
+        position: 5,
+        length: 1,
+        content: ','
+      })).toBe('hello, world');
+    });
+
+    test('deletes range at position', () => {
+      expect(applyOperation('hello, world', {
+        type: 'delete',
+        position: 5,
+        length: 1
+      })).toBe('hello world');
+    });
+  });
+
+  describe('diffToOperations', () => {
+    test('returns empty list for identical texts', () => {
+      expect(diffToOperations('same', 'same')).toEqual([]);
+    });
+
+    test('single insertion', () => {
+      expect(diffToOperations('const x = 1;', 'const xy = 1;')).toEqual([
+        { type: 'insert', position: 7, length: 1, content: 'y' }
+      ]);
+    });
+
+    test('single deletion', () => {
+      expect(diffToOperations('const xy = 1;', 'const x = 1;')).toEqual([
+        { type: 'delete', position: 7, length: 1 }
+      ]);
+    });
+
+    test('replacement keeps both removed and inserted text', () => {
+      const oldText = 'let value = true;';
+      const newText = 'let value = false;';
+      const operations = diffToOperations(oldText, newText);
+
+      expect(operations).toEqual([
+        { type: 'delete', position: 12, length: 3 },
+        { type: 'insert', position: 12, length: 4, content: 'fals' }
+      ]);
+      expect(applyOperations(oldText, operations)).toBe(newText);
+    });
+
+    test('replacement of equal length is not lost', () => {
+      const oldText = 'return a + b;';
+      const newText = 'return a - b;';
+
+      expect(applyOperations(oldText, diffToOperations(oldText, newText))).toBe(newText);
+    });
+
+    test('multiline paste into empty document', () => {
+      const newText = 'function test() {\n  return 42;\n}';
+      const operations = diffToOperations('', newText);
+
+      expect(operations).toHaveLength(1);
+      expect(applyOperations('', operations)).toBe(newText);
+    });
+
+    test('clearing the whole document', () => {
+      const oldText = 'line1\nline2\nline3';
+
+      expect(diffToOperations(oldText, '')).toEqual([
+        { type: 'delete', position: 0, length: oldText.length }
+      ]);
+    });
+  });
+
+  describe('transformOperations', () => {
+    // Проверка сходимости: оба порядка применения дают одинаковый текст
+    const converge = (doc: string, a: TextOperation[], b: TextOperation[], aFirst = true) => {
+      const [aPrime, bPrime] = transformOperations(a, b, aFirst);
+      const left = applyOperations(applyOperations(doc, a), bPrime);
+      const right = applyOperations(applyOperations(doc, b), aPrime);
+      expect(left).toBe(right);
+      return left;
+    };
+
+    test('concurrent inserts at different positions keep both edits', () => {
+      const doc = 'const a = 1;\nconst b = 2;';
+      const a = diffToOperations(doc, 'const a = 10;\nconst b = 2;');
+      const b = diffToOperations(doc, 'const a = 1;\nconst b = 20;');
+
+      expect(converge(doc, a, b)).toBe('const a = 10;\nconst b = 20;');
+    });
+
+    test('concurrent inserts at the same position are ordered by priority', () => {
+      const doc = 'ab';
+      const a: TextOperation[] = [{ type: 'insert', position: 1, length: 1, content: 'X' }];
+      const b: TextOperation[] = [{ type: 'insert', position: 1, length: 1, content: 'Y' }];
+
+      expect(converge(doc, a, b, true)).toBe('aXYb');
+      expect(converge(doc, a, b, false)).toBe('aYXb');
+    });
+
+    test('insert inside a concurrently deleted range survives', () => {
+      const doc = 'hello brave new world';
+      const a: TextOperation[] = [{ type: 'insert', position: 9, length: 3, content: '!!!' }];
+      const b: TextOperation[] = [{ type: 'delete', position: 5, length: 10 }];
+
+      expect(converge(doc, a, b)).toBe('hello!!! world');
+    });
+
+    test('overlapping deletes remove the union once', () => {
+      const doc = '0123456789';
+      const a: TextOperation[] = [{ type: 'delete', position: 2, length: 4 }];
+      const b: TextOperation[] = [{ type: 'delete', position: 4, length: 4 }];
+
+      expect(converge(doc, a, b)).toBe('0189');
+    });
+
+    test('identical deletes collapse to nothing', () => {
+      const doc = 'abcdef';
+      const op: TextOperation[] = [{ type: 'delete', position: 1, length: 3 }];
+      const [aPrime, bPrime] = transformOperations(op, op, true);
+
+      expect(aPrime).toEqual([]);
+      expect(bPrime).toEqual([]);
+      expect(converge(doc, op, op)).toBe('aef');
+    });
+
+    test('random concurrent edits always converge', () => {
+      // Детерминированный генератор, чтобы падения воспроизводились
+      let seed = 42;
+      const random = () => {
+        seed = (seed * 16807) % 2147483647;
+        return seed / 2147483647;
+      };
+      const randomEdit = (text: string) => {
+        const start = Math.floor(random() * (text.length + 1));
+        const end = Math.min(text.length, start + Math.floor(random() * 4));
+        const inserted = random() < 0.7 ? 'xyz\n'.slice(0, Math.floor(random() * 4)) : '';
+        return text.slice(0, start) + inserted + text.slice(end);
+      };
+
+      for (let i = 0; i < 500; i++) {
+        const doc = 'function f() {\n  return 1;\n}'.slice(0, Math.floor(random() * 30));
+        let textA = doc;
+        let textB = doc;
+        for (let j = 0; j < 3; j++) {
+          textA = randomEdit(textA);
+          textB = randomEdit(textB);
+        }
+
+        converge(doc, diffToOperations(doc, textA), diffToOperations(doc, textB), random() < 0.5);
+      }
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { TextOperation, transformCursorPosition } from './cursorTransform';
+
+/**
+ * Быстрый хеш текста (FNV-1a, 32 бита) для сверки документа с сервером
+ * при переподключении. Сервер считает такой же хеш.
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Применение одной операции к тексту
+ */
+export function applyOperation(text: string, operation: TextOperation): string {
+  if (operation.type === 'insert') {
+    return text.slice(0, operation.position) + (operation.content || '') + text.slice(operation.position);
+  }
+  return text.slice(0, operation.position) + text.slice(operation.position + operation.length);
+}
+
+/**
+ * Последовательное применение списка операций к тексту
+ */
+export function applyOperations(text: string, operations: TextOperation[]): string {
+  return operations.reduce((result, operation) => applyOperation(result, operation), text);
+}
+
+/**
+ * Вычисление списка операций, переводящих oldText в newText.
+ * В отличие от calculateTextOperation замена фрагмента не теряется:
+ * она раскладывается на удаление старого текста и вставку нового.
+ */
+export function diffToOperations(oldText: string, newText: string): TextOperation[] {
+  if (oldText === newText) {
+    return [];
+  }
+
+  let prefixLength = 0;
+  while (
+    prefixLength < oldText.length &&
+    prefixLength < newText.length &&
+    oldText[prefixLength] === newText[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldText.length - prefixLength &&
+    suffixLength < newText.length - prefixLength &&
+    oldText[oldText.length - 1 - suffixLength] === newText[newText.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const deletedLength = oldText.length - suffixLength - prefixLength;
+  const insertedText = newText.slice(prefixLength, newText.length - suffixLength);
+  const operations: TextOperation[] = [];
+
+  if (deletedLength > 0) {
+    operations.push({ type: 'delete', position: prefixLength, length: deletedLength });
+  }
+  if (insertedText.length > 0) {
+    operations.push({ type: 'insert', position: prefixLength, length: insertedText.length, content: insertedText });
+  }
+
+  return operations;
+}
+
+function shift(operation: TextOperation, offset: number): TextOperation {
+  return { ...operation, position: operation.position + offset };
+}
+
+function deleteRange(position: number, length: number): TextOperation[] {
+  return length > 0 ? [{ type: 'delete', position, length }] : [];
+}
+
+/**
+ * Трансформация вставки относительно параллельного удаления
+ */
+function transformInsertDelete(insert: TextOperation, del: TextOperation): [TextOperation[], TextOperation[]] {
+  const deleteEnd = del.position + del.length;
+
+  if (insert.position <= del.position) {
+    return [[insert], [shift(del, insert.length)]];
+  }
+
+  if (insert.position >= deleteEnd) {
+    return [[shift(insert, -del.length)], [del]];
+  }
+
+  // Вставка внутри удаляемого диапазона: вставленный текст сохраняется,
+  // а удаление разбивается на части до и после него
+  return [
+    [{ ...insert, position: del.position }],
+    [
+      ...deleteRange(del.position, insert.position - del.position),
+      ...deleteRange(del.position + insert.length, deleteEnd - insert.position),
+    ],
+  ];
+}
+
+function transformSingle(a: TextOperation, b: TextOperation, aFirst: boolean): [TextOperation[], TextOperation[]] {
+  if (a.type === 'insert' && b.type === 'insert') {
+    if (a.position < b.position || (a.position === b.position && aFirst)) {
+      return [[a], [shift(b, a.length)]];
+    }
+    return [[shift(a, b.length)], [b]];
+  }
+
+  if (a.type === 'insert' && b.type === 'delete') {
+    return transformInsertDelete(a, b);
+  }
+
+  if (a.type === 'delete' && b.type === 'insert') {
+    const [bPrime, aPrime] = transformInsertDelete(b, a);
+    return [aPrime, bPrime];
+  }
+
+  // Два удаления
+  const aEnd = a.position + a.length;
+  const bEnd = b.position + b.length;
+
+  if (aEnd <= b.position) {
+    return [[a], [shift(b, -a.length)]];
+  }
+  if (bEnd <= a.position) {
+    return [[shift(a, -b.length)], [b]];
+  }
+
+  // Диапазоны пересекаются: общий фрагмент уже удален другой стороной
+  const overlap = Math.min(aEnd, bEnd) - Math.max(a.position, b.position);
+  const start = Math.min(a.position, b.position);
+  return [deleteRange(start, a.length - overlap), deleteRange(start, b.length - overlap)];
+}
+
+/**
+ * Трансформация двух параллельных списков операций, примененных к одному документу.
+ * Возвращает [a', b'] такие, что apply(apply(doc, a), b') === apply(apply(doc, b), a').
+ * aFirst определяет порядок при вставках в одну и ту же позицию.
+ */
+export function transformOperations(
+  a: TextOperation[],
+  b: TextOperation[],
+  aFirst: boolean
+): [TextOperation[], TextOperation[]] {
+  if (a.length === 0 || b.length === 0) {
+    return [a, b];
+  }
+
+  if (a.length === 1 && b.length === 1) {
+    return transformSingle(a[0], b[0], aFirst);
+  }
+
+  if (a.length > 1) {
+    const [aHead, bAfterHead] = transformOperations([a[0]], b, aFirst);
+    const [aTail, bAfterTail] = transformOperations(a.slice(1), bAfterHead, aFirst);
+    return [[...aHead, ...aTail], bAfterTail];
+  }
+
+  const [aAfterHead, bHead] = transformOperations(a, [b[0]], aFirst);
+  const [aAfterTail, bTail] = transformOperations(aAfterHead, b.slice(1), aFirst);
+  return [aAfterTail, [...bHead, ...bTail]];
+}
+
+/**
+ * Перенос позиции в тексте через последовательность операций
+ * с помощью transformCursorPosition
+ */
+export function transformPositionThroughOperations(
+  position: number,
+  operations: TextOperation[],
+  text: string
+): number {
+  let currentPosition = position;
+  let currentText = text;
+
+  operations.forEach(operation => {
+    const nextText = applyOperation(currentText, operation);
+    const result = transformCursorPosition(currentPosition, operation, currentText, nextText);
+    currentPosition = result.position ?? Math.min(operation.position, nextText.length);
+    currentText = nextText;
+  });
+
+  return currentPosition;
+}